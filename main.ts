@@ -1,4 +1,4 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder } from 'obsidian';
+import { App, Component, Editor, ItemView, MarkdownRenderer, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Scope, Setting, TFile, TFolder, ViewStateResult, WorkspaceLeaf } from 'obsidian';
 
 // Types for ChatGPT export data
 interface ChatGPTMessage {
@@ -12,11 +12,9 @@ interface ChatGPTMessage {
 		};
 		create_time: number;
 		update_time: number;
-		content: {
-			content_type: string;
-			parts: string[];
-		};
+		content: ChatGPTMessageContent;
 		status: string;
+		recipient?: string; // Tool the message is addressed to (e.g. 'python', 'browser'), 'all' otherwise
 		end_turn: boolean | null;
 		weight: number;
 		metadata: any;
@@ -25,6 +23,23 @@ interface ChatGPTMessage {
 	children: string[];
 }
 
+// Message payload; the fields besides content_type depend on the content type
+// (parts for text, text/language for code, result for browsing, thoughts for reasoning, ...)
+interface ChatGPTMessageContent {
+	content_type: string;
+	parts?: Array<string | ChatGPTContentPart>;
+	[key: string]: any;
+}
+
+// Non-text part of a multimodal_text message (uploaded images and DALL·E outputs)
+interface ChatGPTContentPart {
+	content_type: string; // e.g. 'image_asset_pointer'
+	asset_pointer?: string; // e.g. 'file-service://file-abc123' or 'sediment://file_abc123'
+	width?: number;
+	height?: number;
+	metadata?: any;
+}
+
 // Q&A pair state tracking
 enum QAPairState {
 	NEW = 'new',
@@ -35,12 +50,20 @@ enum QAPairState {
 // Individual Q&A pair metadata
 interface QAPairMetadata {
 	pairId: string; // Unique identifier for this Q&A pair
-	pairHash: string; // Hash of Q&A content for deduplication
+	pairHash: string; // Hash of the full normalized Q&A content for deduplication
 	conversationId: string; // Parent conversation ID
 	state: QAPairState;
 	timestamp: number; // When state was last updated
 	userPrompt: string; // First 100 chars of user prompt for reference
 	responsePreview: string; // First 100 chars of response for reference
+	notePaths?: string[]; // Notes written from this pair
+}
+
+// A response and the message before it (usually the user prompt), as shown in the import modal
+interface QAPair {
+	pairId: string;
+	userMessage: ExtractedMessage | null;
+	assistantMessage: ExtractedMessage;
 }
 
 // Conversation processing status (derived from Q&A pair states)
@@ -50,8 +73,66 @@ enum ConversationProcessingStatus {
 	PROCESSED = 'processed' // All pairs are SAVED or IGNORED
 }
 
+// What imports have seen of a conversation, so a later export can reveal turns added since
+interface SeenConversation {
+	updateTime: number; // Latest update_time imported; responses created after it are new
+	newResponseIds: string[]; // Responses that appeared in a re-import and have not been processed yet
+}
+
+// How a saved note was generated, so it can be re-rendered when its source or template changes
+interface SavedNoteRecord {
+	path: string;
+	kind: 'response' | 'conversation';
+	conversationId: string;
+	pairIds: string[]; // The response, or every exchange of a conversation note
+	title: string;
+	tags: string;
+	templateId: string; // '' = built-in layout
+	contentHash: string; // Hash of the generated part when it was last written
+	savedAt: number; // First save; also the {{now}} of later updates
+	timestamp: number; // Last write
+}
+
+// A saved note whose regenerated content differs from what was last written
+interface SavedNoteUpdate {
+	record: SavedNoteRecord;
+	file: TFile;
+	modal: SaveNoteModal; // Renders the note and copies its attachments
+	oldGenerated: string; // Generated part currently in the file
+	newGenerated: string;
+	userContent: string; // Text below the marker, kept as is
+}
+
+// Pair metadata without its note links, which follow the vault and are never rolled back
+type PairStateSnapshot = Omit<QAPairMetadata, 'notePaths'>;
+
+interface PairStateChange {
+	pairId: string;
+	conversationId: string;
+	before: PairStateSnapshot | null; // null = the pair had no metadata yet
+	after: PairStateSnapshot | null;
+}
+
+// One user action on pair states (a click, a bulk action, a triage key), kept so it can be undone and redone
+interface PairAction {
+	id: string;
+	label: string; // What was done, e.g. "Ignore 12 pairs"
+	source: string; // Where it was done, e.g. "Bulk actions" or "Triage"
+	timestamp: number;
+	changes: PairStateChange[];
+	// Notes the action wrote; the text is kept for redo while an undo has the note in the trash (up to UNDO_NOTE_TEXT_LIMIT)
+	notes: Array<{ record: SavedNoteRecord; content?: string }>;
+	undone: boolean;
+}
+
 interface QAPairMetadataStore {
+	version: number; // METADATA_SCHEMA_VERSION the store was written with
 	qaPairs: { [key: string]: QAPairMetadata }; // Key is pairId
+	actionLog: PairAction[]; // Oldest first; undone actions are always at the end
+	seenConversations?: { [conversationId: string]: SeenConversation };
+	savedNotes?: { [path: string]: SavedNoteRecord }; // Key is the note path
+	// Conversation-level states from the original metadata format, applied to their pairs when the conversation is next imported
+	legacyConversations?: { [conversationId: string]: { processed?: boolean } };
 	lastUpdated: number;
 }
 
@@ -60,289 +141,2620 @@ interface ChatGPTConversation {
 	create_time: number;
 	update_time: number;
 	mapping: { [key: string]: ChatGPTMessage };
+	current_node?: string; // Leaf of the branch that was active when the export was made
 	conversation_id: string;
 	id: string;
 }
 
+// A single message on an extracted conversation thread
+interface ExtractedMessage {
+	role: string;
+	content: string;
+	timestamp: number;
+	id: string;
+	model?: string; // metadata.model_slug of assistant messages (e.g. gpt-4o)
+	// Ids of the pairs this response's text belonged to before tool calls were folded into it (see migrateFoldedPairIds)
+	foldedPairIds?: string[];
+}
+
+// One root-to-leaf path through the message tree (regenerated answers and edited prompts create new branches)
+interface ConversationBranch {
+	leafId: string; // Mapping node ID of the branch leaf
+	messages: ExtractedMessage[];
+	isCurrent: boolean; // True for the branch ending at the export's current_node
+}
+
+interface ExtractedConversation {
+	title: string;
+	id: string;
+	create_time: number;
+	update_time: number;
+	messages: ExtractedMessage[]; // Messages of the selected branch
+	branches: ConversationBranch[];
+	currentBranchIndex: number; // Branch matching current_node (falls back to the children[0] path)
+	selectedBranchIndex: number; // Branch currently shown in the import modal
+}
+
+// Entry in a ChatGPT export .zip, located through the archive's central directory
+interface ExportArchiveEntry {
+	path: string;
+	kind: 'conversations' | 'image' | 'audio' | 'html' | 'json' | 'other';
+	compressionMethod: number; // 0 = stored, 8 = deflate
+	encrypted: boolean;
+	compressedSize: number;
+	uncompressedSize: number;
+	localHeaderOffset: number;
+}
+
+// Values for the tokens of a filename pattern
+interface FilenameTokens {
+	date: Date;
+	conversationTitle: string;
+	prompt: string;
+	index: number | null; // 1-based pair index within the conversation
+	id: string;
+}
+
+// Table of contents filters, persisted in settings between sessions
+interface ConversationFilters {
+	showNew: boolean;
+	showPartiallyProcessed: boolean;
+	showFullyProcessed: boolean;
+	dateField: 'created' | 'updated';
+	dateFrom: string; // YYYY-MM-DD, '' = open
+	dateTo: string;
+	model: string; // model_slug, '' = any
+	minResponses: number | null;
+	maxResponses: number | null;
+	hasCodeBlocks: boolean;
+	hasAttachments: boolean;
+	newTurnsOnly: boolean; // Only conversations with responses added since the previous import
+}
+
+// Table of contents ordering, remembered in settings
+interface ConversationSort {
+	field: 'export' | 'created' | 'updated' | 'title' | 'responses' | 'newPairs';
+	direction: 'asc' | 'desc';
+}
+
+// Note template stored in the plugin settings
+interface NoteTemplate {
+	name: string;
+	content: string;
+}
+
+// Where the importer was when it closed, so reopening continues there (also the library view's saved state)
+interface ImportViewState {
+	viewMode: 'toc' | 'conversation';
+	conversationId: string | null;
+	tocScrollTop: number;
+	searchQuery: string;
+	showNewPairs: boolean;
+	showIgnoredPairs: boolean;
+	showSavedPairs: boolean;
+	showDuplicatePairs: boolean;
+}
+
+// Single keys for triage in the importer and library pane; '' turns a key off (the Triage commands still work)
+interface TriageKeys {
+	save: string;
+	ignore: string;
+	undo: string;
+	nextPair: string;
+	previousPair: string;
+	nextConversation: string;
+	previousConversation: string;
+}
+
 interface ChatGPTSettings {
 	defaultFolder: string;
+	attachmentsFolder: string;
 	includeUserPrompts: boolean;
 	includeTimestamps: boolean;
 	includeTags: boolean;
 	defaultTags: string;
+	revertDeletedNotes: boolean; // Pairs whose saved notes are all deleted go back to NEW
+	noteTemplates: NoteTemplate[];
+	templatesFolder: string; // Markdown files in this vault folder are offered as templates too
+	defaultTemplate: string; // '' = built-in layout, 'settings:<name>' or 'file:<path>'
+	filenamePattern: string;
+	conversationFilenamePattern: string;
+	filenameSlugify: boolean;
+	filenameMaxLength: number; // 0 = no limit
+	conversationFilters: ConversationFilters;
+	conversationSort: ConversationSort;
+	cacheLoadedExport: boolean; // Keep the extracted conversations in the plugin folder between sessions
+	importViewState: ImportViewState;
+	triageKeys: TriageKeys;
 }
 
+const DEFAULT_CONVERSATION_FILTERS: ConversationFilters = {
+	showNew: true,
+	showPartiallyProcessed: true,
+	showFullyProcessed: false,
+	dateField: 'created',
+	dateFrom: '',
+	dateTo: '',
+	model: '',
+	minResponses: null,
+	maxResponses: null,
+	hasCodeBlocks: false,
+	hasAttachments: false,
+	newTurnsOnly: false
+};
+
 const DEFAULT_SETTINGS: ChatGPTSettings = {
 	defaultFolder: 'ChatGPT',
+	attachmentsFolder: 'ChatGPT/attachments',
 	includeUserPrompts: true,
 	includeTimestamps: true,
 	includeTags: true,
-	defaultTags: 'chatgpt, ai'
+	defaultTags: 'chatgpt, ai',
+	revertDeletedNotes: false,
+	noteTemplates: [],
+	templatesFolder: '',
+	defaultTemplate: '',
+	filenamePattern: '{{conversation_title}} - Response',
+	conversationFilenamePattern: '{{conversation_title}}',
+	filenameSlugify: false,
+	filenameMaxLength: 100,
+	conversationFilters: DEFAULT_CONVERSATION_FILTERS,
+	conversationSort: { field: 'export', direction: 'asc' },
+	cacheLoadedExport: true,
+	importViewState: {
+		viewMode: 'toc',
+		conversationId: null,
+		tocScrollTop: 0,
+		searchQuery: '',
+		showNewPairs: true,
+		showIgnoredPairs: false,
+		showSavedPairs: false,
+		showDuplicatePairs: true
+	},
+	triageKeys: {
+		save: 's',
+		ignore: 'i',
+		undo: 'u',
+		nextPair: 'j',
+		previousPair: 'k',
+		nextConversation: 'n',
+		previousConversation: 'p'
+	}
 }
 
-// Helper to convert content to markdown
-function convertToMarkdown(content: string): string {
-	// Basic conversion - you might want to enhance this
-	return content
-		.replace(/\*\*(.*?)\*\*/g, '**$1**') // Keep bold
-		.replace(/\*(.*?)\*/g, '*$1*') // Keep italic
-		.replace(/`([^`]+)`/g, '`$1`') // Keep inline code
-		.replace(/```([\s\S]*?)```/g, '```$1```'); // Keep code blocks
+// Starting point for new templates; reproduces the built-in note layout
+const DEFAULT_NOTE_TEMPLATE = `---
+title: "{{title}}"
+tags: [{{tags}}]
+created: {{date:YYYY-MM-DD}}
+source: ChatGPT
+conversation: "{{conversation_title}}"
+---
+
+{{#if prompt}}
+## User Prompt
+
+{{prompt}}
+
+{{/if}}
+## Response
+
+{{response}}
+`;
+
+type TemplateVariables = { [name: string]: string | Date };
+
+// Innermost {{#if name}}...{{else}}...{{/if}} (or #unless) block; a newline right after a tag belongs to the tag
+const TEMPLATE_BLOCK_REGEX = /\{\{#(if|unless)\s+(\w+)\}\}\n?((?:(?!\{\{#(?:if|unless)\s)[\s\S])*?)\{\{\/\1\}\}\n?/;
+const TEMPLATE_VARIABLE_REGEX = /\{\{(\w+)(?::([^}]*))?\}\}/g;
+
+// Format a date with YYYY/YY/MM/M/DD/D/HH/H/mm/ss tokens; [text] is copied literally
+function formatTemplateDate(date: Date, format: string): string {
+	const pad = (value: number) => ('0' + value).slice(-2);
+	const tokens: { [token: string]: string } = {
+		YYYY: date.getFullYear().toString(),
+		YY: date.getFullYear().toString().slice(-2),
+		MM: pad(date.getMonth() + 1),
+		M: (date.getMonth() + 1).toString(),
+		DD: pad(date.getDate()),
+		D: date.getDate().toString(),
+		HH: pad(date.getHours()),
+		H: date.getHours().toString(),
+		mm: pad(date.getMinutes()),
+		ss: pad(date.getSeconds())
+	};
+	return format.replace(/\[([^\]]*)\]|YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g, (token, literal?: string) =>
+		literal !== undefined ? literal : tokens[token]
+	);
 }
 
-export default class ChatGPTToObsidianPlugin extends Plugin {
-	settings: ChatGPTSettings;
-	private metadataStore: QAPairMetadataStore = { qaPairs: {}, lastUpdated: Date.now() };
-	private readonly METADATA_FILE_NAME = '.chatgpt-plugin-metadata.json';
+// Fill a note template: conditionals first, then {{name}} / {{name:FORMAT}} in a single pass so inserted text is never re-expanded
+function renderNoteTemplate(template: string, variables: TemplateVariables): string {
+	const isTruthy = (name: string) => {
+		const value = variables[name];
+		if (value instanceof Date) return !isNaN(value.getTime());
+		return value !== undefined && value.trim() !== '';
+	};
 
-	async onload() {
-		await this.loadSettings();
-		await this.loadConversationMetadata();
+	let output = template;
+	let match: RegExpExecArray | null;
+	while ((match = TEMPLATE_BLOCK_REGEX.exec(output)) !== null) {
+		const [block, kind, name, body] = match;
+		const elseMatch = body.match(/\{\{else\}\}\n?/);
+		const whenTrue = elseMatch ? body.slice(0, elseMatch.index) : body;
+		const whenFalse = elseMatch ? body.slice(elseMatch.index! + elseMatch[0].length) : '';
+		const condition = kind === 'if' ? isTruthy(name) : !isTruthy(name);
+		output = output.slice(0, match.index) + (condition ? whenTrue : whenFalse) + output.slice(match.index + block.length);
+	}
 
-		// Add ribbon icon for opening the importer
-		const ribbonIconEl = this.addRibbonIcon('message-square', 'ChatGPT to Obsidian', (evt: MouseEvent) => {
-			new ChatGPTImportModal(this.app, this).open();
-		});
+	return output.replace(TEMPLATE_VARIABLE_REGEX, (placeholder, name: string, format?: string) => {
+		const value = variables[name];
+		if (value === undefined) return placeholder;
+		if (value instanceof Date) return formatTemplateDate(value, format || 'YYYY-MM-DD');
+		return value;
+	});
+}
 
-		// Add command
-		this.addCommand({
-			id: 'open-chatgpt-importer',
-			name: 'Import ChatGPT conversations',
-			callback: () => {
-				new ChatGPTImportModal(this.app, this).open();
+// Expand {{date:FORMAT}}, {{conversation_title}}, {{prompt:WORDS}}, {{index:DIGITS}} and {{id:LENGTH}} into a note title
+function resolveFilenamePattern(pattern: string, tokens: FilenameTokens): string {
+	const resolved = pattern.replace(TEMPLATE_VARIABLE_REGEX, (placeholder, name: string, arg?: string) => {
+		const count = arg ? parseInt(arg, 10) : NaN;
+		switch (name) {
+			case 'date':
+				return formatTemplateDate(tokens.date, arg || 'YYYY-MM-DD');
+			case 'conversation_title':
+				return tokens.conversationTitle;
+			case 'prompt':
+				// First words of the prompt, ignoring image links and Markdown punctuation
+				return tokens.prompt
+					.replace(ASSET_POINTER_IMAGE_REGEX, ' ')
+					.replace(/[`*_#>\[\]()]/g, ' ')
+					.split(/\s+/)
+					.filter(word => word)
+					.slice(0, isNaN(count) ? 6 : count)
+					.join(' ');
+			case 'index': {
+				if (tokens.index === null) return '';
+				const digits = tokens.index.toString();
+				return isNaN(count) || digits.length >= count ? digits : '0'.repeat(count - digits.length) + digits;
 			}
+			case 'id':
+				return tokens.id.replace(/-/g, '').substring(0, isNaN(count) ? 8 : count);
+			default:
+				return placeholder;
+		}
+	});
+	// Tokens that resolved to nothing leave separators behind
+	const title = resolved.replace(/\s+/g, ' ').replace(/^[\s\-_.]+|[\s\-_.]+$/g, '');
+	return title || 'Untitled';
+}
+
+// File name (without extension) for a note title: illegal characters replaced, optionally slugified, cut to maxLength
+function formatNoteFileName(title: string, slugify: boolean, maxLength: number): string {
+	let name = title.replace(/[\\/:*?"<>|]/g, '-');
+	if (slugify) {
+		name = name
+			.normalize('NFD')
+			.replace(/[\u0300-\u036f]/g, '')
+			.toLowerCase()
+			.replace(/[\s!-\/:-@\[-`{-~]+/g, '-')
+			.replace(/^-+|-+$/g, '');
+	}
+	if (maxLength > 0 && name.length > maxLength) {
+		name = name.substring(0, maxLength);
+		// Prefer cutting at a word boundary when one is reasonably close
+		const boundary = Math.max(name.lastIndexOf(' '), name.lastIndexOf('-'));
+		if (boundary > maxLength / 2) {
+			name = name.substring(0, boundary);
+		}
+		name = name.replace(/[\s\-_.]+$/, '');
+	}
+	// Leading dots would hide the note from the vault
+	name = name.trim().replace(/^\.+/, '');
+	return name || (slugify ? 'untitled' : 'Untitled');
+}
+
+// Bump with a migration in METADATA_MIGRATIONS whenever the shape of QAPairMetadataStore changes
+const METADATA_SCHEMA_VERSION = 4;
+
+// METADATA_MIGRATIONS[n] upgrades a version n store to version n + 1
+const METADATA_MIGRATIONS: { [fromVersion: number]: (data: any) => any } = {
+	// 0: conversation-level states. Pair ids are unknown until the conversations are imported again.
+	0: (data: any) => ({
+		qaPairs: {},
+		legacyConversations: data.conversations,
+		lastUpdated: data.lastUpdated || Date.now()
+	}),
+	// 1: unversioned Q&A pair store
+	1: (data: any) => ({ ...data, qaPairs: data.qaPairs || {} }),
+	// 2: no undo history
+	2: (data: any) => ({ ...data, actionLog: [] }),
+	// 3: seen conversations listed every response id
+	3: (data: any) => {
+		if (!data.seenConversations) return data;
+		const seenConversations: { [conversationId: string]: SeenConversation } = {};
+		Object.keys(data.seenConversations).forEach(conversationId => {
+			const { updateTime, newResponseIds } = data.seenConversations[conversationId];
+			seenConversations[conversationId] = { updateTime, newResponseIds };
 		});
+		return { ...data, seenConversations };
+	}
+};
 
-		// Add settings tab
-		this.addSettingTab(new ChatGPTSettingTab(this.app, this));
+function createEmptyMetadataStore(): QAPairMetadataStore {
+	return { version: METADATA_SCHEMA_VERSION, qaPairs: {}, actionLog: [], lastUpdated: Date.now() };
+}
+
+const ACTION_LOG_LIMIT = 50;
+
+// Characters of note text an undone action may keep in the metadata store for redo
+const UNDO_NOTE_TEXT_LIMIT = 200000;
+
+function snapshotPairState(metadata: QAPairMetadata | undefined): PairStateSnapshot | null {
+	if (!metadata) return null;
+	const { notePaths, ...snapshot } = metadata;
+	return snapshot;
+}
+
+// Log an action; undone actions after it can no longer be redone, and the oldest beyond the limit are dropped
+function appendPairAction(log: PairAction[], action: PairAction, limit: number): PairAction[] {
+	return log.filter(entry => !entry.undone).concat([action]).slice(-limit);
+}
+
+function findUndoAction(log: PairAction[]): PairAction | null {
+	for (let i = log.length - 1; i >= 0; i--) {
+		if (!log[i].undone) return log[i];
 	}
+	return null;
+}
 
-	onunload() {
+function findRedoAction(log: PairAction[]): PairAction | null {
+	return log.find(entry => entry.undone) || null;
+}
+
+// "3 × New → Ignored, 1 × Saved → Ignored"
+function summarizePairChanges(changes: PairStateChange[]): string {
+	const stateNames: { [state: string]: string } = { new: 'New', ignored: 'Ignored', saved: 'Saved' };
+	const counts = new Map<string, number>();
+	changes.forEach(change => {
+		const key = `${stateNames[change.before ? change.before.state : QAPairState.NEW]} → ${stateNames[change.after ? change.after.state : QAPairState.NEW]}`;
+		counts.set(key, (counts.get(key) || 0) + 1);
+	});
+	return Array.from(counts.entries()).map(([key, count]) => `${count} × ${key}`).join(', ');
+}
 
+function describeStateChange(state: QAPairState, count: number): string {
+	const pairs = count === 1 ? 'pair' : `${count} pairs`;
+	switch (state) {
+		case QAPairState.SAVED:
+			return `Save ${pairs}`;
+		case QAPairState.IGNORED:
+			return `Ignore ${pairs}`;
+		default:
+			return `Reset ${pairs} to new`;
 	}
+}
 
-	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+// Bring parsed metadata of any known version up to METADATA_SCHEMA_VERSION
+function migrateMetadataStore(data: any): QAPairMetadataStore {
+	if (!data || typeof data !== 'object' || Array.isArray(data)) {
+		throw new Error('Metadata is not an object');
+	}
+	let version: number;
+	if (typeof data.version === 'number') {
+		version = data.version;
+	} else if (data.qaPairs) {
+		version = 1;
+	} else if (data.conversations) {
+		version = 0;
+	} else {
+		throw new Error('Unknown metadata format');
+	}
+	
+	let migrated = data;
+	for (; version < METADATA_SCHEMA_VERSION; version++) {
+		migrated = METADATA_MIGRATIONS[version](migrated);
+	}
+	if (!migrated.qaPairs || typeof migrated.qaPairs !== 'object') {
+		throw new Error('Metadata has no Q&A pairs');
 	}
+	// A store from a newer plugin version keeps its version and unknown fields
+	return { ...migrated, version };
+}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+// Saved notes end with this line: the part above is regenerated on update, anything below it is kept
+const NOTE_UPDATE_MARKER = '%% chatgpt-import: text below this line is kept when the note is updated %%';
+
+function buildNoteFileContent(generated: string, userContent: string = ''): string {
+	return `${generated.trimEnd()}\n\n${NOTE_UPDATE_MARKER}\n${userContent}`;
+}
+
+// Split a saved note into its generated part and the user's additions; null when the marker was removed
+function splitNoteAtMarker(content: string): { generated: string; userContent: string } | null {
+	const index = content.indexOf(NOTE_UPDATE_MARKER);
+	if (index === -1) return null;
+	return {
+		generated: content.substring(0, index).trimEnd(),
+		userContent: content.substring(index + NOTE_UPDATE_MARKER.length).replace(/^\r?\n/, '')
+	};
+}
+
+function hashContent(content: string): string {
+	let hash = 0;
+	for (let i = 0; i < content.length; i++) {
+		hash = ((hash << 5) - hash) + content.charCodeAt(i);
+		hash = hash & hash; // Convert to 32bit integer
 	}
+	return Math.abs(hash).toString(36);
+}
 
-	// Parse ChatGPT conversations.json
-	parseChatGPTData(jsonContent: string): ChatGPTConversation[] {
-		try {
-			const data = JSON.parse(jsonContent) as ChatGPTConversation[];
-			return data;
-		} catch (error) {
-			console.error('Error parsing ChatGPT data:', error);
-			throw new Error('Invalid ChatGPT export format');
-		}
+// Whitespace and Unicode normalization differences between exports should not make the same text look different
+function normalizeForHash(text: string): string {
+	return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+// 64-bit content hash (two 32-bit lanes) over the full normalized prompt and response
+function hashQAPairContent(userPrompt: string, response: string): string {
+	const content = normalizeForHash(userPrompt) + '\u0000' + normalizeForHash(response);
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < content.length; i++) {
+		const char = content.charCodeAt(i);
+		h1 = Math.imul(h1 ^ char, 2654435761);
+		h2 = Math.imul(h2 ^ char, 1597334677);
 	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	const hex = (value: number) => ('0000000' + (value >>> 0).toString(16)).slice(-8);
+	return hex(h2) + hex(h1);
+}
 
-	// Extract clean conversation threads
-	extractConversations(conversations: ChatGPTConversation[]) {
-		return conversations.map(conv => {
-			const messages: Array<{
-				role: string;
-				content: string;
-				timestamp: number;
-				id: string;
-			}> = [];
-
-			// Find the conversation root
-			const mapping = conv.mapping;
-			let current = Object.values(mapping).find(msg => 
-				msg.message && msg.message.author.role === 'user' && msg.parent && 
-				mapping[msg.parent]?.message?.author.role === 'system'
-			);
+// Older versions stored a short hash of the first 200 characters. It is replaced when the pair shows up in an import
+// again; until then the pair cannot be compared by content and is left out of duplicate detection.
+function isFullContentHash(hash: string): boolean {
+	return /^[0-9a-f]{16}$/.test(hash);
+}
 
-			// Walk the conversation thread
-			while (current) {
-				if (current.message && current.message.author.role !== 'system') {
-					const content = current.message.content.parts?.join('\n') || '';
-					if (content.trim()) {
-						messages.push({
-							role: current.message.author.role,
-							content: content,
-							timestamp: current.message.create_time || 0,
-							id: current.id
-						});
-					}
-				}
+interface DiffLine {
+	type: 'same' | 'added' | 'removed';
+	text: string;
+}
 
-				// Find next message in chain
-				current = current.children.length > 0 ? mapping[current.children[0]] : null;
+// Line diff (longest common subsequence) between two versions of a note
+function diffLines(oldText: string, newText: string): DiffLine[] {
+	const oldLines = oldText.split('\n');
+	const newLines = newText.split('\n');
+	
+	// Only the middle that differs needs the LCS table
+	let start = 0;
+	while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) start++;
+	let oldEnd = oldLines.length;
+	let newEnd = newLines.length;
+	while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+		oldEnd--;
+		newEnd--;
+	}
+	
+	const result: DiffLine[] = oldLines.slice(0, start).map(text => ({ type: 'same' as const, text }));
+	const oldMiddle = oldLines.slice(start, oldEnd);
+	const newMiddle = newLines.slice(start, newEnd);
+	const rows = oldMiddle.length + 1;
+	const cols = newMiddle.length + 1;
+	
+	if (rows * cols > 4000000) {
+		// Too large to compare line by line: show it as replaced
+		oldMiddle.forEach(text => result.push({ type: 'removed', text }));
+		newMiddle.forEach(text => result.push({ type: 'added', text }));
+	} else {
+		// lengths[i * cols + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+		const lengths = new Uint32Array(rows * cols);
+		for (let i = oldMiddle.length - 1; i >= 0; i--) {
+			for (let j = newMiddle.length - 1; j >= 0; j--) {
+				lengths[i * cols + j] = oldMiddle[i] === newMiddle[j] ?
+					lengths[(i + 1) * cols + j + 1] + 1 :
+					Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+			}
+		}
+		let i = 0;
+		let j = 0;
+		while (i < oldMiddle.length || j < newMiddle.length) {
+			if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+				result.push({ type: 'same', text: oldMiddle[i] });
+				i++;
+				j++;
+			} else if (i < oldMiddle.length && (j === newMiddle.length || lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1])) {
+				result.push({ type: 'removed', text: oldMiddle[i] });
+				i++;
+			} else {
+				result.push({ type: 'added', text: newMiddle[j] });
+				j++;
 			}
+		}
+	}
+	
+	oldLines.slice(oldEnd).forEach(text => result.push({ type: 'same', text }));
+	return result;
+}
 
-			return {
-				title: conv.title,
-				id: conv.id,
-				create_time: conv.create_time,
-				update_time: conv.update_time,
-				messages: messages
-			};
+// Indented code block: lines indented by four spaces or a tab, starting the text or following a blank line
+// that does not continue a list item (where the indentation is the item's own)
+const INDENTED_CODE_REGEX = /(?<=^|(?:^|\n)(?![ \t]|[-*+][ \t]|\d+[.)][ \t])[^\n]*\n[ \t]*\n)(?: {4}|\t)[^\n]*(?:\n(?: {4}|\t)[^\n]*|\n[ \t]*(?=\n(?: {4}|\t)))*/;
+
+// Code spans, code fences, indented code and math, where '<' is literal text rather than HTML
+const PROTECTED_MARKDOWN_REGEX = new RegExp(/(`{3,}|~{3,})[\s\S]*?(?:\1|$)|`[^`\n]*`|\$\$[\s\S]*?\$\$|\$[^\s$](?:[^$\n]*[^\s$])?\$/.source + '|' + INDENTED_CODE_REGEX.source, 'g');
+
+// Neutralize raw HTML and script links in Markdown from the export before it is rendered, so tags such as
+// <img onerror=...> show as text. Code, math and <https://...> autolinks are left untouched.
+function escapeHtmlInMarkdown(markdown: string): string {
+	const escapeText = (text: string) => text
+		.replace(/<(?!(?:https?|mailto):[^\s<>]*>)/g, '&lt;')
+		.replace(/\]\(\s*(?:javascript|vbscript):(?:[^()]|\([^()]*\))*\)/gi, '](#)');
+	let output = '';
+	let lastIndex = 0;
+	let match: RegExpExecArray | null;
+	const regex = new RegExp(PROTECTED_MARKDOWN_REGEX.source, 'g');
+	while ((match = regex.exec(markdown)) !== null) {
+		output += escapeText(markdown.slice(lastIndex, match.index)) + match[0];
+		lastIndex = match.index + match[0].length;
+		if (match[0].length === 0) regex.lastIndex++;
+	}
+	return output + escapeText(markdown.slice(lastIndex));
+}
+
+// Split text into plain and matching segments for a case-insensitive literal query (no regex, so any input is safe)
+function splitOnMatches(text: string, query: string): Array<{ text: string; match: boolean }> {
+	if (!query) return [{ text, match: false }];
+	const segments: Array<{ text: string; match: boolean }> = [];
+	const lowerText = text.toLowerCase();
+	const lowerQuery = query.toLowerCase();
+	let start = 0;
+	let index = lowerText.indexOf(lowerQuery);
+	while (index !== -1) {
+		if (index > start) segments.push({ text: text.slice(start, index), match: false });
+		segments.push({ text: text.slice(index, index + query.length), match: true });
+		start = index + query.length;
+		index = lowerText.indexOf(lowerQuery, start);
+	}
+	if (start < text.length) segments.push({ text: text.slice(start), match: false });
+	return segments;
+}
+
+// One full-text search result: a Q&A pair, or a conversation whose title matched
+interface SearchHit {
+	conversationIndex: number;
+	messageId: string | null; // Assistant message of the matching pair; null for title matches
+	pairNumber: number; // 1-based position of the response in the conversation, 0 for title matches
+	field: 'title' | 'prompt' | 'response';
+	score: number;
+	snippet: string;
+}
+
+// Excerpt of text around the first occurrence of the phrase (or else the earliest term)
+function makeSearchSnippet(text: string, terms: string[], phrase: string): string {
+	const flat = text.replace(/\s+/g, ' ').trim();
+	const lower = flat.toLowerCase();
+	let position = lower.indexOf(phrase);
+	if (position === -1) {
+		const positions = terms.map(term => lower.indexOf(term)).filter(index => index !== -1);
+		position = positions.length > 0 ? Math.min(...positions) : 0;
+	}
+	const start = Math.max(0, position - 60);
+	const end = Math.min(flat.length, position + 140);
+	return (start > 0 ? '…' : '') + flat.slice(start, end) + (end < flat.length ? '…' : '');
+}
+
+// Lowercased text of a conversation's title and pairs, so searching does not lowercase every message on each keystroke
+interface ConversationSearchText {
+	title: string;
+	pairs: Array<{ message: ExtractedMessage; pairNumber: number; promptText: string; prompt: string; response: string }>;
+}
+
+// Keyed by the messages array like the filter stats, so a branch switch re-indexes the conversation
+const conversationSearchTextCache = new WeakMap<ExtractedMessage[], ConversationSearchText>();
+
+function getConversationSearchText(conv: ExtractedConversation): ConversationSearchText {
+	const cached = conversationSearchTextCache.get(conv.messages);
+	if (cached) return cached;
+	
+	const searchText: ConversationSearchText = { title: (conv.title || '').toLowerCase(), pairs: [] };
+	conv.messages.forEach((msg, index) => {
+		if (msg.role !== 'assistant') return;
+		const previous = index > 0 ? conv.messages[index - 1] : null;
+		const promptText = previous && previous.role === 'user' ? previous.content : '';
+		searchText.pairs.push({
+			message: msg,
+			pairNumber: searchText.pairs.length + 1,
+			promptText,
+			prompt: promptText.toLowerCase(),
+			response: msg.content.toLowerCase()
+		});
+	});
+	conversationSearchTextCache.set(conv.messages, searchText);
+	return searchText;
+}
+
+// Rank titles, prompts and responses of every conversation against the query.
+// A pair matches when its prompt and response together contain every term; the prompt weighs more than the response.
+function searchConversations(conversations: ExtractedConversation[], query: string, limit: number): SearchHit[] {
+	const phrase = query.toLowerCase().replace(/\s+/g, ' ').trim();
+	const terms = phrase.split(' ').filter((term, index, all) => term && all.indexOf(term) === index);
+	if (terms.length === 0) return [];
+
+	const countOccurrences = (text: string, term: string) => {
+		let count = 0;
+		let index = text.indexOf(term);
+		while (index !== -1 && count < 5) {
+			count++;
+			index = text.indexOf(term, index + term.length);
+		}
+		return count;
+	};
+
+	const hits: Array<SearchHit & { updated: number }> = [];
+	conversations.forEach((conv, conversationIndex) => {
+		const searchText = getConversationSearchText(conv);
+		const title = searchText.title;
+		if (terms.every(term => title.includes(term))) {
+			hits.push({
+				conversationIndex,
+				messageId: null,
+				pairNumber: 0,
+				field: 'title',
+				score: 20 + (terms.length > 1 && title.includes(phrase) ? 10 : 0),
+				snippet: conv.title,
+				updated: conv.update_time
+			});
+		}
+
+		searchText.pairs.forEach(({ message: msg, pairNumber, promptText, prompt, response }) => {
+			if (!terms.every(term => prompt.includes(term) || response.includes(term))) return;
+
+			let score = 0;
+			terms.forEach(term => {
+				score += countOccurrences(prompt, term) * 3 + countOccurrences(response, term);
+				if (title.includes(term)) score += 2;
+			});
+			const phraseInPrompt = terms.length > 1 && prompt.includes(phrase);
+			const phraseInResponse = terms.length > 1 && response.includes(phrase);
+			if (phraseInPrompt || phraseInResponse) score += 10;
+
+			const inPrompt = phraseInPrompt || (!phraseInResponse && terms.every(term => prompt.includes(term)));
+			hits.push({
+				conversationIndex,
+				messageId: msg.id,
+				pairNumber,
+				field: inPrompt ? 'prompt' : 'response',
+				score,
+				snippet: makeSearchSnippet(inPrompt ? promptText : msg.content, terms, phrase),
+				updated: conv.update_time
+			});
 		});
+	});
+
+	hits.sort((a, b) => b.score - a.score || b.updated - a.updated);
+	return hits.slice(0, limit).map(({ updated, ...hit }) => hit);
+}
+
+// Per-conversation facts used by the table of contents filters
+interface ConversationStats {
+	responseCount: number;
+	models: string[];
+	hasCodeBlocks: boolean;
+	hasAttachments: boolean;
+}
+
+// Keyed by the messages array, so selecting another branch (which swaps the array) recomputes the stats
+const conversationStatsCache = new WeakMap<ExtractedMessage[], ConversationStats>();
+
+function getConversationStats(conv: ExtractedConversation): ConversationStats {
+	const cached = conversationStatsCache.get(conv.messages);
+	if (cached) return cached;
+	
+	const stats: ConversationStats = { responseCount: 0, models: [], hasCodeBlocks: false, hasAttachments: false };
+	const imageRegex = new RegExp(ASSET_POINTER_IMAGE_REGEX.source);
+	conv.messages.forEach(msg => {
+		if (msg.role === 'assistant') {
+			stats.responseCount++;
+			if (msg.model && stats.models.indexOf(msg.model) === -1) stats.models.push(msg.model);
+			if (!stats.hasCodeBlocks && /^\s*(```|~~~)/m.test(msg.content)) stats.hasCodeBlocks = true;
+		}
+		if (!stats.hasAttachments && imageRegex.test(msg.content)) stats.hasAttachments = true;
+	});
+	conversationStatsCache.set(conv.messages, stats);
+	return stats;
+}
+
+// Date, model, length and content filters (the processing-status toggles are checked separately)
+function matchesConversationFilters(conv: ExtractedConversation, filters: ConversationFilters): boolean {
+	const time = filters.dateField === 'updated' ? conv.update_time : conv.create_time;
+	if (filters.dateFrom) {
+		const from = new Date(`${filters.dateFrom}T00:00:00`).getTime() / 1000;
+		if (!isNaN(from) && time < from) return false;
+	}
+	if (filters.dateTo) {
+		const to = new Date(`${filters.dateTo}T23:59:59.999`).getTime() / 1000;
+		if (!isNaN(to) && time > to) return false;
 	}
+	
+	const stats = getConversationStats(conv);
+	if (filters.model && stats.models.indexOf(filters.model) === -1) return false;
+	if (filters.minResponses !== null && stats.responseCount < filters.minResponses) return false;
+	if (filters.maxResponses !== null && stats.responseCount > filters.maxResponses) return false;
+	if (filters.hasCodeBlocks && !stats.hasCodeBlocks) return false;
+	if (filters.hasAttachments && !stats.hasAttachments) return false;
+	return true;
+}
 
-	// Metadata management methods
-	private async loadConversationMetadata(): Promise<void> {
-		try {
-			console.log('[METADATA DEBUG] Loading metadata from:', this.METADATA_FILE_NAME);
-			
-			// Use vault adapter directly to read hidden files reliably
-			let content: string;
-			try {
-				content = await this.app.vault.adapter.read(this.METADATA_FILE_NAME);
-				console.log('[METADATA DEBUG] Successfully read metadata file via adapter');
-			} catch (readError) {
-				console.log('[METADATA DEBUG] Metadata file does not exist or cannot be read:', readError.message);
-				// File doesn't exist, create empty store
-				this.metadataStore = { qaPairs: {}, lastUpdated: Date.now() };
-				return;
+// Order conversations for the table of contents; ties (and 'export') keep the order of the export file
+function sortConversations<T extends { conversation: ExtractedConversation; originalIndex: number }>(
+	items: T[],
+	sort: ConversationSort,
+	countNewPairs: (conv: ExtractedConversation) => number
+): T[] {
+	const keys = new Map<T, string | number>();
+	items.forEach(item => {
+		const conv = item.conversation;
+		switch (sort.field) {
+			case 'created': keys.set(item, conv.create_time || 0); break;
+			case 'updated': keys.set(item, conv.update_time || 0); break;
+			case 'title': keys.set(item, (conv.title || '').toLowerCase()); break;
+			case 'responses': keys.set(item, getConversationStats(conv).responseCount); break;
+			case 'newPairs': keys.set(item, countNewPairs(conv)); break;
+			default: keys.set(item, item.originalIndex);
+		}
+	});
+	const direction = sort.direction === 'desc' ? -1 : 1;
+	return items.slice().sort((a, b) => {
+		const keyA = keys.get(a)!;
+		const keyB = keys.get(b)!;
+		const order = typeof keyA === 'string' && typeof keyB === 'string' ?
+			keyA.localeCompare(keyB) :
+			(keyA as number) - (keyB as number);
+		return order * direction || a.originalIndex - b.originalIndex;
+	});
+}
+
+// Conversations as stored in the export cache: each message once, branches as lists of message ids
+interface CachedConversation {
+	title: string;
+	id: string;
+	create_time: number;
+	update_time: number;
+	messages: { [messageId: string]: ExtractedMessage };
+	branches: Array<{ leafId: string; isCurrent: boolean; messageIds: string[] }>;
+	currentBranchIndex: number;
+	selectedBranchIndex: number;
+}
+
+// First element of the export cache file; the cached conversations follow it in the same JSON array
+interface ExportCacheHeader {
+	version: number;
+	sourceName: string;
+	sourceSize: number;
+	loadedAt: number;
+	conversationCount: number;
+}
+
+// The export the import modal shows; kept by the plugin so reopening the modal skips the import
+interface LoadedExport {
+	sourceName: string;
+	sourceSize: number;
+	loadedAt: number;
+	conversations: ExtractedConversation[];
+	fromCache: boolean; // Restored from the cache, so the .zip attachments are not available
+}
+
+const EXPORT_CACHE_VERSION = 2;
+
+// Conversations serialized per append when writing the export cache
+const EXPORT_CACHE_WRITE_BATCH = 200;
+
+function toCachedConversation(conv: ExtractedConversation): CachedConversation {
+	const messages: { [messageId: string]: ExtractedMessage } = {};
+	const branches = conv.branches.map(branch => ({
+		leafId: branch.leafId,
+		isCurrent: branch.isCurrent,
+		messageIds: branch.messages.map(msg => {
+			messages[msg.id] = msg;
+			return msg.id;
+		})
+	}));
+	return {
+		title: conv.title,
+		id: conv.id,
+		create_time: conv.create_time,
+		update_time: conv.update_time,
+		messages,
+		branches,
+		currentBranchIndex: conv.currentBranchIndex,
+		selectedBranchIndex: conv.selectedBranchIndex
+	};
+}
+
+function fromCachedConversation(cached: CachedConversation): ExtractedConversation {
+	const branches = cached.branches.map(branch => ({
+		leafId: branch.leafId,
+		isCurrent: branch.isCurrent,
+		messages: branch.messageIds.map(id => cached.messages[id])
+	}));
+	const selected = branches[cached.selectedBranchIndex] || branches[cached.currentBranchIndex];
+	return {
+		title: cached.title,
+		id: cached.id,
+		create_time: cached.create_time,
+		update_time: cached.update_time,
+		messages: selected ? selected.messages : [],
+		branches,
+		currentBranchIndex: cached.currentBranchIndex,
+		selectedBranchIndex: branches[cached.selectedBranchIndex] ? cached.selectedBranchIndex : cached.currentBranchIndex
+	};
+}
+
+// Markdown image link produced by extractConversations for image_asset_pointer parts
+const ASSET_POINTER_IMAGE_REGEX = /!\[([^\]]*)\]\(((?:file-service|sediment):\/\/[^)\s]+)\)/g;
+
+type ChatGPTMessageData = NonNullable<ChatGPTMessage['message']>;
+
+// Renders one message's content as Markdown for a given content_type
+type ContentRenderer = (content: ChatGPTMessageContent, message: ChatGPTMessageData) => string;
+
+// Wrap text in a code fence longer than any backtick run inside it
+function toCodeFence(text: string, language: string = ''): string {
+	const runs: string[] = text.match(/`+/g) || [];
+	const longestRun = runs.reduce((max, run) => Math.max(max, run.length), 0);
+	const fence = '`'.repeat(Math.max(3, longestRun + 1));
+	return `${fence}${language}\n${text.replace(/\n+$/, '')}\n${fence}`;
+}
+
+// Obsidian callout; a trailing '-' on the type makes it collapsed by default
+function toCallout(type: string, title: string, body: string, collapsed: boolean = true): string {
+	const header = `> [!${type}]${collapsed ? '-' : ''} ${title}`.trimEnd();
+	const lines = body.trim() ? body.trim().split('\n').map(line => line ? `> ${line}` : '>') : [];
+	return [header, ...lines].join('\n');
+}
+
+// Flatten text parts; image parts become Markdown image links to their asset pointer
+function renderParts(content: ChatGPTMessageContent): string {
+	const parts = content.parts || [];
+	return parts
+		.map(part => {
+			if (typeof part === 'string') return part;
+			if (part && part.content_type === 'image_asset_pointer' && part.asset_pointer) {
+				const alt = part.metadata?.dalle ? 'generated image' : 'image';
+				return `![${alt}](${part.asset_pointer})`;
+			}
+			return null;
+		})
+		.filter((text): text is string => text !== null)
+		.join('\n');
+}
+
+// Markdown list of the sources a browsing result cites
+function renderCitations(message: ChatGPTMessageData): string {
+	const sources: Array<{ title?: string; url?: string }> = message.metadata?._cite_metadata?.metadata_list || [];
+	return sources
+		.filter(source => source.url)
+		.map(source => `- [${(source.title || source.url || '').replace(/[[\]]/g, '')}](${source.url})`)
+		.join('\n');
+}
+
+// Per-content-type renderers. Content types without an entry fall back to their text parts.
+const CONTENT_RENDERERS: { [contentType: string]: ContentRenderer } = {
+	text: (content, message) => {
+		// A tool call's text is its arguments (e.g. a DALL·E prompt as JSON), shown folded away
+		if (message.recipient && message.recipient !== 'all') {
+			const args = renderParts(content);
+			return args.trim() ? toCallout('note', `Call to ${message.recipient}`, toCodeFence(args)) : '';
+		}
+		return renderParts(content);
+	},
+	multimodal_text: (content) => renderParts(content),
+	code: (content, message) => {
+		// Code Interpreter reports 'unknown'; the recipient tells us it is Python
+		let language = content.language && content.language !== 'unknown' ? content.language : '';
+		if (!language && message.recipient === 'python') {
+			language = 'python';
+		}
+		return content.text ? toCodeFence(content.text, language) : '';
+	},
+	execution_output: (content) => content.text ? toCallout('example', 'Output', toCodeFence(content.text)) : '',
+	tether_browsing_display: (content, message) => {
+		const sections = [content.summary, content.result].filter((text): text is string => !!text && !!text.trim());
+		const citations = renderCitations(message);
+		if (citations) {
+			sections.push('**Sources**\n' + citations);
+		}
+		return sections.length > 0 ? toCallout('info', 'Browsing results', sections.join('\n\n')) : '';
+	},
+	tether_quote: (content) => {
+		const title = content.title || content.domain || content.url || 'Quote';
+		const heading = content.url ? `[${String(title).replace(/[[\]]/g, '')}](${content.url})` : title;
+		return content.text ? toCallout('quote', heading, content.text) : '';
+	},
+	thoughts: (content) => {
+		const thoughts: Array<{ summary?: string; content?: string }> = content.thoughts || [];
+		const body = thoughts
+			.map(thought => [thought.summary ? `**${thought.summary}**` : '', thought.content || ''].filter(Boolean).join('\n'))
+			.filter(Boolean)
+			.join('\n\n');
+		return body ? toCallout('abstract', 'Reasoning', body) : '';
+	},
+	reasoning_recap: (content) => content.content ? `*${content.content}*` : '',
+	system_error: (content) => toCallout('error', content.name || 'Error', content.text || '', false),
+};
+
+// Render a message's content to Markdown using the renderer for its content type
+function renderMessageContent(message: ChatGPTMessageData): string {
+	const content = message.content;
+	if (!content) return '';
+	const renderer = CONTENT_RENDERERS[content.content_type] || CONTENT_RENDERERS.text;
+	return renderer(content, message);
+}
+
+// Tool calls, tool output and reasoning are folded into the assistant response that follows them
+function isIntermediateMessage(message: ChatGPTMessageData): boolean {
+	// Text addressed to a tool (DALL·E prompts, searches, memory updates) is a call, not an answer
+	if (message.recipient && message.recipient !== 'all') return true;
+	return isToolOrReasoningMessage(message);
+}
+
+// What was folded before text addressed to tools was: tool output and non-text assistant content
+function isToolOrReasoningMessage(message: ChatGPTMessageData): boolean {
+	if (message.author.role === 'tool') return true;
+	return message.author.role === 'assistant' &&
+		message.content?.content_type !== 'text' &&
+		message.content?.content_type !== 'multimodal_text';
+}
+
+// Messages of one root-to-leaf path, each with the ids of the path nodes folded into it
+function foldBranchPath(path: ChatGPTMessage[], isIntermediate: (message: ChatGPTMessageData) => boolean): Array<{ message: ExtractedMessage; nodeIds: string[] }> {
+	const folded: Array<{ message: ExtractedMessage; nodeIds: string[] }> = [];
+	let pending: string[] = []; // Rendered tool/code/reasoning output waiting for the next response
+	let pendingNodes: ChatGPTMessage[] = [];
+	const flushPending = () => {
+		const pendingNode = pendingNodes[pendingNodes.length - 1];
+		if (pendingNode && pendingNode.message && pending.length > 0) {
+			folded.push({
+				message: {
+					role: 'assistant',
+					content: pending.join('\n\n'),
+					timestamp: pendingNode.message.create_time || 0,
+					id: pendingNode.id,
+					model: pendingNode.message.metadata?.model_slug
+				},
+				nodeIds: pendingNodes.map(node => node.id)
+			});
+		}
+		pending = [];
+		pendingNodes = [];
+	};
+
+	path.forEach(node => {
+		if (!node.message || node.message.author.role === 'system') return;
+		
+		let content = renderMessageContent(node.message);
+		if (!content.trim()) return;
+
+		if (isIntermediate(node.message)) {
+			pending.push(content);
+			pendingNodes.push(node);
+			return;
+		}
+
+		const nodeIds = [node.id];
+		if (node.message.author.role === 'assistant' && pending.length > 0) {
+			content = pending.join('\n\n') + '\n\n' + content;
+			nodeIds.unshift(...pendingNodes.map(pendingNode => pendingNode.id));
+			pending = [];
+			pendingNodes = [];
+		} else {
+			// A turn that ended on tool output still becomes a response of its own
+			flushPending();
+		}
+
+		folded.push({
+			message: {
+				role: node.message.author.role,
+				content: content,
+				timestamp: node.message.create_time || 0,
+				id: node.id,
+				model: node.message.author.role === 'assistant' ? node.message.metadata?.model_slug : undefined
+			},
+			nodeIds
+		});
+	});
+	flushPending();
+	return folded;
+}
+
+// Helper to convert content to markdown
+function convertToMarkdown(content: string): string {
+	// Basic conversion - you might want to enhance this
+	return content
+		.replace(/\*\*(.*?)\*\*/g, '**$1**') // Keep bold
+		.replace(/\*(.*?)\*/g, '*$1*') // Keep italic
+		.replace(/`([^`]+)`/g, '`$1`') // Keep inline code
+		.replace(/```([\s\S]*?)```/g, '```$1```'); // Keep code blocks
+}
+
+// Incremental parser for the top-level array in conversations.json.
+// Text is fed in chunks and each complete conversation object is parsed on its own,
+// so a multi-hundred-megabyte export never has to be held as one string.
+class ConversationStreamParser {
+	private buffer = ''; // Text of the element that is still incomplete at the end of the last chunk
+	private depth = 0;
+	private inString = false;
+	private escaped = false;
+	private started = false; // Seen the opening '['
+	private finished = false; // Seen the closing ']'
+	private inElement = false;
+
+	write(chunk: string): ChatGPTConversation[] {
+		const conversations: ChatGPTConversation[] = [];
+		let elementStart = this.inElement ? 0 : -1;
+
+		for (let i = 0; i < chunk.length; i++) {
+			const ch = chunk.charCodeAt(i);
+
+			if (this.inElement && this.inString) {
+				if (this.escaped) {
+					this.escaped = false;
+				} else if (ch === 92) { // backslash
+					this.escaped = true;
+				} else if (ch === 34) { // quote
+					this.inString = false;
+				}
+				continue;
+			}
+
+			if (!this.inElement) {
+				if (ch === 32 || ch === 9 || ch === 10 || ch === 13 || ch === 0xfeff) continue;
+				if (this.finished) {
+					throw new Error('Invalid ChatGPT export format: unexpected data after the conversation list');
+				}
+				if (!this.started) {
+					if (ch !== 91) { // [
+						throw new Error('Invalid ChatGPT export format: expected a list of conversations');
+					}
+					this.started = true;
+					continue;
+				}
+				if (ch === 44) continue; // comma between elements
+				if (ch === 93) { // ]
+					this.finished = true;
+					continue;
+				}
+				if (ch !== 123) { // {
+					throw new Error('Invalid ChatGPT export format: expected a conversation object');
+				}
+				this.inElement = true;
+				this.depth = 0;
+				elementStart = i;
+			}
+
+			if (ch === 34) {
+				this.inString = true;
+			} else if (ch === 123 || ch === 91) {
+				this.depth++;
+			} else if (ch === 125 || ch === 93) {
+				this.depth--;
+				if (this.depth === 0) {
+					const text = this.buffer + chunk.substring(elementStart, i + 1);
+					this.buffer = '';
+					this.inElement = false;
+					conversations.push(JSON.parse(text) as ChatGPTConversation);
+				}
+			}
+		}
+
+		if (this.inElement) {
+			this.buffer += chunk.substring(elementStart);
+		}
+		return conversations;
+	}
+
+	// Verify that the whole array was consumed
+	end(): void {
+		if (!this.started || !this.finished || this.inElement) {
+			throw new Error('Invalid ChatGPT export format: file ended unexpectedly');
+		}
+	}
+}
+
+// Read-only view of the ChatGPT export .zip. Only the central directory is read up front;
+// entry data is sliced from the original file on demand, so nothing is unzipped in memory.
+class ExportArchive {
+	readonly file: Blob;
+	readonly entries: ExportArchiveEntry[];
+
+	private constructor(file: Blob, entries: ExportArchiveEntry[]) {
+		this.file = file;
+		this.entries = entries;
+	}
+
+	// Check for the local file header signature ("PK\x03\x04")
+	static async isZip(file: Blob): Promise<boolean> {
+		if (file.size < 4) return false;
+		const view = new DataView(await file.slice(0, 4).arrayBuffer());
+		return view.getUint32(0, true) === 0x04034b50;
+	}
+
+	static async open(file: Blob): Promise<ExportArchive> {
+		// The end of central directory record sits within the last 64 KB (max comment length) + 22 bytes
+		const tailStart = Math.max(0, file.size - 65557);
+		const tail = new DataView(await file.slice(tailStart, file.size).arrayBuffer());
+		let eocd = -1;
+		for (let i = tail.byteLength - 22; i >= 0; i--) {
+			if (tail.getUint32(i, true) === 0x06054b50) {
+				eocd = i;
+				break;
+			}
+		}
+		if (eocd < 0) {
+			throw new Error('Invalid export archive: end of central directory not found');
+		}
+
+		let entryCount = tail.getUint16(eocd + 10, true);
+		let directorySize = tail.getUint32(eocd + 12, true);
+		let directoryOffset = tail.getUint32(eocd + 16, true);
+
+		// Zip64 archives store the real values in a separate record found through a locator
+		if (entryCount === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+			const locator = eocd - 20;
+			if (locator < 0 || tail.getUint32(locator, true) !== 0x07064b50) {
+				throw new Error('Invalid export archive: zip64 locator not found');
+			}
+			const recordOffset = readUint64(tail, locator + 8);
+			const record = new DataView(await file.slice(recordOffset, recordOffset + 56).arrayBuffer());
+			if (record.getUint32(0, true) !== 0x06064b50) {
+				throw new Error('Invalid export archive: zip64 end of central directory not found');
+			}
+			entryCount = readUint64(record, 32);
+			directorySize = readUint64(record, 40);
+			directoryOffset = readUint64(record, 48);
+		}
+
+		const directory = new DataView(await file.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer());
+		const decoder = new TextDecoder('utf-8');
+		const entries: ExportArchiveEntry[] = [];
+		let pos = 0;
+
+		for (let i = 0; i < entryCount; i++) {
+			if (pos + 46 > directory.byteLength || directory.getUint32(pos, true) !== 0x02014b50) {
+				throw new Error('Invalid export archive: corrupt central directory');
+			}
+			const flags = directory.getUint16(pos + 8, true);
+			const compressionMethod = directory.getUint16(pos + 10, true);
+			let compressedSize = directory.getUint32(pos + 20, true);
+			let uncompressedSize = directory.getUint32(pos + 24, true);
+			const nameLength = directory.getUint16(pos + 28, true);
+			const extraLength = directory.getUint16(pos + 30, true);
+			const commentLength = directory.getUint16(pos + 32, true);
+			let localHeaderOffset = directory.getUint32(pos + 42, true);
+			const path = decoder.decode(new Uint8Array(directory.buffer, pos + 46, nameLength));
+
+			// Zip64 extended information replaces only the fields that overflowed, in this order
+			let extra = pos + 46 + nameLength;
+			const extraEnd = extra + extraLength;
+			while (extra + 4 <= extraEnd) {
+				const headerId = directory.getUint16(extra, true);
+				const size = directory.getUint16(extra + 2, true);
+				if (headerId === 0x0001) {
+					let field = extra + 4;
+					if (uncompressedSize === 0xffffffff) {
+						uncompressedSize = readUint64(directory, field);
+						field += 8;
+					}
+					if (compressedSize === 0xffffffff) {
+						compressedSize = readUint64(directory, field);
+						field += 8;
+					}
+					if (localHeaderOffset === 0xffffffff) {
+						localHeaderOffset = readUint64(directory, field);
+					}
+				}
+				extra += 4 + size;
+			}
+
+			if (!path.endsWith('/')) {
+				entries.push({
+					path,
+					kind: ExportArchive.classify(path),
+					compressionMethod,
+					encrypted: (flags & 0x1) !== 0,
+					compressedSize,
+					uncompressedSize,
+					localHeaderOffset
+				});
+			}
+
+			pos += 46 + nameLength + extraLength + commentLength;
+		}
+
+		return new ExportArchive(file, entries);
+	}
+
+	private static classify(path: string): ExportArchiveEntry['kind'] {
+		const name = path.split('/').pop()?.toLowerCase() || '';
+		const ext = name.includes('.') ? name.substring(name.lastIndexOf('.') + 1) : '';
+		if (name === 'conversations.json') return 'conversations';
+		if (['png', 'jpg', 'jpeg', 'gif', 'webp'].includes(ext)) return 'image';
+		if (['wav', 'mp3', 'm4a', 'ogg', 'webm'].includes(ext)) return 'audio';
+		if (ext === 'html') return 'html';
+		if (ext === 'json') return 'json';
+		return 'other';
+	}
+
+	// conversations.json normally sits at the archive root; prefer the shallowest match
+	getConversationsEntry(): ExportArchiveEntry | null {
+		const candidates = this.entries
+			.filter(entry => entry.kind === 'conversations')
+			.sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+		return candidates[0] || null;
+	}
+
+	// Uploaded images, DALL·E outputs and voice recordings
+	getAttachmentEntries(): ExportArchiveEntry[] {
+		return this.entries.filter(entry => entry.kind === 'image' || entry.kind === 'audio');
+	}
+
+	findEntry(path: string): ExportArchiveEntry | null {
+		return this.entries.find(entry => entry.path === path) || null;
+	}
+
+	// Stream the decompressed contents of an entry
+	async openEntryStream(entry: ExportArchiveEntry): Promise<ReadableStream<Uint8Array>> {
+		if (entry.encrypted) {
+			throw new Error(`Encrypted archive entries are not supported: ${entry.path}`);
+		}
+
+		// The local header repeats the name and may carry a different extra field, so read its lengths
+		const header = new DataView(await this.file.slice(entry.localHeaderOffset, entry.localHeaderOffset + 30).arrayBuffer());
+		if (header.getUint32(0, true) !== 0x04034b50) {
+			throw new Error(`Invalid export archive: corrupt local header for ${entry.path}`);
+		}
+		const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+		const data = this.file.slice(dataStart, dataStart + entry.compressedSize);
+
+		if (entry.compressionMethod === 0) {
+			return data.stream();
+		}
+		if (entry.compressionMethod === 8) {
+			return data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+		}
+		throw new Error(`Unsupported compression method ${entry.compressionMethod} for ${entry.path}`);
+	}
+
+	async readEntry(entry: ExportArchiveEntry): Promise<ArrayBuffer> {
+		return new Response(await this.openEntryStream(entry)).arrayBuffer();
+	}
+}
+
+// Zip stores 64-bit little-endian values; exports stay well below 2^53 so a Number is exact
+function readUint64(view: DataView, offset: number): number {
+	return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+export default class ChatGPTToObsidianPlugin extends Plugin {
+	settings: ChatGPTSettings;
+	// Export archive the current conversations were loaded from (null for a bare conversations.json)
+	exportArchive: ExportArchive | null = null;
+	// Conversations of the last import, restored from the export cache after a restart
+	loadedExport: LoadedExport | null = null;
+	// Loaded export the missing images notice was last shown for, so bulk saves show it once
+	private missingImagesNoticeExport: LoadedExport | null = null;
+	private metadataStore: QAPairMetadataStore = createEmptyMetadataStore();
+	private readonly METADATA_FILE_NAME = '.chatgpt-plugin-metadata.json';
+	private readonly METADATA_WRITE_DELAY = 1000;
+	private metadataWriteTimer: number | null = null;
+	private metadataWrite: Promise<void> | null = null; // Write in progress
+	private metadataPendingWrite = false; // Changes made since the last write started
+	private readonly STREAM_CHUNK_SIZE = 4 * 1024 * 1024;
+	private metadataBatchDepth = 0;
+	private metadataDirty = false;
+	// Content hashes for duplicate detection; the index of saved hashes is rebuilt after state changes
+	private pairHashCache = new WeakMap<ExtractedMessage, string>();
+	private savedHashIndex: Map<string, string> | null = null;
+	// Action that state changes are currently recorded into, for undo
+	private pendingAction: PairAction | null = null;
+
+	async onload() {
+		await this.loadSettings();
+		await this.loadConversationMetadata();
+
+		// Write pending metadata changes before Obsidian quits
+		this.registerEvent(this.app.workspace.on('quit', (tasks) => {
+			tasks.add(() => this.flushConversationMetadata());
+		}));
+
+		// Keep saved note links current when notes are moved or deleted
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+			this.handleNoteRenamed(oldPath, file.path, file instanceof TFolder)
+				.catch(error => console.error('[METADATA DEBUG] Failed to track renamed note:', error));
+		}));
+		this.registerEvent(this.app.vault.on('delete', (file) => {
+			this.handleNoteDeleted(file.path, file instanceof TFolder)
+				.catch(error => console.error('[METADATA DEBUG] Failed to track deleted note:', error));
+		}));
+
+		// Add ribbon icon for opening the importer
+		const ribbonIconEl = this.addRibbonIcon('message-square', 'ChatGPT to Obsidian', (evt: MouseEvent) => {
+			new ChatGPTImportModal(this.app, this).open();
+		});
+
+		// Add command
+		this.addCommand({
+			id: 'open-chatgpt-importer',
+			name: 'Import ChatGPT conversations',
+			callback: () => {
+				new ChatGPTImportModal(this.app, this).open();
+			}
+		});
+
+		// Dockable library pane; Obsidian reopens it with the saved workspace layout
+		this.registerView(VIEW_TYPE_CHATGPT_LIBRARY, (leaf) => new ChatGPTLibraryView(leaf, this));
+		this.addCommand({
+			id: 'open-chatgpt-library',
+			name: 'Open ChatGPT library',
+			callback: () => {
+				this.activateLibraryView().catch(error => console.error('Could not open the ChatGPT library:', error));
+			}
+		});
+
+		// Triage commands act on the active library view, so their hotkeys can be rebound
+		this.addCommand({
+			id: 'toggle-triage-mode',
+			name: 'Toggle triage mode',
+			callback: async () => {
+				const browser = this.getActiveLibraryBrowser();
+				if (browser) {
+					browser.setTriageMode(!browser.triageMode);
+					return;
+				}
+				await this.activateLibraryView();
+				this.getActiveLibraryBrowser()?.setTriageMode(true);
+			}
+		});
+		const triageCommands: Array<[string, string, (browser: ConversationBrowser) => void]> = [
+			['triage-save-pair', 'Triage: save pair with defaults', browser => browser.triageSave()],
+			['triage-ignore-pair', 'Triage: ignore pair', browser => browser.triageIgnore()],
+			['triage-next-pair', 'Triage: next pair', browser => browser.moveTriageCursor(1)],
+			['triage-previous-pair', 'Triage: previous pair', browser => browser.moveTriageCursor(-1)],
+			['triage-next-conversation', 'Triage: next conversation', browser => browser.moveTriageConversation(1)],
+			['triage-previous-conversation', 'Triage: previous conversation', browser => browser.moveTriageConversation(-1)]
+		];
+		this.addCommand({
+			id: 'quick-save-pair',
+			name: 'Quick save Q&A pair with defaults',
+			checkCallback: (checking) => {
+				const browser = this.getActiveLibraryBrowser();
+				const target = browser ? browser.getQuickSaveTarget() : null;
+				if (!browser || !target) return false;
+				if (!checking) {
+					if (browser.triageMode) {
+						browser.triageSave();
+					} else {
+						browser.quickSavePair(target.conv, target.pair, 'Command')
+							.then(() => this.refreshLibraryViews(null))
+							.catch(error => new Notice("Quick save failed: " + error.message));
+					}
+				}
+				return true;
+			}
+		});
+		this.addCommand({
+			id: 'undo-pair-action',
+			name: 'Undo last Q&A pair change',
+			callback: () => this.stepPairHistory('undo')
+		});
+		this.addCommand({
+			id: 'redo-pair-action',
+			name: 'Redo Q&A pair change',
+			callback: () => this.stepPairHistory('redo')
+		});
+		triageCommands.forEach(([id, name, run]) => this.addCommand({
+			id,
+			name,
+			checkCallback: (checking) => {
+				const browser = this.getActiveLibraryBrowser();
+				if (!browser || !browser.triageMode) return false;
+				if (!checking) run(browser);
+				return true;
+			}
+		}));
+
+		// Add settings tab
+		this.addSettingTab(new ChatGPTSettingTab(this.app, this));
+	}
+
+	// Reveal the library, opening it in a new tab the first time
+	async activateLibraryView() {
+		const {workspace} = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_CHATGPT_LIBRARY)[0];
+		if (!leaf) {
+			leaf = workspace.getLeaf('tab');
+			await leaf.setViewState({ type: VIEW_TYPE_CHATGPT_LIBRARY, active: true });
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	// From the command palette: the active library view follows the change, other views are redrawn
+	async stepPairHistory(direction: 'undo' | 'redo') {
+		const browser = this.getActiveLibraryBrowser();
+		if (browser) {
+			await browser.stepPairHistory(direction);
+			return;
+		}
+		const action = direction === 'undo' ? await this.undoPairAction() : await this.redoPairAction();
+		if (action) this.refreshLibraryViews(null);
+	}
+
+	getActiveLibraryBrowser(): ConversationBrowser | null {
+		const view = this.app.workspace.getActiveViewOfType(ChatGPTLibraryView);
+		return view ? view.browser : null;
+	}
+
+	// Redraw open library views after another importer loaded an export or changed pair states
+	refreshLibraryViews(source: ConversationBrowser | null) {
+		this.app.workspace.getLeavesOfType(VIEW_TYPE_CHATGPT_LIBRARY).forEach(leaf => {
+			const view = leaf.view;
+			if (view instanceof ChatGPTLibraryView && view.browser && view.browser !== source) {
+				view.browser.showPluginExport();
+			}
+		});
+	}
+
+	onunload() {
+		// Best effort: Obsidian does not wait for unload, so quitting flushes through the 'quit' tasks below
+		this.flushConversationMetadata();
+	}
+
+	async loadSettings() {
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		// Copy so edits never touch the shared defaults
+		this.settings.noteTemplates = this.settings.noteTemplates.map(template => Object.assign({}, template));
+		this.settings.conversationFilters = Object.assign({}, DEFAULT_CONVERSATION_FILTERS, this.settings.conversationFilters);
+		this.settings.conversationSort = Object.assign({}, DEFAULT_SETTINGS.conversationSort, this.settings.conversationSort);
+		this.settings.importViewState = Object.assign({}, DEFAULT_SETTINGS.importViewState, this.settings.importViewState);
+		this.settings.triageKeys = Object.assign({}, DEFAULT_SETTINGS.triageKeys, this.settings.triageKeys);
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+	}
+
+	// Parse ChatGPT conversations.json
+	parseChatGPTData(jsonContent: string): ChatGPTConversation[] {
+		try {
+			const data = JSON.parse(jsonContent) as ChatGPTConversation[];
+			return data;
+		} catch (error) {
+			console.error('Error parsing ChatGPT data:', error);
+			throw new Error('Invalid ChatGPT export format');
+		}
+	}
+
+	// Stream a conversations.json export, handing each batch of parsed conversations to onBatch.
+	// The source is either the selected .json file or the decompressed entry of an export .zip.
+	// Yields to the UI roughly every STREAM_CHUNK_SIZE bytes so progress can be rendered.
+	async streamChatGPTData(
+		stream: ReadableStream<Uint8Array>,
+		totalBytes: number,
+		onBatch: (conversations: ChatGPTConversation[]) => void,
+		onProgress?: (loadedBytes: number, totalBytes: number) => void,
+		signal?: AbortSignal
+	): Promise<number> {
+		const parser = new ConversationStreamParser();
+		const decoder = new TextDecoder('utf-8');
+		const reader = stream.getReader();
+		let loadedBytes = 0;
+		let bytesSinceYield = 0;
+		let count = 0;
+
+		try {
+			while (true) {
+				if (signal?.aborted) {
+					throw new Error('Import cancelled');
+				}
+
+				const { done, value } = await reader.read();
+				const text = done ? decoder.decode() : decoder.decode(value, { stream: true });
+				const batch = parser.write(text);
+				if (batch.length > 0) {
+					count += batch.length;
+					onBatch(batch);
+				}
+				if (done) break;
+
+				loadedBytes += value.byteLength;
+				bytesSinceYield += value.byteLength;
+				if (bytesSinceYield >= this.STREAM_CHUNK_SIZE) {
+					bytesSinceYield = 0;
+					onProgress?.(loadedBytes, totalBytes);
+					// Let the modal repaint before reading further
+					await new Promise(resolve => setTimeout(resolve, 0));
+				}
+			}
+			parser.end();
+			onProgress?.(totalBytes, totalBytes);
+		} catch (error) {
+			console.error('Error streaming ChatGPT data:', error);
+			reader.cancel().catch(() => {});
+			if (error instanceof SyntaxError) {
+				throw new Error('Invalid ChatGPT export format');
+			}
+			throw error;
+		} finally {
+			reader.releaseLock();
+		}
+
+		return count;
+	}
+
+	// Extract clean conversation threads, keeping every branch of the message tree
+	extractConversations(conversations: ChatGPTConversation[]): ExtractedConversation[] {
+		return conversations.map(conv => {
+			const branches = this.extractBranches(conv);
+			
+			// Prefer the branch that was active in ChatGPT, otherwise the children[0] path
+			let currentBranchIndex = branches.findIndex(branch => branch.isCurrent);
+			if (currentBranchIndex < 0) {
+				currentBranchIndex = 0;
+			}
+
+			return {
+				title: conv.title,
+				id: conv.id,
+				create_time: conv.create_time,
+				update_time: conv.update_time,
+				messages: branches.length > 0 ? branches[currentBranchIndex].messages : [],
+				branches: branches,
+				currentBranchIndex: currentBranchIndex,
+				selectedBranchIndex: currentBranchIndex
+			};
+		});
+	}
+
+	// Link each response to the pairs the earlier folding (without tool calls) made from the path nodes it now holds
+	private addFoldedPairIds(conversationId: string, folded: Array<{ message: ExtractedMessage; nodeIds: string[] }>, previous: Array<{ message: ExtractedMessage; nodeIds: string[] }>) {
+		const pairIdAt = (entries: Array<{ message: ExtractedMessage }>, index: number) =>
+			this.generateQAPairId(conversationId, index > 0 ? entries[index - 1].message.id : 'no-user-msg', entries[index].message.id);
+		const holder = new Map<string, number>();
+		folded.forEach((entry, index) => entry.nodeIds.forEach(nodeId => holder.set(nodeId, index)));
+		
+		previous.forEach((entry, index) => {
+			const target = holder.get(entry.message.id);
+			if (entry.message.role !== 'assistant' || target === undefined || folded[target].message.role !== 'assistant') return;
+			const previousPairId = pairIdAt(previous, index);
+			if (previousPairId === pairIdAt(folded, target)) return;
+			const message = folded[target].message;
+			message.foldedPairIds = (message.foldedPairIds || []).concat([previousPairId]);
+		});
+	}
+
+	// Walk the message tree and return one branch per distinct root-to-leaf path
+	private extractBranches(conv: ChatGPTConversation): ConversationBranch[] {
+		const mapping = conv.mapping || {};
+		const nodes = Object.values(mapping);
+
+		// Roots are nodes without a parent (or whose parent is missing from the export)
+		const roots = nodes.filter(node => !node.parent || !mapping[node.parent]);
+
+		// Depth-first walk collecting leaves in children order, so branch 0 is the children[0] path
+		const leaves: ChatGPTMessage[] = [];
+		const visited = new Set<string>();
+		const stack = roots.slice().reverse();
+		while (stack.length > 0) {
+			const node = stack.pop()!;
+			if (visited.has(node.id)) continue;
+			visited.add(node.id);
+
+			const children = node.children
+				.map(childId => mapping[childId])
+				.filter(child => child !== undefined);
+			if (children.length === 0) {
+				leaves.push(node);
+			} else {
+				for (let i = children.length - 1; i >= 0; i--) {
+					stack.push(children[i]);
+				}
+			}
+		}
+
+		const branches: ConversationBranch[] = [];
+		const seenPaths = new Map<string, ConversationBranch>();
+
+		leaves.forEach(leaf => {
+			// Walk back up to the root, then reverse into chronological order
+			const path: ChatGPTMessage[] = [];
+			const pathIds = new Set<string>();
+			let current: ChatGPTMessage | undefined = leaf;
+			while (current && !pathIds.has(current.id)) {
+				path.push(current);
+				pathIds.add(current.id);
+				current = current.parent ? mapping[current.parent] : undefined;
+			}
+			path.reverse();
+
+			const folded = foldBranchPath(path, isIntermediateMessage);
+			const messages = folded.map(entry => entry.message);
+			// Text addressed to a tool used to be a response of its own; remember the pairs it made so their states carry over
+			if (path.some(node => node.message && isIntermediateMessage(node.message) && !isToolOrReasoningMessage(node.message))) {
+				this.addFoldedPairIds(conv.id, folded, foldBranchPath(path, isToolOrReasoningMessage));
+			}
+
+			const isCurrent = !!conv.current_node && pathIds.has(conv.current_node);
+
+			// Leaves that only add empty or system messages collapse into an existing branch
+			const pathKey = messages.map(msg => msg.id).join('/');
+			const existing = seenPaths.get(pathKey);
+			if (existing) {
+				existing.isCurrent = existing.isCurrent || isCurrent;
+				return;
+			}
+
+			const branch: ConversationBranch = { leafId: leaf.id, messages, isCurrent };
+			seenPaths.set(pathKey, branch);
+			branches.push(branch);
+		});
+
+		// Drop branches that add nothing visible (e.g. a failed regeneration that is a prefix of another branch)
+		const isPrefixOfAnother = (branch: ConversationBranch) => branches.some(other =>
+			other !== branch &&
+			other.messages.length > branch.messages.length &&
+			branch.messages.every((msg, i) => other.messages[i].id === msg.id)
+		);
+		const distinct = branches.filter(branch =>
+			branch.messages.length > 0 && (branch.isCurrent || !isPrefixOfAnother(branch))
+		);
+		return distinct.length > 0 ? distinct : branches.slice(0, 1);
+	}
+
+	// Find the archive entry for an asset pointer. Export files are named "<file id>-<original name>".
+	findAttachmentEntry(assetPointer: string): ExportArchiveEntry | null {
+		if (!this.exportArchive) return null;
+		const fileId = assetPointer.substring(assetPointer.indexOf('://') + 3);
+		if (!fileId) return null;
+		return this.exportArchive.getAttachmentEntries().find(entry => {
+			const name = entry.path.split('/').pop() || '';
+			return name === fileId || name.startsWith(fileId + '-') || name.startsWith(fileId + '.');
+		}) || null;
+	}
+
+	getAttachmentVaultPath(entry: ExportArchiveEntry): string {
+		const folder = this.settings.attachmentsFolder.trim().replace(/\/+$/, '');
+		const name = (entry.path.split('/').pop() || entry.path).replace(/[\\/:*?"<>|#^[\]]/g, '-');
+		return folder ? `${folder}/${name}` : name;
+	}
+
+	// Vault path an image is (or will be) embedded from: its archive entry, or a copy an earlier import left in the
+	// attachments folder. Null when neither is available, e.g. after loading a .json export or a cached import.
+	findAttachmentVaultPath(assetPointer: string): string | null {
+		const entry = this.findAttachmentEntry(assetPointer);
+		if (entry) return this.getAttachmentVaultPath(entry);
+		
+		const fileId = assetPointer.substring(assetPointer.indexOf('://') + 3);
+		if (!fileId) return null;
+		const folderPath = this.settings.attachmentsFolder.trim().replace(/\/+$/, '');
+		const folder = folderPath ? this.app.vault.getAbstractFileByPath(folderPath) : this.app.vault.getRoot();
+		if (!(folder instanceof TFolder)) return null;
+		const file = folder.children.find(child => child instanceof TFile &&
+			(child.name === fileId || child.name.startsWith(fileId + '-') || child.name.startsWith(fileId + '.')));
+		return file ? file.path : null;
+	}
+
+	hasUnavailableAttachments(content: string): boolean {
+		const regex = new RegExp(ASSET_POINTER_IMAGE_REGEX.source, 'g');
+		let match: RegExpExecArray | null;
+		while ((match = regex.exec(content)) !== null) {
+			if (!this.findAttachmentVaultPath(match[2])) return true;
+		}
+		return false;
+	}
+
+	// Saving without the export .zip (a cached or .json import) writes placeholders for images not copied before
+	warnUnavailableAttachments(content: string) {
+		if (this.exportArchive || !this.hasUnavailableAttachments(content)) return;
+		if (this.loadedExport && this.missingImagesNoticeExport === this.loadedExport) return;
+		this.missingImagesNoticeExport = this.loadedExport;
+		new Notice("Some images are only in the export .zip and were saved as placeholders. Import the .zip again, then use \"Update saved notes\" to embed them.", 10000);
+	}
+
+	// Replace image asset pointers with vault embeds, or a placeholder when the file is not in the export
+	resolveAttachmentEmbeds(content: string): string {
+		return content.replace(ASSET_POINTER_IMAGE_REGEX, (match, alt: string, assetPointer: string) => {
+			const vaultPath = this.findAttachmentVaultPath(assetPointer);
+			if (vaultPath) {
+				return `![[${vaultPath}]]`;
+			}
+			const fileId = assetPointer.substring(assetPointer.indexOf('://') + 3);
+			return this.exportArchive ?
+				`> [!warning] Missing ${alt}\n> \`${fileId}\` was not found in the export archive.` :
+				`> [!warning] Missing ${alt}\n> \`${fileId}\` is only available when importing the export .zip.`;
+		});
+	}
+
+	// Copy the attachments referenced by content into the vault. Files already present are reused.
+	async copyAttachments(content: string): Promise<number> {
+		if (!this.exportArchive) return 0;
+		
+		let copied = 0;
+		const seen = new Set<string>();
+		let match: RegExpExecArray | null;
+		const regex = new RegExp(ASSET_POINTER_IMAGE_REGEX.source, 'g');
+		while ((match = regex.exec(content)) !== null) {
+			const entry = this.findAttachmentEntry(match[2]);
+			if (!entry) continue;
+			
+			const targetPath = this.getAttachmentVaultPath(entry);
+			if (seen.has(targetPath) || this.app.vault.getAbstractFileByPath(targetPath)) continue;
+			seen.add(targetPath);
+			
+			const folder = targetPath.substring(0, targetPath.lastIndexOf('/'));
+			if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+				await this.app.vault.createFolder(folder);
+			}
+			const data = await this.exportArchive.readEntry(entry);
+			await this.app.vault.createBinary(targetPath, data);
+			copied++;
+		}
+		return copied;
+	}
+
+	// Templates offered when saving: built-in layout, templates from settings, then Markdown files in the templates folder
+	getNoteTemplateOptions(): Array<{ id: string; name: string }> {
+		const options = [{ id: '', name: 'Built-in layout' }];
+		this.settings.noteTemplates.forEach(template => {
+			options.push({ id: `settings:${template.name}`, name: template.name });
+		});
+		const folder = this.settings.templatesFolder.trim().replace(/\/+$/, '');
+		if (folder) {
+			this.app.vault.getMarkdownFiles()
+				.filter(file => file.path.startsWith(folder + '/'))
+				.sort((a, b) => a.path.localeCompare(b.path))
+				.forEach(file => options.push({ id: `file:${file.path}`, name: `${file.basename} (vault)` }));
+		}
+		return options;
+	}
+
+	// Template text for an option id, or null for the built-in layout (also used when the template no longer exists)
+	async loadNoteTemplate(id: string): Promise<string | null> {
+		if (id.startsWith('settings:')) {
+			const name = id.substring('settings:'.length);
+			const template = this.settings.noteTemplates.find(t => t.name === name);
+			if (template) return template.content;
+		} else if (id.startsWith('file:')) {
+			const file = this.app.vault.getAbstractFileByPath(id.substring('file:'.length));
+			if (file instanceof TFile) return await this.app.vault.cachedRead(file);
+		} else if (!id) {
+			return null;
+		}
+		console.warn('[TEMPLATE DEBUG] Template not found, using built-in layout:', id);
+		return null;
+	}
+
+	// Export cache, kept in the plugin folder rather than the vault so it is not indexed
+	private get exportCachePath(): string {
+		return `${this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/export-cache.json`;
+	}
+
+	// Written as a JSON array in batches of conversations, so a large export is never one string in memory.
+	// The array goes to a temporary file first; a cache cut short by a crash is never read.
+	async saveExportCache(loaded: LoadedExport): Promise<void> {
+		if (!this.settings.cacheLoadedExport) return;
+		const adapter = this.app.vault.adapter;
+		const tempPath = `${this.exportCachePath}.tmp`;
+		const header: ExportCacheHeader = {
+			version: EXPORT_CACHE_VERSION,
+			sourceName: loaded.sourceName,
+			sourceSize: loaded.sourceSize,
+			loadedAt: loaded.loadedAt,
+			conversationCount: loaded.conversations.length
+		};
+		await adapter.write(tempPath, '[' + JSON.stringify(header));
+		for (let start = 0; start < loaded.conversations.length; start += EXPORT_CACHE_WRITE_BATCH) {
+			const batch = loaded.conversations.slice(start, start + EXPORT_CACHE_WRITE_BATCH);
+			await adapter.append(tempPath, ',\n' + batch.map(conv => JSON.stringify(toCachedConversation(conv))).join(',\n'));
+		}
+		await adapter.append(tempPath, ']\n');
+		if (await adapter.exists(this.exportCachePath)) {
+			await adapter.remove(this.exportCachePath);
+		}
+		await adapter.rename(tempPath, this.exportCachePath);
+		console.log('[CACHE DEBUG] Saved export cache:', { conversations: header.conversationCount });
+	}
+
+	// The cached export, or null when there is none or it cannot be used.
+	// Read back with the same streaming parser as an export, one conversation at a time.
+	async loadExportCache(): Promise<LoadedExport | null> {
+		if (!this.settings.cacheLoadedExport) return null;
+		const adapter = this.app.vault.adapter;
+		if (!(await adapter.exists(this.exportCachePath))) return null;
+		try {
+			const data = await adapter.readBinary(this.exportCachePath);
+			let header: ExportCacheHeader | null = null;
+			const conversations: ExtractedConversation[] = [];
+			await this.streamChatGPTData(new Blob([data]).stream(), data.byteLength, batch => {
+				batch.forEach(item => {
+					if (!header) {
+						header = item as unknown as ExportCacheHeader;
+					} else {
+						conversations.push(fromCachedConversation(item as unknown as CachedConversation));
+					}
+				});
+			});
+			const cache = header as ExportCacheHeader | null;
+			if (!cache || cache.version !== EXPORT_CACHE_VERSION || cache.conversationCount !== conversations.length) {
+				console.log('[CACHE DEBUG] Ignoring export cache with unknown version or missing conversations:', cache && cache.version);
+				return null;
+			}
+			return {
+				sourceName: cache.sourceName,
+				sourceSize: cache.sourceSize,
+				loadedAt: cache.loadedAt,
+				conversations,
+				fromCache: true
+			};
+		} catch (error) {
+			console.error('[CACHE DEBUG] Could not read export cache:', error);
+			return null;
+		}
+	}
+
+	async clearExportCache(): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		if (await adapter.exists(this.exportCachePath)) {
+			await adapter.remove(this.exportCachePath);
+		}
+	}
+
+	// Metadata management methods
+	// The store is written to a temporary file and renamed into place; the previous version is kept as a backup
+	private get metadataTempPath(): string {
+		return this.METADATA_FILE_NAME + '.tmp';
+	}
+
+	private get metadataBackupPath(): string {
+		return this.METADATA_FILE_NAME + '.bak';
+	}
+
+	private async loadConversationMetadata(): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		console.log('[METADATA DEBUG] Loading metadata from:', this.METADATA_FILE_NAME);
+		
+		// Newest first: the store, a write that was interrupted before its rename, then the previous version
+		const candidates = [this.METADATA_FILE_NAME, this.metadataTempPath, this.metadataBackupPath];
+		let mainDamaged = false;
+		let loadedFrom: string | null = null;
+		let migrated = false;
+		for (const path of candidates) {
+			if (!(await adapter.exists(path))) continue;
+			try {
+				const data = JSON.parse(await adapter.read(path));
+				this.metadataStore = migrateMetadataStore(data);
+				migrated = this.metadataStore.version !== data.version;
+				loadedFrom = path;
+				break;
+			} catch (error) {
+				console.error('[METADATA DEBUG] Could not load metadata from', path, error);
+				if (path === this.METADATA_FILE_NAME) {
+					mainDamaged = true;
+				}
+			}
+		}
+		
+		if (mainDamaged) {
+			// Keep the damaged file for inspection, and out of the way of the backup rotation
+			await adapter.rename(this.METADATA_FILE_NAME, `${this.METADATA_FILE_NAME}.corrupt-${Date.now()}`);
+		}
+		
+		if (!loadedFrom) {
+			this.metadataStore = createEmptyMetadataStore();
+			if (mainDamaged) {
+				new Notice('ChatGPT importer: the metadata file was damaged and no usable backup was found. Q&A pair states start empty; the damaged file was kept.', 10000);
+			}
+			return;
+		}
+		
+		console.log('[METADATA DEBUG] Loaded Q&A pair metadata:', { path: loadedFrom, version: this.metadataStore.version, pairs: Object.keys(this.metadataStore.qaPairs).length });
+		if (this.metadataStore.version > METADATA_SCHEMA_VERSION) {
+			console.warn('[METADATA DEBUG] Metadata was written by a newer plugin version:', this.metadataStore.version);
+		}
+		if (mainDamaged || loadedFrom === this.metadataBackupPath) {
+			new Notice('ChatGPT importer: the metadata file was damaged or missing and has been restored from its backup.');
+		}
+		// Persist migrations and recoveries with the next write
+		if (migrated || loadedFrom !== this.METADATA_FILE_NAME) {
+			await this.saveConversationMetadata();
+		}
+	}
+
+	// Apply conversation-level states from the original metadata format to the pairs of re-imported conversations
+	// Move pair states recorded before text addressed to tools was folded into responses to the pairs that hold it now.
+	// When several earlier pairs went into one response, a saved one wins over an ignored one.
+	async migrateFoldedPairIds(conversations: ExtractedConversation[]): Promise<void> {
+		const qaPairs = this.metadataStore.qaPairs;
+		const savedNotes = this.metadataStore.savedNotes || {};
+		const rank = (state: QAPairState) => state === QAPairState.SAVED ? 2 : state === QAPairState.IGNORED ? 1 : 0;
+		let migrated = 0;
+		
+		conversations.forEach(conv => {
+			const branches = conv.branches && conv.branches.length > 0 ? conv.branches.map(branch => branch.messages) : [conv.messages];
+			branches.forEach(messages => this.getQAPairs({ ...conv, messages }).forEach(pair => {
+				const previousIds = (pair.assistantMessage.foldedPairIds || []).filter(pairId => qaPairs[pairId]);
+				if (previousIds.length === 0 || qaPairs[pair.pairId]) return;
+				
+				const records = previousIds.map(pairId => qaPairs[pairId]);
+				const kept = records.reduce((best, record) => rank(record.state) > rank(best.state) ? record : best);
+				const notePaths: string[] = [];
+				records.forEach(record => (record.notePaths || []).forEach(path => {
+					if (notePaths.indexOf(path) === -1) notePaths.push(path);
+				}));
+				const moved: QAPairMetadata = { ...kept, pairId: pair.pairId };
+				if (notePaths.length > 0) {
+					moved.notePaths = notePaths;
+				} else {
+					delete moved.notePaths;
+				}
+				qaPairs[pair.pairId] = moved;
+				previousIds.forEach(pairId => delete qaPairs[pairId]);
+				
+				Object.values(savedNotes).forEach(record => {
+					if (!record.pairIds.some(pairId => previousIds.indexOf(pairId) !== -1)) return;
+					record.pairIds = record.pairIds
+						.map(pairId => previousIds.indexOf(pairId) !== -1 ? pair.pairId : pairId)
+						.filter((pairId, index, all) => all.indexOf(pairId) === index);
+				});
+				migrated++;
+			}));
+		});
+		
+		if (migrated > 0) {
+			console.log('[METADATA DEBUG] Moved pair states to responses with folded tool calls:', migrated);
+			this.savedHashIndex = null;
+			await this.saveConversationMetadata();
+		}
+	}
+
+	async migrateLegacyConversations(conversations: ExtractedConversation[]): Promise<void> {
+		const legacy = this.metadataStore.legacyConversations;
+		if (!legacy) return;
+		let migrated = 0;
+		await this.recordPairAction('Ignore pairs processed in the old metadata format', 'Import', async () => {
+			for (const conv of conversations) {
+				const record = legacy[conv.id];
+				if (!record) continue;
+				delete legacy[conv.id];
+				this.metadataDirty = true;
+				if (!record.processed) continue;
+				// The old format did not say whether notes were written, so processed pairs become IGNORED
+				const pairs = this.getQAPairs(conv).filter(pair => !this.metadataStore.qaPairs[pair.pairId]);
+				await this.updateQAPairStates(pairs, QAPairState.IGNORED, conv.id);
+				migrated++;
+			}
+			if (Object.keys(legacy).length === 0) {
+				delete this.metadataStore.legacyConversations;
+			}
+		});
+		if (migrated > 0) {
+			console.log('[METADATA DEBUG] Migrated legacy conversation states:', migrated);
+		}
+	}
+
+	// Run several state changes with a single metadata write at the end
+	async batchMetadataUpdates<T>(work: () => Promise<T>): Promise<T> {
+		this.metadataBatchDepth++;
+		try {
+			return await work();
+		} finally {
+			this.metadataBatchDepth--;
+			if (this.metadataBatchDepth === 0 && this.metadataDirty) {
+				this.metadataDirty = false;
+				await this.saveConversationMetadata();
+			}
+		}
+	}
+
+	// Schedule a write of the metadata store; changes made within METADATA_WRITE_DELAY share one write
+	private async saveConversationMetadata(): Promise<void> {
+		// Inside batchMetadataUpdates the write is scheduled once, when the batch completes
+		if (this.metadataBatchDepth > 0) {
+			this.metadataDirty = true;
+			return;
+		}
+		this.metadataPendingWrite = true;
+		if (this.metadataWriteTimer !== null) return;
+		this.metadataWriteTimer = window.setTimeout(() => {
+			this.metadataWriteTimer = null;
+			this.flushConversationMetadata().catch(error => {
+				console.error('[METADATA DEBUG] Error saving Q&A pair metadata:', error);
+				new Notice('ChatGPT importer: could not save Q&A pair states: ' + error.message);
+			});
+		}, this.METADATA_WRITE_DELAY);
+	}
+
+	// Write pending changes now, after any write already in progress
+	async flushConversationMetadata(): Promise<void> {
+		if (this.metadataWriteTimer !== null) {
+			window.clearTimeout(this.metadataWriteTimer);
+			this.metadataWriteTimer = null;
+		}
+		while (this.metadataWrite) {
+			await this.metadataWrite;
+		}
+		if (!this.metadataPendingWrite) return;
+		this.metadataPendingWrite = false;
+		this.metadataWrite = this.writeConversationMetadata();
+		try {
+			await this.metadataWrite;
+		} catch (error) {
+			// Try again with the next change or flush
+			this.metadataPendingWrite = true;
+			throw error;
+		} finally {
+			this.metadataWrite = null;
+		}
+	}
+
+	private async writeConversationMetadata(): Promise<void> {
+		const adapter = this.app.vault.adapter;
+		this.metadataStore.version = Math.max(this.metadataStore.version || 0, METADATA_SCHEMA_VERSION);
+		this.metadataStore.lastUpdated = Date.now();
+		const content = JSON.stringify(this.metadataStore, null, 2);
+		console.log('[METADATA DEBUG] Saving metadata:', { 
+			fileName: this.METADATA_FILE_NAME, 
+			pairCount: Object.keys(this.metadataStore.qaPairs).length,
+			contentLength: content.length
+		});
+		
+		// Write everything first, so an interrupted write never leaves a truncated store behind
+		await adapter.write(this.metadataTempPath, content);
+		if (await adapter.exists(this.METADATA_FILE_NAME)) {
+			if (await adapter.exists(this.metadataBackupPath)) {
+				await adapter.remove(this.metadataBackupPath);
+			}
+			await adapter.rename(this.METADATA_FILE_NAME, this.metadataBackupPath);
+		}
+		await adapter.rename(this.metadataTempPath, this.METADATA_FILE_NAME);
+	}
+
+	// Q&A pair management methods
+	private generateQAPairHash(userPrompt: string, response: string): string {
+		return hashQAPairContent(userPrompt, response);
+	}
+
+	// Content hash of a pair as it appears in the loaded export (cached per response message)
+	getPairContentHash(pair: QAPair): string {
+		let hash = this.pairHashCache.get(pair.assistantMessage);
+		if (hash === undefined) {
+			hash = this.generateQAPairHash(pair.userMessage ? pair.userMessage.content : "", pair.assistantMessage.content);
+			this.pairHashCache.set(pair.assistantMessage, hash);
+		}
+		return hash;
+	}
+
+	// A saved pair with the same content, e.g. the same answer in another conversation or a re-export with new ids
+	findSavedDuplicate(pair: QAPair): QAPairMetadata | null {
+		if (!this.savedHashIndex) {
+			this.savedHashIndex = new Map();
+			Object.values(this.metadataStore.qaPairs).forEach(metadata => {
+				if (metadata.state === QAPairState.SAVED && isFullContentHash(metadata.pairHash) && !this.savedHashIndex!.has(metadata.pairHash)) {
+					this.savedHashIndex!.set(metadata.pairHash, metadata.pairId);
+				}
+			});
+		}
+		const duplicateId = this.savedHashIndex.get(this.getPairContentHash(pair));
+		return duplicateId && duplicateId !== pair.pairId ? this.metadataStore.qaPairs[duplicateId] : null;
+	}
+
+	// Rehash known pairs of the loaded export (older versions hashed only the first 200 characters, see isFullContentHash),
+	// then count the new pairs that duplicate saved content
+	async indexPairHashes(conversations: ExtractedConversation[]): Promise<number> {
+		let rehashed = 0;
+		conversations.forEach(conv => {
+			const branches = conv.branches && conv.branches.length > 0 ? conv.branches.map(branch => branch.messages) : [conv.messages];
+			branches.forEach(messages => this.getQAPairs({ ...conv, messages }).forEach(pair => {
+				const metadata = this.metadataStore.qaPairs[pair.pairId];
+				const hash = this.getPairContentHash(pair);
+				if (metadata && metadata.pairHash !== hash) {
+					metadata.pairHash = hash;
+					rehashed++;
+				}
+			}));
+		});
+		if (rehashed > 0) {
+			console.log('[METADATA DEBUG] Updated content hashes:', rehashed);
+			this.savedHashIndex = null;
+			await this.saveConversationMetadata();
+		}
+		
+		let duplicates = 0;
+		conversations.forEach(conv => {
+			this.getQAPairs(conv).forEach(pair => {
+				if (this.getQAPairState(pair.pairId) === QAPairState.NEW && this.findSavedDuplicate(pair)) duplicates++;
+			});
+		});
+		return duplicates;
+	}
+
+	generateQAPairId(conversationId: string, userMsgId: string, assistantMsgId: string): string {
+		return `${conversationId}_${userMsgId}_${assistantMsgId}`;
+	}
+
+	// Q&A pairs of a conversation's selected branch, in conversation order
+	getQAPairs(conv: ExtractedConversation): QAPair[] {
+		const pairs: QAPair[] = [];
+		conv.messages.forEach((msg, index) => {
+			if (msg.role !== 'assistant') return;
+			const userMessage = index > 0 ? conv.messages[index - 1] : null;
+			const userMsgId = userMessage ? userMessage.id : 'no-user-msg';
+			pairs.push({
+				pairId: this.generateQAPairId(conv.id, userMsgId, msg.id),
+				userMessage,
+				assistantMessage: msg
+			});
+		});
+		return pairs;
+	}
+
+	getQAPairState(pairId: string): QAPairState {
+		const metadata = this.metadataStore.qaPairs[pairId];
+		return metadata ? metadata.state : QAPairState.NEW;
+	}
+
+	async updateQAPairState(pairId: string, state: QAPairState, conversationId: string, userPrompt: string, response: string): Promise<void> {
+		await this.writeQAPairState(pairId, state, conversationId, {
+			pairHash: this.generateQAPairHash(userPrompt, response),
+			userPrompt: userPrompt.substring(0, 100),
+			responsePreview: response.substring(0, 100)
+		});
+	}
+
+	// Shared by every state change, including those made without the pair's text at hand (which pass the stored hash)
+	private async writeQAPairState(pairId: string, state: QAPairState, conversationId: string, content: Pick<QAPairMetadata, 'pairHash' | 'userPrompt' | 'responsePreview'>): Promise<void> {
+		// A change outside a recorded action is an action of its own
+		if (!this.pendingAction) {
+			await this.recordPairAction(describeStateChange(state, 1), 'Importer', () =>
+				this.writeQAPairState(pairId, state, conversationId, content));
+			return;
+		}
+		if (!this.pendingAction.changes.some(change => change.pairId === pairId)) {
+			this.pendingAction.changes.push({ pairId, conversationId, before: snapshotPairState(this.metadataStore.qaPairs[pairId]), after: null });
+		}
+		
+		this.savedHashIndex = null;
+		
+		this.metadataStore.qaPairs[pairId] = {
+			pairId,
+			pairHash: content.pairHash,
+			conversationId,
+			state,
+			timestamp: Date.now(),
+			userPrompt: content.userPrompt,
+			responsePreview: content.responsePreview,
+			notePaths: this.metadataStore.qaPairs[pairId]?.notePaths
+		};
+		
+		// A processed pair is no longer news
+		const seen = this.metadataStore.seenConversations?.[conversationId];
+		if (seen && state !== QAPairState.NEW) {
+			seen.newResponseIds = seen.newResponseIds.filter(id => !pairId.endsWith(`_${id}`));
+		}
+		
+		await this.saveConversationMetadata();
+	}
+
+	// Set the same state on several pairs of one conversation as one action with a single metadata write
+	async updateQAPairStates(pairs: QAPair[], state: QAPairState, conversationId: string, source: string = 'Importer'): Promise<void> {
+		await this.recordPairAction(describeStateChange(state, pairs.length), source, async () => {
+			for (const pair of pairs) {
+				const userPrompt = pair.userMessage ? pair.userMessage.content : "";
+				await this.updateQAPairState(pair.pairId, state, conversationId, userPrompt, pair.assistantMessage.content);
+			}
+		});
+	}
+
+	// Record the pair state changes and notes made by `work` as one entry of the undo history.
+	// Work done inside another recorded action belongs to that action.
+	// Returns what `work` returned and the logged action, or null when nothing changed or the work was part of another action.
+	async recordPairAction<T>(label: string, source: string, work: () => Promise<T>): Promise<{ result: T; action: PairAction | null }> {
+		if (this.pendingAction) return { result: await work(), action: null };
+		
+		const action: PairAction = {
+			id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+			label,
+			source,
+			timestamp: Date.now(),
+			changes: [],
+			notes: [],
+			undone: false
+		};
+		this.pendingAction = action;
+		let logged = false;
+		const result = await this.batchMetadataUpdates(async () => {
+			try {
+				return await work();
+			} finally {
+				// Also log what an action that failed half way did change
+				this.pendingAction = null;
+				action.changes.forEach(change => change.after = snapshotPairState(this.metadataStore.qaPairs[change.pairId]));
+				action.changes = action.changes.filter(change =>
+					(change.before ? change.before.state : QAPairState.NEW) !== (change.after ? change.after.state : QAPairState.NEW));
+				if (action.changes.length > 0 || action.notes.length > 0) {
+					this.metadataStore.actionLog = appendPairAction(this.metadataStore.actionLog, action, ACTION_LOG_LIMIT);
+					logged = true;
+					await this.saveConversationMetadata();
+				}
+			}
+		});
+		return { result, action: logged ? action : null };
+	}
+
+	getPairActionLog(): PairAction[] {
+		return this.metadataStore.actionLog;
+	}
+
+	// Undo the latest action: its notes go to the trash and its pairs get their earlier states back
+	async undoPairAction(): Promise<PairAction | null> {
+		const action = findUndoAction(this.metadataStore.actionLog);
+		if (!action) {
+			new Notice("Nothing to undo");
+			return null;
+		}
+		
+		let redoDropped = false;
+		try {
+			await this.batchMetadataUpdates(async () => {
+				const files = action.notes.map(note => this.app.vault.getAbstractFileByPath(note.record.path));
+				const contents = await Promise.all(files.map(file => file instanceof TFile ? this.app.vault.read(file) : Promise.resolve(null)));
+				// Larger notes are not copied into the metadata store; the action then cannot be redone
+				const keepContent = contents.reduce((total, content) => total + (content ? content.length : 0), 0) <= UNDO_NOTE_TEXT_LIMIT;
+				for (let i = 0; i < action.notes.length; i++) {
+					const file = files[i];
+					if (!(file instanceof TFile)) continue;
+					if (keepContent) action.notes[i].content = contents[i]!;
+					// Unlinked first so the delete handler leaves the pair states to restorePairStates
+					this.forgetSavedNote(action.notes[i].record.path);
+					await this.app.fileManager.trashFile(file);
+				}
+				this.restorePairStates(action, 'before');
+				action.undone = true;
+				if (!keepContent) {
+					// Later undone actions build on this one, so none of them can be redone either
+					this.metadataStore.actionLog = this.metadataStore.actionLog.filter(entry => !entry.undone);
+					redoDropped = true;
+				}
+				await this.saveConversationMetadata();
+			});
+		} catch (error) {
+			console.error('[HISTORY DEBUG] Undo failed:', error);
+			new Notice("Undo failed: " + error.message);
+			return null;
+		}
+		new Notice(redoDropped ?
+			`Undone: ${action.label}\nIts notes are too large to keep, so it cannot be redone (they are in the trash)` :
+			`Undone: ${action.label}`);
+		return action;
+	}
+
+	// Redo the earliest undone action, writing its notes again from the text kept at undo time
+	async redoPairAction(): Promise<PairAction | null> {
+		const action = findRedoAction(this.metadataStore.actionLog);
+		if (!action) {
+			new Notice("Nothing to redo");
+			return null;
+		}
+		
+		try {
+			await this.batchMetadataUpdates(async () => {
+				this.restorePairStates(action, 'after');
+				for (const note of action.notes) {
+					if (note.content === undefined) continue;
+					const path = await this.recreateNote(note.record.path, note.content);
+					note.record = { ...note.record, path, timestamp: Date.now() };
+					delete note.content;
+					await this.recordSavedNote(note.record);
+				}
+				action.undone = false;
+				await this.saveConversationMetadata();
+			});
+		} catch (error) {
+			console.error('[HISTORY DEBUG] Redo failed:', error);
+			new Notice("Redo failed: " + error.message);
+			return null;
+		}
+		new Notice(`Redone: ${action.label}`);
+		return action;
+	}
+
+	private restorePairStates(action: PairAction, side: 'before' | 'after') {
+		action.changes.forEach(change => {
+			const snapshot = change[side];
+			const current = this.metadataStore.qaPairs[change.pairId];
+			if (snapshot) {
+				this.metadataStore.qaPairs[change.pairId] = { ...snapshot, timestamp: Date.now(), notePaths: current?.notePaths };
+			} else if (current && current.notePaths && current.notePaths.length > 0) {
+				// Still linked to a note from elsewhere, so keep the link
+				current.state = QAPairState.NEW;
+				current.timestamp = Date.now();
+			} else {
+				delete this.metadataStore.qaPairs[change.pairId];
+			}
+		});
+		this.savedHashIndex = null;
+	}
+
+	// Write a note back at its old path, or next to it when the path was taken in the meantime
+	private async recreateNote(originalPath: string, content: string): Promise<string> {
+		const slashIndex = originalPath.lastIndexOf('/');
+		const folder = slashIndex >= 0 ? originalPath.substring(0, slashIndex) : '';
+		if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+		const base = originalPath.replace(/\.md$/, '');
+		let path = originalPath;
+		for (let counter = 1; this.app.vault.getAbstractFileByPath(path); counter++) {
+			path = `${base} (${counter}).md`;
+		}
+		await this.app.vault.create(path, content);
+		return path;
+	}
+
+	// Write a pair's note with the default title, folder, tags and template, skipping the save dialog.
+	// Returns the path of the new note.
+	async savePairWithDefaults(conv: ExtractedConversation, pair: QAPair): Promise<string> {
+		const modal = new SaveNoteModal(this.app, this, conv, pair.assistantMessage, pair.userMessage, pair.pairId);
+		return modal.saveNote(modal.getDefaultTitle(), this.settings.defaultFolder, this.settings.defaultTags);
+	}
+
+	// Compare imported conversations with what earlier imports saw and remember them for next time.
+	// Returns the number of previously seen conversations that gained responses.
+	async recordSeenConversations(conversations: ExtractedConversation[]): Promise<number> {
+		const seenConversations = this.metadataStore.seenConversations || (this.metadataStore.seenConversations = {});
+		let updatedCount = 0;
+		
+		conversations.forEach(conv => {
+			const seen = seenConversations[conv.id];
+			if (!seen) {
+				// First import of this conversation: everything is new anyway, nothing to highlight
+				seenConversations[conv.id] = { updateTime: conv.update_time, newResponseIds: [] };
+				return;
+			}
+			if (!(conv.update_time > seen.updateTime)) return;
+			
+			// Responses created after the previous import on any branch; older ones a partial export omitted are not news
+			const added: string[] = [];
+			const branches = conv.branches && conv.branches.length > 0 ? conv.branches : [{ messages: conv.messages }];
+			branches.forEach(branch => branch.messages.forEach(msg => {
+				if (msg.role === 'assistant' && msg.timestamp > seen.updateTime &&
+					added.indexOf(msg.id) === -1 && seen.newResponseIds.indexOf(msg.id) === -1) {
+					added.push(msg.id);
+				}
+			}));
+			if (added.length > 0) {
+				seen.newResponseIds = seen.newResponseIds.concat(added);
+				updatedCount++;
+			}
+			seen.updateTime = conv.update_time;
+		});
+		
+		await this.saveConversationMetadata();
+		return updatedCount;
+	}
+
+	// Remember how a note was written and link it to its pairs
+	async recordSavedNote(record: SavedNoteRecord): Promise<void> {
+		const savedNotes = this.metadataStore.savedNotes || (this.metadataStore.savedNotes = {});
+		savedNotes[record.path] = record;
+		if (this.pendingAction) {
+			this.pendingAction.notes.push({ record: { ...record } });
+		}
+		record.pairIds.forEach(pairId => {
+			const pair = this.metadataStore.qaPairs[pairId];
+			if (!pair) return;
+			const notePaths = pair.notePaths || (pair.notePaths = []);
+			if (notePaths.indexOf(record.path) === -1) notePaths.push(record.path);
+		});
+		await this.saveConversationMetadata();
+	}
+
+	// Existing note written from this pair, most recent first
+	getSavedNoteFile(pairId: string): TFile | null {
+		const notePaths = this.metadataStore.qaPairs[pairId]?.notePaths || [];
+		for (let i = notePaths.length - 1; i >= 0; i--) {
+			const file = this.app.vault.getAbstractFileByPath(notePaths[i]);
+			if (file instanceof TFile) return file;
+		}
+		return null;
+	}
+
+	// Saved note paths affected by a vault change: the path itself, or everything inside a folder
+	private getAffectedNotePaths(path: string, isFolder: boolean): string[] {
+		return Object.keys(this.metadataStore.savedNotes || {})
+			.filter(notePath => isFolder ? notePath.startsWith(path + '/') : notePath === path);
+	}
+
+	async handleNoteRenamed(oldPath: string, newPath: string, isFolder: boolean): Promise<void> {
+		const savedNotes = this.metadataStore.savedNotes;
+		const affected = this.getAffectedNotePaths(oldPath, isFolder);
+		if (!savedNotes || affected.length === 0) return;
+		
+		affected.forEach(notePath => {
+			const renamedPath = isFolder ? newPath + notePath.substring(oldPath.length) : newPath;
+			// Undo moves notes to the trash by path
+			this.metadataStore.actionLog.forEach(action => action.notes.forEach(note => {
+				if (note.record.path === notePath) note.record = { ...note.record, path: renamedPath };
+			}));
+			const record = savedNotes[notePath];
+			delete savedNotes[notePath];
+			savedNotes[renamedPath] = { ...record, path: renamedPath };
+			record.pairIds.forEach(pairId => {
+				const pair = this.metadataStore.qaPairs[pairId];
+				if (pair && pair.notePaths) {
+					pair.notePaths = pair.notePaths.map(path => path === notePath ? renamedPath : path);
+				}
+			});
+		});
+		console.log('[METADATA DEBUG] Tracked renamed notes:', affected.length);
+		await this.saveConversationMetadata();
+	}
+
+	// Forget deleted notes; pairs left without a note go back to NEW when the setting is on
+	async handleNoteDeleted(path: string, isFolder: boolean): Promise<void> {
+		const savedNotes = this.metadataStore.savedNotes;
+		const affected = this.getAffectedNotePaths(path, isFolder);
+		if (!savedNotes || affected.length === 0) return;
+		
+		const orphaned: QAPairMetadata[] = [];
+		affected.forEach(notePath => this.forgetSavedNote(notePath).forEach(pair => {
+			if (this.settings.revertDeletedNotes && pair.state === QAPairState.SAVED) orphaned.push(pair);
+		}));
+		const reverted = orphaned.length;
+		console.log('[METADATA DEBUG] Tracked deleted notes:', { notes: affected.length, reverted });
+		if (reverted === 0) {
+			await this.saveConversationMetadata();
+			return;
+		}
+		
+		// Reverting is an action like any other, so it can be undone if the note comes back
+		await this.recordPairAction(describeStateChange(QAPairState.NEW, reverted), 'Vault', async () => {
+			for (const pair of orphaned) {
+				await this.writeQAPairState(pair.pairId, QAPairState.NEW, pair.conversationId, pair);
+			}
+		});
+		new Notice(`${reverted} Q&A pair${reverted === 1 ? '' : 's'} reset to new because ${affected.length === 1 ? 'its note was' : 'their notes were'} deleted`);
+	}
+
+	// Drop a saved note's record and its links; returns the pairs it leaves without any note
+	private forgetSavedNote(notePath: string): QAPairMetadata[] {
+		const savedNotes = this.metadataStore.savedNotes;
+		const record = savedNotes?.[notePath];
+		if (!savedNotes || !record) return [];
+		delete savedNotes[notePath];
+		
+		const orphaned: QAPairMetadata[] = [];
+		record.pairIds.forEach(pairId => {
+			const pair = this.metadataStore.qaPairs[pairId];
+			if (!pair || !pair.notePaths || pair.notePaths.indexOf(notePath) === -1) return;
+			pair.notePaths = pair.notePaths.filter(path => path !== notePath);
+			if (pair.notePaths.length === 0) orphaned.push(pair);
+		});
+		return orphaned;
+	}
+
+	// Re-render the saved notes of the loaded conversations and collect those whose source text or template changed
+	async findSavedNoteUpdates(conversations: ExtractedConversation[]): Promise<{ updates: SavedNoteUpdate[]; missing: number; skipped: number; withoutImages: number }> {
+		const updates: SavedNoteUpdate[] = [];
+		let missing = 0;
+		let skipped = 0;
+		let withoutImages = 0; // Notes left alone because their images cannot be embedded without the export .zip
+		const conversationsById = new Map(conversations.map(conv => [conv.id, conv] as [string, ExtractedConversation]));
+		const records = Object.values(this.metadataStore.savedNotes || {});
+		
+		for (const record of records) {
+			const conv = conversationsById.get(record.conversationId);
+			if (!conv) continue;
+			const file = this.app.vault.getAbstractFileByPath(record.path);
+			if (!(file instanceof TFile)) {
+				missing++;
+				continue;
 			}
 			
-			const data = JSON.parse(content);
-			console.log('[METADATA DEBUG] Parsed metadata JSON successfully');
+			// Pairs may come from any branch; render them against the branch they belong to
+			const branches = conv.branches && conv.branches.length > 0 ? conv.branches.map(branch => branch.messages) : [conv.messages];
+			const pairsById = new Map<string, { pair: QAPair; conversation: ExtractedConversation }>();
+			branches.forEach(messages => {
+				const branchConversation = { ...conv, messages };
+				this.getQAPairs(branchConversation).forEach(pair => {
+					if (!pairsById.has(pair.pairId)) pairsById.set(pair.pairId, { pair, conversation: branchConversation });
+				});
+			});
 			
-			// Check if it's old format (conversations) or new format (qaPairs)
-			if (data.conversations) {
-				// Migrate from old conversation-level format to Q&A pair format
-				console.log('[METADATA DEBUG] Migrating metadata from conversation-level to Q&A pair-level format');
-				this.metadataStore = { qaPairs: {}, lastUpdated: Date.now() };
-			} else if (data.qaPairs) {
-				// New format
-				this.metadataStore = data;
-				console.log('[METADATA DEBUG] Loaded Q&A pair metadata:', Object.keys(this.metadataStore.qaPairs).length, 'pairs');
-				console.log('[METADATA DEBUG] Sample pair IDs:', Object.keys(this.metadataStore.qaPairs).slice(0, 3));
+			let modal: SaveNoteModal;
+			let pairs: QAPair[];
+			if (record.kind === 'conversation') {
+				pairs = record.pairIds.map(id => pairsById.get(id)).filter(found => found).map(found => found!.pair);
+				if (pairs.length === 0) continue;
+				modal = new SaveConversationModal(this.app, this, conv, undefined, pairs);
 			} else {
-				// Unknown format, start fresh
-				console.log('[METADATA DEBUG] Unknown metadata format, starting fresh');
-				this.metadataStore = { qaPairs: {}, lastUpdated: Date.now() };
+				const found = pairsById.get(record.pairIds[0]);
+				if (!found) continue;
+				pairs = [found.pair];
+				modal = new SaveNoteModal(this.app, this, found.conversation, found.pair.assistantMessage, found.pair.userMessage, found.pair.pairId);
 			}
-		} catch (error) {
-			console.error('[METADATA DEBUG] Error loading Q&A pair metadata:', error);
-			// Reset to empty store on error
-			this.metadataStore = { qaPairs: {}, lastUpdated: Date.now() };
+			
+			// Re-rendering would replace working embeds with "missing image" callouts
+			if (!this.exportArchive && pairs.some(pair =>
+				this.hasUnavailableAttachments(pair.assistantMessage.content) ||
+				(!!pair.userMessage && this.hasUnavailableAttachments(pair.userMessage.content)))) {
+				withoutImages++;
+				continue;
+			}
+			
+			const newGenerated = await modal.renderSavedNote(record);
+			if (hashContent(newGenerated) === record.contentHash) continue;
+			
+			const content = await this.app.vault.read(file);
+			let parts = splitNoteAtMarker(content);
+			if (!parts && hashContent(content.trimEnd()) === record.contentHash) {
+				// Marker removed but the note was never edited: all of it is generated
+				parts = { generated: content.trimEnd(), userContent: '' };
+			}
+			if (!parts) {
+				skipped++;
+				continue;
+			}
+			if (parts.generated === newGenerated) continue;
+			updates.push({ record, file, modal, oldGenerated: parts.generated, newGenerated, userContent: parts.userContent });
 		}
+		
+		return { updates, missing, skipped, withoutImages };
 	}
 
-	private async saveConversationMetadata(): Promise<void> {
-		try {
-			this.metadataStore.lastUpdated = Date.now();
-			const content = JSON.stringify(this.metadataStore, null, 2);
-			console.log('[METADATA DEBUG] Saving metadata:', { 
-				fileName: this.METADATA_FILE_NAME, 
-				pairCount: Object.keys(this.metadataStore.qaPairs).length,
-				contentLength: content.length
-			});
-			
-			// Try to read the existing file first to see if it exists
-			let fileExists = false;
-			try {
-				await this.app.vault.adapter.read(this.METADATA_FILE_NAME);
-				fileExists = true;
-				console.log('[METADATA DEBUG] File exists (detected via read)');
-			} catch (readError) {
-				console.log('[METADATA DEBUG] File does not exist (read failed)');
-			}
-			
-			if (fileExists) {
-				// File exists, write directly using adapter
-				console.log('[METADATA DEBUG] Writing to existing file via adapter');
-				await this.app.vault.adapter.write(this.METADATA_FILE_NAME, content);
-				console.log('[METADATA DEBUG] File written successfully via adapter');
-			} else {
-				// File doesn't exist, try to create it
-				console.log('[METADATA DEBUG] Creating new file');
+	// Write regenerated notes, keeping the text below the marker
+	async applySavedNoteUpdates(updates: SavedNoteUpdate[]): Promise<number> {
+		let updated = 0;
+		await this.batchMetadataUpdates(async () => {
+			for (const update of updates) {
 				try {
-					await this.app.vault.create(this.METADATA_FILE_NAME, content);
-					console.log('[METADATA DEBUG] File created successfully');
-				} catch (createError) {
-					console.log('[METADATA DEBUG] Create failed, trying direct write via adapter:', createError.message);
-					// Fallback: write directly via adapter
-					try {
-						await this.app.vault.adapter.write(this.METADATA_FILE_NAME, content);
-						console.log('[METADATA DEBUG] Fallback write via adapter successful');
-					} catch (writeError) {
-						console.error('[METADATA DEBUG] All write attempts failed');
-						throw createError;
-					}
+					await update.modal.copyNoteAttachments();
+					await this.app.vault.modify(update.file, buildNoteFileContent(update.newGenerated, update.userContent));
+					await this.recordSavedNote({
+						...update.record,
+						contentHash: hashContent(update.newGenerated),
+						timestamp: Date.now()
+					});
+					updated++;
+				} catch (error) {
+					console.error('[SAVE DEBUG] Failed to update saved note:', update.record.path, error);
 				}
 			}
-		} catch (error) {
-			console.error('[METADATA DEBUG] Error saving Q&A pair metadata:', error);
-			throw error;
-		}
-	}
-
-	// Q&A pair management methods
-	private generateQAPairHash(userPrompt: string, response: string): string {
-		// Create a simple hash from Q&A content for deduplication
-		const content = JSON.stringify({
-			userPrompt: userPrompt.substring(0, 200),
-			response: response.substring(0, 200)
 		});
-		
-		// Simple hash function (for basic deduplication)
-		let hash = 0;
-		for (let i = 0; i < content.length; i++) {
-			const char = content.charCodeAt(i);
-			hash = ((hash << 5) - hash) + char;
-			hash = hash & hash; // Convert to 32bit integer
-		}
-		return Math.abs(hash).toString(36);
-	}
-
-	generateQAPairId(conversationId: string, userMsgId: string, assistantMsgId: string): string {
-		return `${conversationId}_${userMsgId}_${assistantMsgId}`;
+		return updated;
 	}
 
-	getQAPairState(pairId: string): QAPairState {
-		const metadata = this.metadataStore.qaPairs[pairId];
-		return metadata ? metadata.state : QAPairState.NEW;
+	// Responses added since the previous import that have not been saved or ignored yet
+	getNewResponseIds(conversationId: string): string[] {
+		const seen = this.metadataStore.seenConversations?.[conversationId];
+		return seen ? seen.newResponseIds : [];
 	}
 
-	async updateQAPairState(pairId: string, state: QAPairState, conversationId: string, userPrompt: string, response: string): Promise<void> {
-		const hash = this.generateQAPairHash(userPrompt, response);
-		
-		this.metadataStore.qaPairs[pairId] = {
-			pairId,
-			pairHash: hash,
-			conversationId,
-			state,
-			timestamp: Date.now(),
-			userPrompt: userPrompt.substring(0, 100),
-			responsePreview: response.substring(0, 100)
-		};
-		
+	async markResponsesSeen(conversationId: string): Promise<void> {
+		const seen = this.metadataStore.seenConversations?.[conversationId];
+		if (!seen || seen.newResponseIds.length === 0) return;
+		seen.newResponseIds = [];
 		await this.saveConversationMetadata();
 	}
 
 	// Get conversation processing status based on its Q&A pairs
-	getConversationProcessingStatus(conversationId: string, totalAssistantMessages?: number): ConversationProcessingStatus {
-		const pairs = Object.values(this.metadataStore.qaPairs)
-			.filter(pair => pair.conversationId === conversationId);
-		
-		// If we don't know the total, we can't determine the status accurately
-		if (totalAssistantMessages === undefined) {
-			if (pairs.length === 0) {
-				return ConversationProcessingStatus.UNPROCESSED;
-			}
-			const newCount = pairs.filter(p => p.state === QAPairState.NEW).length;
-			return newCount === 0 ? ConversationProcessingStatus.PROCESSED : ConversationProcessingStatus.PARTIAL;
-		}
+	// Status of the branch shown for the conversation; pairs of other branches are left out of the count
+	getConversationProcessingStatus(conv: ExtractedConversation): ConversationProcessingStatus {
+		const states = this.getQAPairs(conv).map(pair => this.getQAPairState(pair.pairId));
+		const newPairs = states.filter(state => state === QAPairState.NEW).length;
 		
-		// We know the total assistant messages, so we can be accurate
-		const processedPairs = pairs.filter(p => p.state !== QAPairState.NEW).length;
-		const newPairs = pairs.filter(p => p.state === QAPairState.NEW).length;
-		const unprocessedPairs = totalAssistantMessages - pairs.length; // Pairs not in metadata yet are NEW
-		
-		const totalNewPairs = newPairs + unprocessedPairs;
-		
-		if (totalNewPairs === 0) {
+		if (newPairs === 0) {
 			return ConversationProcessingStatus.PROCESSED;
-		} else if (processedPairs > 0) {
+		} else if (newPairs < states.length) {
 			return ConversationProcessingStatus.PARTIAL;
 		} else {
 			return ConversationProcessingStatus.UNPROCESSED;
@@ -354,37 +2766,126 @@ export default class ChatGPTToObsidianPlugin extends Plugin {
 	}
 }
 
-class ChatGPTImportModal extends Modal {
+// Vault path for a conversations export: "chatgpt-conversations-<date>.json", numbered when taken
+function getExportFilePath(folder: string, date: Date, exists: (path: string) => boolean): string {
+	const base = `${folder ? folder + '/' : ''}chatgpt-conversations-${date.toISOString().split('T')[0]}`;
+	let path = `${base}.json`;
+	for (let counter = 1; exists(path); counter++) {
+		path = `${base} (${counter}).json`;
+	}
+	return path;
+}
+
+// Id `step` places away from the current one, kept within the list; the first id when the current one is gone
+function stepTriageCursor(ids: string[], currentId: string | null, step: number): string | null {
+	if (ids.length === 0) return null;
+	const index = currentId ? ids.indexOf(currentId) : -1;
+	if (index === -1) return ids[0];
+	return ids[Math.min(Math.max(index + step, 0), ids.length - 1)];
+}
+
+// What each triage key does, in the order the triage bar and the settings list them
+const TRIAGE_KEY_LABELS: Array<[keyof TriageKeys, string]> = [
+	['save', 'save'],
+	['ignore', 'ignore'],
+	['undo', 'undo'],
+	['nextPair', 'next pair'],
+	['previousPair', 'previous pair'],
+	['nextConversation', 'next conversation'],
+	['previousConversation', 'previous conversation']
+];
+
+// Triage action bound to a pressed key, if any; keys are matched case-insensitively
+function findTriageKeyAction(keys: TriageKeys, key: string): keyof TriageKeys | null {
+	const pressed = key.toLowerCase();
+	const match = TRIAGE_KEY_LABELS.find(([name]) => keys[name] !== '' && keys[name] === pressed);
+	return match ? match[0] : null;
+}
+
+// Next conversation in the listed order (indices into the loaded conversations) in the direction of step
+// that still has new pairs; null at the end of the list. A conversation hidden by the filters starts from the list's edge.
+function stepTriageConversation(order: number[], currentIndex: number, step: number, hasNewPairs: (index: number) => boolean): number | null {
+	const position = order.indexOf(currentIndex);
+	const start = position !== -1 ? position : (step > 0 ? -1 : order.length);
+	for (let i = start + step; i >= 0 && i < order.length; i += step) {
+		if (hasNewPairs(order[i])) return order[i];
+	}
+	return null;
+}
+
+// The importer UI: hosted by the import modal, or split into two panes by the library view
+class ConversationBrowser {
+	app: App;
 	plugin: ChatGPTToObsidianPlugin;
+	contentEl: HTMLElement;
+	// 'split' keeps the table of contents next to the open conversation
+	layout: 'single' | 'split';
+	private closeHost: (() => void) | null;
+	// Called after every render so a host can persist where the browser is
+	onNavigate: (() => void) | null = null;
+	private conversationsEl: HTMLElement | null = null;
+	private showLoadedExport: (loaded: LoadedExport) => void = () => {};
+	// Where to reopen; the import settings are used when the host has no state of its own
+	initialViewState: ImportViewState | null = null;
 	conversations: any[] = [];
 	currentConversationIndex: number = 0;
 	viewMode: 'toc' | 'conversation' = 'toc';
-	// Filter settings for TOC (conversation-level)
-	showNew: boolean = true;
-	showPartiallyProcessed: boolean = true;
-	showFullyProcessed: boolean = false;
+	// Whether the date/model/length filter panel is expanded (the filters themselves live in settings)
+	private moreFiltersOpen: boolean = false;
 	// Filter settings for single conversation Q&A pairs
 	showNewPairs: boolean = true;
 	showIgnoredPairs: boolean = false;
+	showDuplicatePairs: boolean = true; // New pairs whose content was already saved elsewhere
 	showSavedPairs: boolean = false;
+	// Multi-select state for the table of contents
+	selectedConversationIds: Set<string> = new Set();
+	// Full-text search across all loaded conversations
+	searchQuery: string = '';
+	private focusMessageId: string | null = null; // Pair to scroll to after jumping from a search result
+	private tocScrollTop: number = 0; // Kept across re-renders, going back from a conversation and reopening
+	private readonly SEARCH_RESULT_LIMIT = 100;
+	// Multi-select state for the Q&A pair list (cleared when switching conversations)
+	selectedPairIds: Set<string> = new Set();
+	private selectionConversationId: string | null = null;
+	// Keyboard triage: one pair at a time
+	triageMode: boolean = false;
+	private triageMessageId: string | null = null; // Assistant message id of the pair in focus
+	private triageBusy: boolean = false;
+	// Streaming load state
+	isLoading: boolean = false;
+	private loadAbortController: AbortController | null = null;
+	private markdownComponent: Component = new Component();
+	private readonly LOADING_RENDER_INTERVAL = 1000;
 
-	constructor(app: App, plugin: ChatGPTToObsidianPlugin) {
-		super(app);
+	constructor(app: App, plugin: ChatGPTToObsidianPlugin, contentEl: HTMLElement, layout: 'single' | 'split', closeHost: (() => void) | null = null) {
+		this.app = app;
 		this.plugin = plugin;
+		this.contentEl = contentEl;
+		this.layout = layout;
+		this.closeHost = closeHost;
 	}
 
-	onOpen() {
+	open() {
 		const {contentEl} = this;
 
-		contentEl.createEl("h1", {text: "Import ChatGPT Conversations"});
+		if (this.layout === 'single') {
+			contentEl.createEl("h1", {text: "Import ChatGPT Conversations"});
+		}
+
+		// The export already loaded (this session or from the cache), with the option to load a newer one
+		const loadedInfo = contentEl.createDiv("loaded-export-info");
+		loadedInfo.style.cssText = "display: none; align-items: center; gap: 10px; margin-bottom: 15px; padding: 8px 12px; background: var(--background-secondary); border-radius: 6px; font-size: 0.9em;";
+		const loadedText = loadedInfo.createDiv();
+		loadedText.style.cssText = "flex: 1; color: var(--text-muted);";
+		const replaceButton = loadedInfo.createEl("button", {text: "🔄 Replace with newer export"});
 
 		// File input section
 		const fileSection = contentEl.createDiv("file-section");
-		fileSection.createEl("h3", {text: "Select conversations.json file"});
+		fileSection.createEl("h3", {text: "Select the ChatGPT export .zip or conversations.json"});
 		
 		const fileInput = fileSection.createEl("input", {
 			type: "file",
-			attr: { accept: ".json" }
+			attr: { accept: ".zip,.json" }
 		});
 
 		const loadButton = fileSection.createEl("button", {
@@ -395,45 +2896,360 @@ class ChatGPTImportModal extends Modal {
 		// Conversations display section
 		const conversationsDiv = contentEl.createDiv("conversations-section");
 		conversationsDiv.style.display = "none";
+		this.conversationsEl = conversationsDiv;
+
+		// Progress display while a large export is being streamed
+		const progressDiv = fileSection.createDiv("load-progress");
+		progressDiv.style.cssText = "display: none; margin-top: 10px;";
+		const progressBar = progressDiv.createEl("progress");
+		progressBar.style.cssText = "width: 100%;";
+		progressBar.max = 100;
+		progressBar.value = 0;
+		const progressText = progressDiv.createDiv();
+		progressText.style.cssText = "color: var(--text-muted); font-size: 0.9em; margin-top: 4px;";
+
+		const showLoadedExport = this.showLoadedExport = (loaded: LoadedExport) => {
+			const count = loaded.conversations.length;
+			loadedText.textContent = `📦 ${loaded.sourceName} • ${count} conversation${count === 1 ? '' : 's'} • loaded ${new Date(loaded.loadedAt).toLocaleString()}`;
+			if (loaded.fromCache) {
+				loadedText.textContent += " • images need the .zip, replace to copy them";
+			}
+			loadedInfo.style.display = "flex";
+			fileSection.style.display = "none";
+		};
+		replaceButton.onclick = () => {
+			fileSection.style.display = fileSection.style.display === "none" ? "block" : "none";
+		};
 
-		loadButton.onclick = () => {
+		loadButton.onclick = async () => {
 			const file = fileInput.files?.[0];
 			if (!file) {
-				new Notice("Please select a conversations.json file");
+				new Notice("Please select a ChatGPT export .zip or conversations.json file");
 				return;
 			}
 
-			const reader = new FileReader();
-			reader.onload = (e) => {
-				try {
-					const content = e.target?.result as string;
-					const rawConversations = this.plugin.parseChatGPTData(content);
-					this.conversations = this.plugin.extractConversations(rawConversations);
-					
-					this.displayConversations(conversationsDiv);
-					conversationsDiv.style.display = "block";
-					
-					new Notice(`Loaded ${this.conversations.length} conversations`);
-				} catch (error) {
+			this.loadAbortController?.abort();
+			const abortController = new AbortController();
+			this.loadAbortController = abortController;
+
+			// Stay on the same conversation when replacing an export with a newer one
+			const currentConversationId = this.conversations.length > 0 && this.viewMode === 'conversation' ?
+				this.conversations[this.currentConversationIndex].id : null;
+			const previousArchive = this.plugin.exportArchive;
+			this.conversations = [];
+			this.currentConversationIndex = 0;
+			this.viewMode = 'toc';
+			this.isLoading = true;
+			loadButton.disabled = true;
+			progressDiv.style.display = "block";
+			progressBar.value = 0;
+			progressText.textContent = "Reading file...";
+
+			let lastRender = 0;
+			try {
+				// Zip exports are read in place; conversations.json is streamed out of the archive
+				let stream: ReadableStream<Uint8Array>;
+				let totalBytes: number;
+				this.plugin.exportArchive = null;
+				if (await ExportArchive.isZip(file)) {
+					const archive = await ExportArchive.open(file);
+					const conversationsEntry = archive.getConversationsEntry();
+					if (!conversationsEntry) {
+						throw new Error("conversations.json was not found in the export archive");
+					}
+					this.plugin.exportArchive = archive;
+					stream = await archive.openEntryStream(conversationsEntry);
+					totalBytes = conversationsEntry.uncompressedSize;
+				} else {
+					stream = file.stream();
+					totalBytes = file.size;
+				}
+
+				const count = await this.plugin.streamChatGPTData(
+					stream,
+					totalBytes,
+					(batch) => {
+						this.conversations.push(...this.plugin.extractConversations(batch));
+						
+						// Start rendering the TOC as soon as the first conversations arrive
+						const now = Date.now();
+						if (now - lastRender >= this.LOADING_RENDER_INTERVAL) {
+							lastRender = now;
+							this.refreshWhileLoading(conversationsDiv);
+						}
+					},
+					(loadedBytes, totalBytes) => {
+						const percent = totalBytes > 0 ? Math.round((loadedBytes / totalBytes) * 100) : 100;
+						progressBar.value = percent;
+						progressText.textContent = `Loading... ${percent}% • ${this.conversations.length} conversations`;
+					},
+					abortController.signal
+				);
+
+				// Compare with earlier imports before the first full render so new turns are flagged
+				await this.plugin.migrateFoldedPairIds(this.conversations);
+				await this.plugin.migrateLegacyConversations(this.conversations);
+				const updatedCount = await this.plugin.recordSeenConversations(this.conversations);
+				const duplicateCount = await this.plugin.indexPairHashes(this.conversations);
+				
+				const loaded: LoadedExport = {
+					sourceName: file.name,
+					sourceSize: file.size,
+					loadedAt: Date.now(),
+					conversations: this.conversations,
+					fromCache: false
+				};
+				this.plugin.loadedExport = loaded;
+				this.plugin.refreshLibraryViews(this);
+
+				this.isLoading = false;
+				progressDiv.style.display = "none";
+				const restoredIndex = currentConversationId ? this.conversations.findIndex(conv => conv.id === currentConversationId) : -1;
+				if (restoredIndex >= 0) {
+					this.currentConversationIndex = restoredIndex;
+					this.viewMode = 'conversation';
+				}
+				conversationsDiv.style.display = "block";
+				this.displayConversations(conversationsDiv);
+				showLoadedExport(loaded);
+				
+				// Cache after the first render; large exports take a moment to serialize
+				window.setTimeout(() => {
+					this.plugin.saveExportCache(loaded).catch(error => {
+						console.error('[CACHE DEBUG] Could not save export cache:', error);
+						new Notice("Could not cache the export, it will need to be imported again next time: " + error.message);
+					});
+				}, 0);
+				
+				const attachmentCount = this.plugin.exportArchive ? this.plugin.exportArchive.getAttachmentEntries().length : 0;
+				let message = attachmentCount > 0 ?
+					`Loaded ${count} conversations (${attachmentCount} attachments in archive)` :
+					`Loaded ${count} conversations`;
+				if (updatedCount > 0) {
+					message += `\n✨ ${updatedCount} conversation${updatedCount === 1 ? ' has' : 's have'} new turns since the last import`;
+				}
+				if (duplicateCount > 0) {
+					message += `\n♻️ ${duplicateCount} new Q&A pair${duplicateCount === 1 ? ' duplicates' : 's duplicate'} content you already saved`;
+				}
+				new Notice(message);
+			} catch (error) {
+				this.isLoading = false;
+				if (!abortController.signal.aborted) {
+					progressText.textContent = "Loading failed";
 					new Notice("Error loading ChatGPT data: " + error.message);
+					// Keep showing the export that was loaded before
+					if (this.plugin.loadedExport) {
+						this.plugin.exportArchive = previousArchive;
+						this.conversations = this.plugin.loadedExport.conversations;
+						this.displayConversations(conversationsDiv);
+					}
 				}
-			};
-			reader.readAsText(file);
+			} finally {
+				loadButton.disabled = false;
+			}
+		};
+
+		// Reopen where the importer was left: the export of this session, or the cached one after a restart
+		const restoreLoadedExport = async () => {
+			let loaded = this.plugin.loadedExport;
+			if (!loaded && this.plugin.settings.cacheLoadedExport) {
+				progressDiv.style.display = "block";
+				progressBar.removeAttribute("value");
+				progressText.textContent = "Restoring the last loaded export...";
+				loaded = await this.plugin.loadExportCache();
+				progressDiv.style.display = "none";
+				if (loaded && !this.plugin.loadedExport) {
+					this.plugin.loadedExport = loaded;
+				}
+			}
+			// A load started in the meantime wins
+			if (!loaded || this.isLoading || this.conversations.length > 0) return;
+			
+			this.conversations = loaded.conversations;
+			this.applyViewState(this.initialViewState || this.plugin.settings.importViewState);
+			conversationsDiv.style.display = "block";
+			this.displayConversations(conversationsDiv);
+			showLoadedExport(loaded);
+		};
+		restoreLoadedExport().catch(error => console.error('[CACHE DEBUG] Could not restore the loaded export:', error));
+	}
+
+	// Show the export loaded in another importer, staying on the current conversation if it is still there
+	showPluginExport() {
+		const loaded = this.plugin.loadedExport;
+		if (!loaded || this.isLoading || !this.conversationsEl) return;
+
+		if (loaded.conversations !== this.conversations) {
+			const state = this.getViewState();
+			this.selectedConversationIds.clear();
+			this.conversations = loaded.conversations;
+			this.applyViewState(state);
+		}
+		this.conversationsEl.style.display = "block";
+		this.displayConversations(this.conversationsEl);
+		this.showLoadedExport(loaded);
+	}
+
+	// Restore conversation, filters, search and scroll position saved when the importer last closed
+	applyViewState(state: ImportViewState) {
+		const index = state.conversationId ? this.conversations.findIndex(conv => conv.id === state.conversationId) : -1;
+		this.currentConversationIndex = Math.max(index, 0);
+		this.viewMode = state.viewMode === 'conversation' && index >= 0 ? 'conversation' : 'toc';
+		this.searchQuery = state.searchQuery;
+		this.tocScrollTop = state.tocScrollTop;
+		this.showNewPairs = state.showNewPairs;
+		this.showIgnoredPairs = state.showIgnoredPairs;
+		this.showSavedPairs = state.showSavedPairs;
+		this.showDuplicatePairs = state.showDuplicatePairs;
+	}
+
+	// Null until an export is shown, so an empty importer never overwrites the saved position
+	getViewState(): ImportViewState | null {
+		if (this.conversations.length === 0 || this.isLoading) return null;
+		const conv = this.conversations[this.currentConversationIndex];
+		return {
+			viewMode: this.viewMode,
+			conversationId: conv ? conv.id : null,
+			tocScrollTop: this.tocScrollTop,
+			searchQuery: this.searchQuery,
+			showNewPairs: this.showNewPairs,
+			showIgnoredPairs: this.showIgnoredPairs,
+			showSavedPairs: this.showSavedPairs,
+			showDuplicatePairs: this.showDuplicatePairs
 		};
 	}
 
+	// Re-render the TOC during a streaming load without losing the list's scroll position
+	refreshWhileLoading(container: HTMLElement) {
+		if (this.viewMode !== 'toc' && this.layout !== 'split') return;
+		
+		const tocList = container.querySelector(".toc-list");
+		const scrollTop = tocList ? tocList.scrollTop : 0;
+		
+		this.displayConversations(container);
+		container.style.display = "block";
+		
+		const newTocList = container.querySelector(".toc-list");
+		if (newTocList) {
+			newTocList.scrollTop = scrollTop;
+		}
+	}
+
 	displayConversations(container: HTMLElement) {
-		container.empty();
+		// Rendered Markdown (embeds, code blocks, math) lives as long as the view it was rendered into
+		this.markdownComponent.unload();
+		this.markdownComponent = new Component();
+		this.markdownComponent.load();
+		
+		if (this.layout === 'split' && this.conversationsEl) {
+			this.displaySplitPanes(this.conversationsEl);
+		} else {
+			container.empty();
+			this.displayHistoryBar(container);
+			if (this.viewMode === 'toc') {
+				this.displayTableOfContents(container);
+			} else {
+				this.displaySingleConversation(container);
+			}
+		}
+		this.onNavigate?.();
+	}
+
+	// Undo and redo for pair state changes, with the full history a click away
+	private displayHistoryBar(container: HTMLElement) {
+		const log = this.plugin.getPairActionLog();
+		const undoAction = findUndoAction(log);
+		const redoAction = findRedoAction(log);
+		
+		const historyBar = container.createDiv("history-bar");
+		historyBar.style.cssText = "display: flex; justify-content: flex-end; gap: 6px; margin-bottom: 8px; font-size: 0.85em;";
+		const undoButton = historyBar.createEl("button", {
+			text: "↶ Undo",
+			attr: { title: undoAction ? `Undo: ${undoAction.label}` : "Nothing to undo" }
+		});
+		undoButton.disabled = !undoAction || this.isLoading;
+		undoButton.onclick = () => this.stepPairHistory('undo');
+		const redoButton = historyBar.createEl("button", {
+			text: "↷ Redo",
+			attr: { title: redoAction ? `Redo: ${redoAction.label}` : "Nothing to redo" }
+		});
+		redoButton.disabled = !redoAction || this.isLoading;
+		redoButton.onclick = () => this.stepPairHistory('redo');
+		const historyButton = historyBar.createEl("button", {text: "🕘 History"});
+		historyButton.disabled = log.length === 0;
+		historyButton.onclick = () => new PairHistoryModal(this.app, this.plugin).open();
+	}
+
+	// Both panes are redrawn together, whichever of them asked, so states and the selection stay in sync
+	private displaySplitPanes(root: HTMLElement) {
+		root.empty();
+		this.displayHistoryBar(root);
+		const panes = root.createDiv("library-panes");
+		panes.style.cssText = "display: flex; gap: 12px; align-items: flex-start;";
+		
+		const tocPane = panes.createDiv("library-toc-pane");
+		tocPane.style.cssText = "flex: 0 0 38%; min-width: 260px;";
+		this.displayTableOfContents(tocPane);
 		
-		if (this.viewMode === 'toc') {
-			this.displayTableOfContents(container);
+		const conversationPane = panes.createDiv("library-conversation-pane");
+		conversationPane.style.cssText = "flex: 1; min-width: 0;";
+		if (this.viewMode === 'conversation' && this.conversations[this.currentConversationIndex]) {
+			this.displaySingleConversation(conversationPane);
 		} else {
-			this.displaySingleConversation(container);
+			const placeholder = conversationPane.createDiv("empty-message");
+			placeholder.style.cssText = "padding: 40px 20px; text-align: center; color: var(--text-muted);";
+			placeholder.textContent = this.conversations.length > 0 ? "Select a conversation to view it here." : "";
 		}
 	}
 
 	displayTableOfContents(container: HTMLElement) {
-		container.createEl("h3", {text: "Select a conversation to view"});
+		const headerRow = container.createDiv();
+		headerRow.style.cssText = "display: flex; align-items: center; justify-content: space-between; gap: 10px;";
+		headerRow.createEl("h3", {text: "Select a conversation to view"});
+		const updateNotesButton = headerRow.createEl("button", {
+			text: "🔄 Update saved notes",
+			attr: { title: "Re-render notes whose conversation or template changed since they were saved" }
+		});
+		updateNotesButton.disabled = this.isLoading;
+		updateNotesButton.onclick = () => this.checkSavedNoteUpdates(container, updateNotesButton);
+		
+		// Search box (re-renders the whole view, so focus and caret are restored afterwards)
+		const searchInput = container.createEl("input", {
+			type: "search",
+			cls: "toc-search-input",
+			attr: {
+				placeholder: "🔎 Search titles, prompts and responses...",
+				style: "width: 100%; margin-bottom: 12px; padding: 8px;"
+			}
+		});
+		searchInput.value = this.searchQuery;
+		let searchTimer: number | null = null;
+		const runSearch = () => {
+			this.searchQuery = searchInput.value;
+			this.displayConversations(container);
+			const newInput = this.contentEl.querySelector(".toc-search-input") as HTMLInputElement | null;
+			if (newInput) {
+				newInput.focus();
+				newInput.setSelectionRange(newInput.value.length, newInput.value.length);
+			}
+		};
+		searchInput.oninput = () => {
+			if (searchTimer !== null) window.clearTimeout(searchTimer);
+			searchTimer = window.setTimeout(runSearch, 250);
+		};
+		searchInput.onkeydown = (e) => {
+			if (e.key === 'Escape' && searchInput.value) {
+				e.preventDefault();
+				e.stopPropagation();
+				searchInput.value = '';
+				runSearch();
+			}
+		};
+		
+		if (this.searchQuery.trim()) {
+			this.displaySearchResults(container);
+			return;
+		}
 		
 		// Filter controls
 		const filtersDiv = container.createDiv("filter-controls");
@@ -446,7 +3262,7 @@ class ChatGPTImportModal extends Modal {
 		const newCheckbox = newLabel.createEl("input", {
 			type: "checkbox"
 		});
-		newCheckbox.checked = this.showNew;
+		newCheckbox.checked = this.filters.showNew;
 		newLabel.createEl("span", {text: "🆕 New"});
 		
 		// Partially processed conversations toggle
@@ -454,7 +3270,7 @@ class ChatGPTImportModal extends Modal {
 		const partialCheckbox = partialLabel.createEl("input", {
 			type: "checkbox"
 		});
-		partialCheckbox.checked = this.showPartiallyProcessed;
+		partialCheckbox.checked = this.filters.showPartiallyProcessed;
 		partialLabel.createEl("span", {text: "🔄 Partially Processed"});
 		
 		// Fully processed conversations toggle
@@ -462,28 +3278,57 @@ class ChatGPTImportModal extends Modal {
 		const fullyProcessedCheckbox = fullyProcessedLabel.createEl("input", {
 			type: "checkbox"
 		});
-		fullyProcessedCheckbox.checked = this.showFullyProcessed;
+		fullyProcessedCheckbox.checked = this.filters.showFullyProcessed;
 		fullyProcessedLabel.createEl("span", {text: "✅ Fully Processed"});
 		
+		// Sort order
+		const sort = this.plugin.settings.conversationSort;
+		const sortDiv = filtersDiv.createDiv({attr: { style: "display: flex; align-items: center; gap: 5px; margin-left: auto;" }});
+		sortDiv.createEl("span", {text: "Sort:", attr: { style: "font-weight: 500;" }});
+		const sortSelect = sortDiv.createEl("select");
+		const sortOptions: Array<[ConversationSort['field'], string]> = [
+			['export', 'Export order'],
+			['created', 'Created date'],
+			['updated', 'Last updated'],
+			['title', 'Title'],
+			['responses', 'Responses'],
+			['newPairs', 'New pairs']
+		];
+		sortOptions.forEach(([value, label]) => sortSelect.createEl("option", {text: label, value}));
+		sortSelect.value = sort.field;
+		const directionButton = sortDiv.createEl("button", {
+			text: sort.direction === 'asc' ? "↑" : "↓",
+			attr: { title: sort.direction === 'asc' ? "Ascending" : "Descending" }
+		});
+		sortSelect.onchange = () => this.updateSort(container, { field: sortSelect.value as ConversationSort['field'] });
+		directionButton.onclick = () => this.updateSort(container, { direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+		
 		// Update filters on change
-		newCheckbox.onchange = () => {
-			this.showNew = newCheckbox.checked;
-			this.displayConversations(container);
-		};
-		partialCheckbox.onchange = () => {
-			this.showPartiallyProcessed = partialCheckbox.checked;
-			this.displayConversations(container);
-		};
-		fullyProcessedCheckbox.onchange = () => {
-			this.showFullyProcessed = fullyProcessedCheckbox.checked;
-			this.displayConversations(container);
-		};
+		newCheckbox.onchange = () => this.updateFilters(container, { showNew: newCheckbox.checked });
+		partialCheckbox.onchange = () => this.updateFilters(container, { showPartiallyProcessed: partialCheckbox.checked });
+		fullyProcessedCheckbox.onchange = () => this.updateFilters(container, { showFullyProcessed: fullyProcessedCheckbox.checked });
+		
+		this.displayMoreFilters(container);
 		
 		// Filter conversations based on settings
 		const filteredConversations = this.getFilteredConversations();
 		
+		// Multi-select and bulk actions for the visible conversations
+		const visibleConversations: ExtractedConversation[] = filteredConversations.map(({ conversation }) => conversation);
+		const visibleIds = new Set(visibleConversations.map(conv => conv.id));
+		Array.from(this.selectedConversationIds).forEach(id => {
+			if (!visibleIds.has(id)) this.selectedConversationIds.delete(id);
+		});
+		const tocCheckboxes = new Map<string, HTMLInputElement>();
+		const refreshTocBulkActions = filteredConversations.length > 0 ?
+			this.displayTocBulkActions(container, visibleConversations, tocCheckboxes) :
+			() => {};
+		
 		const tocList = container.createDiv("toc-list");
 		tocList.style.cssText = "max-height: 500px; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 8px;";
+		tocList.addEventListener('scroll', () => {
+			this.tocScrollTop = tocList.scrollTop;
+		});
 		
 		if (filteredConversations.length === 0) {
 			const emptyMsg = tocList.createDiv("empty-message");
@@ -495,21 +3340,42 @@ class ChatGPTImportModal extends Modal {
 	filteredConversations.forEach((convWithIndex, filteredIndex) => {
 			const conv = convWithIndex.conversation;
 			const originalIndex = convWithIndex.originalIndex;
-			const assistantMessagesCount = conv.messages.filter((msg: any) => msg.role === 'assistant').length;
-			const processingStatus = this.plugin.getConversationProcessingStatus(conv.id, assistantMessagesCount);
+			const processingStatus = this.plugin.getConversationProcessingStatus(conv);
 			
 			const tocItem = tocList.createDiv("toc-item");
 			tocItem.style.cssText = "padding: 15px; border-bottom: 1px solid var(--background-modifier-border); cursor: pointer; transition: background-color 0.2s; display: flex; justify-content: space-between; align-items: center;";
 			
+			// The conversation open next to the list stays highlighted
+			const isOpen = this.layout === 'split' && this.viewMode === 'conversation' && originalIndex === this.currentConversationIndex;
+			const restingBackground = isOpen ? "var(--background-modifier-active-hover)" : "";
+			tocItem.style.backgroundColor = restingBackground;
+			
 			// Hover effect
 			tocItem.addEventListener('mouseenter', () => {
 				tocItem.style.backgroundColor = "var(--background-secondary)";
 			});
 			tocItem.addEventListener('mouseleave', () => {
-				tocItem.style.backgroundColor = "";
+				tocItem.style.backgroundColor = restingBackground;
+			});
+			
+			const itemCheckbox = tocItem.createEl("input", {
+				type: "checkbox"
 			});
+			itemCheckbox.style.cssText = "margin-right: 12px;";
+			itemCheckbox.checked = this.selectedConversationIds.has(conv.id);
+			itemCheckbox.onclick = (e) => e.stopPropagation();
+			itemCheckbox.onchange = () => {
+				if (itemCheckbox.checked) {
+					this.selectedConversationIds.add(conv.id);
+				} else {
+					this.selectedConversationIds.delete(conv.id);
+				}
+				refreshTocBulkActions();
+			};
+			tocCheckboxes.set(conv.id, itemCheckbox);
 			
 			const leftDiv = tocItem.createDiv();
+			leftDiv.style.cssText = "flex: 1; min-width: 0;";
 			
 			// State indicator + Title
 			const titleRow = leftDiv.createEl("div");
@@ -539,12 +3405,20 @@ class ChatGPTImportModal extends Modal {
 			titleEl.textContent = conv.title;
 			titleEl.style.cssText = "font-weight: 500; font-size: 1.05em; flex: 1;";
 			
+			const newTurnCount = this.plugin.getNewResponseIds(conv.id).length;
+			if (newTurnCount > 0) {
+				const newTurnsBadge = titleRow.createEl("span", {text: `✨ ${newTurnCount} new`});
+				newTurnsBadge.title = "Responses added since the last import";
+				newTurnsBadge.style.cssText = "padding: 2px 8px; border-radius: 10px; background: var(--interactive-accent); color: var(--text-on-accent); font-size: 0.8em;";
+			}
+			
 			const statsEl = leftDiv.createEl("div");
 			const assistantMessages = conv.messages.filter((msg: any) => msg.role === 'assistant');
 			const statusText = processingStatus === ConversationProcessingStatus.PROCESSED ? 
 				"All processed" : processingStatus === ConversationProcessingStatus.PARTIAL ? 
 				"Partially processed" : "New";
-			statsEl.textContent = `${assistantMessages.length} responses • ${statusText} • ${new Date(conv.create_time * 1000).toLocaleDateString()}`;
+			const branchText = conv.branches && conv.branches.length > 1 ? ` • 🌿 ${conv.branches.length} branches` : "";
+			statsEl.textContent = `${assistantMessages.length} responses • ${statusText}${branchText} • ${new Date(conv.create_time * 1000).toLocaleDateString()}`;
 			statsEl.style.cssText = "color: var(--text-muted); font-size: 0.9em;";
 			
 			const rightDiv = tocItem.createDiv();
@@ -557,6 +3431,7 @@ class ChatGPTImportModal extends Modal {
 				this.displayConversations(container);
 			};
 		});
+		tocList.scrollTop = this.tocScrollTop;
 		
 		// Show summary
 		const summaryDiv = container.createDiv("conversation-summary");
@@ -566,27 +3441,390 @@ class ChatGPTImportModal extends Modal {
 		summaryDiv.textContent = showing === total ? 
 			`Showing all ${total} conversations` : 
 			`Showing ${showing} of ${total} conversations`;
+		if (this.isLoading) {
+			summaryDiv.textContent += " (still loading...)";
+		}
+	}
+
+	// Ranked full-text hits; clicking one opens the conversation scrolled to the matching pair
+	displaySearchResults(container: HTMLElement) {
+		const hits = searchConversations(this.conversations, this.searchQuery, this.SEARCH_RESULT_LIMIT);
+		const terms = this.searchQuery.toLowerCase().split(/\s+/).filter(term => term);
+		
+		const statusDiv = container.createDiv("search-status");
+		statusDiv.style.cssText = "margin-bottom: 8px; color: var(--text-muted); font-size: 0.9em;";
+		statusDiv.textContent = hits.length === 0 ?
+			`No matches for "${this.searchQuery.trim()}"` :
+			`${hits.length}${hits.length === this.SEARCH_RESULT_LIMIT ? '+' : ''} matches in ${this.conversations.length} conversations${this.isLoading ? ' (still loading...)' : ''}`;
+		if (hits.length === 0) return;
+		
+		const resultList = container.createDiv("toc-list");
+		resultList.style.cssText = "max-height: 500px; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 8px;";
+		
+		hits.forEach(hit => {
+			const conv = this.conversations[hit.conversationIndex];
+			const item = resultList.createDiv("search-hit");
+			item.style.cssText = "padding: 12px 15px; border-bottom: 1px solid var(--background-modifier-border); cursor: pointer; transition: background-color 0.2s;";
+			
+			const titleEl = item.createDiv();
+			titleEl.style.cssText = "font-weight: 500; margin-bottom: 4px;";
+			this.appendHighlighted(titleEl, conv.title, terms);
+			
+			const fieldLabel = hit.field === 'title' ? "📋 Title" :
+				hit.field === 'prompt' ? `❓ Prompt ${hit.pairNumber}` : `🤖 Response ${hit.pairNumber}`;
+			const metaEl = item.createDiv({text: `${fieldLabel} • ${new Date(conv.update_time * 1000).toLocaleDateString()}`});
+			metaEl.style.cssText = "font-size: 0.8em; color: var(--text-muted); margin-bottom: 4px;";
+			
+			if (hit.field !== 'title') {
+				const snippetEl = item.createDiv();
+				snippetEl.style.cssText = "font-size: 0.9em; color: var(--text-normal);";
+				this.appendHighlighted(snippetEl, hit.snippet, terms);
+			}
+			
+			item.addEventListener('mouseenter', () => {
+				item.style.backgroundColor = "var(--background-modifier-hover)";
+			});
+			item.addEventListener('mouseleave', () => {
+				item.style.backgroundColor = "";
+			});
+			item.onclick = () => {
+				this.currentConversationIndex = hit.conversationIndex;
+				this.focusMessageId = hit.messageId;
+				this.viewMode = 'conversation';
+				this.displayConversations(container);
+			};
+		});
+	}
+
+	// Append text with every search term wrapped in <mark>
+	private appendHighlighted(el: HTMLElement, text: string, terms: string[]) {
+		if (terms.length === 0) {
+			el.appendText(text);
+			return;
+		}
+		splitOnMatches(text, terms[0]).forEach(segment => {
+			if (segment.match) {
+				el.createEl("mark", {text: segment.text});
+			} else {
+				this.appendHighlighted(el, segment.text, terms.slice(1));
+			}
+		});
+	}
+
+	// Look for saved notes that would change if saved again, and offer to update them
+	async checkSavedNoteUpdates(container: HTMLElement, button: HTMLButtonElement) {
+		button.disabled = true;
+		button.textContent = "🔄 Checking...";
+		try {
+			const { updates, missing, skipped, withoutImages } = await this.plugin.findSavedNoteUpdates(this.conversations);
+			const notes: string[] = [];
+			if (skipped > 0) notes.push(`${skipped} edited note${skipped === 1 ? '' : 's'} without the marker line skipped`);
+			if (withoutImages > 0) notes.push(`${withoutImages} note${withoutImages === 1 ? '' : 's'} with images skipped: import the export .zip to update ${withoutImages === 1 ? 'it' : 'them'}`);
+			if (missing > 0) notes.push(`${missing} note${missing === 1 ? '' : 's'} no longer found`);
+			if (updates.length === 0) {
+				new Notice(["All saved notes are up to date"].concat(notes).join('\n'));
+				return;
+			}
+			if (notes.length > 0) new Notice(notes.join('\n'));
+			new UpdateSavedNotesModal(this.app, this.plugin, updates, () => this.displayConversations(container)).open();
+		} catch (error) {
+			new Notice("Error checking saved notes: " + error.message);
+		} finally {
+			button.disabled = false;
+			button.textContent = "🔄 Update saved notes";
+		}
+	}
+
+	// Select-all checkbox and bulk actions bar for the TOC; returns a callback that refreshes it after selection changes
+	displayTocBulkActions(container: HTMLElement, visibleConversations: ExtractedConversation[], tocCheckboxes: Map<string, HTMLInputElement>): () => void {
+		const bulkBar = container.createDiv("toc-bulk-actions");
+		bulkBar.style.cssText = "display: flex; align-items: center; gap: 8px; flex-wrap: wrap; margin-bottom: 10px; padding: 8px 10px; background: var(--background-secondary); border-radius: 6px; font-size: 0.9em;";
+		
+		const selectAllLabel = bulkBar.createEl("label", {attr: { style: "display: flex; align-items: center; gap: 5px; cursor: pointer;" }});
+		const selectAllCheckbox = selectAllLabel.createEl("input", {
+			type: "checkbox"
+		});
+		selectAllLabel.createEl("span", {text: "Select all visible"});
+		
+		const countEl = bulkBar.createEl("span");
+		countEl.style.cssText = "color: var(--text-muted); margin-right: auto;";
+		
+		const saveButton = bulkBar.createEl("button", {text: "📄 Save as notes"});
+		const ignoreButton = bulkBar.createEl("button", {text: "🚫 Ignore all pairs"});
+		const resetButton = bulkBar.createEl("button", {text: "↩️ Reset to New"});
+		const exportButton = bulkBar.createEl("button", {text: "📤 Export"});
+		const actionButtons = [saveButton, ignoreButton, resetButton, exportButton];
+		
+		const getSelected = () => visibleConversations.filter(conv => this.selectedConversationIds.has(conv.id));
+		
+		const refresh = () => {
+			const selectedCount = getSelected().length;
+			selectAllCheckbox.checked = selectedCount > 0 && selectedCount === visibleConversations.length;
+			selectAllCheckbox.indeterminate = selectedCount > 0 && selectedCount < visibleConversations.length;
+			countEl.textContent = `${selectedCount} of ${visibleConversations.length} selected`;
+			actionButtons.forEach(button => button.disabled = selectedCount === 0 || this.isLoading);
+		};
+		
+		selectAllCheckbox.onchange = () => {
+			visibleConversations.forEach(conv => {
+				if (selectAllCheckbox.checked) {
+					this.selectedConversationIds.add(conv.id);
+				} else {
+					this.selectedConversationIds.delete(conv.id);
+				}
+				const checkbox = tocCheckboxes.get(conv.id);
+				if (checkbox) checkbox.checked = selectAllCheckbox.checked;
+			});
+			refresh();
+		};
+		
+		const runBulkAction = async (action: (conversations: ExtractedConversation[]) => Promise<void>) => {
+			actionButtons.forEach(button => button.disabled = true);
+			try {
+				await action(getSelected());
+				this.selectedConversationIds.clear();
+			} catch (error) {
+				console.error('[BULK DEBUG] Conversation bulk action failed:', error);
+				new Notice("Bulk action failed: " + error.message);
+			} finally {
+				this.displayConversations(container);
+			}
+		};
+		
+		saveButton.onclick = () => runBulkAction(conversations => this.bulkSaveConversations(conversations));
+		ignoreButton.onclick = () => {
+			const count = getSelected().length;
+			if (!confirm(`Mark every Q&A pair in ${count} conversation${count === 1 ? '' : 's'} as ignored?`)) return;
+			runBulkAction(conversations => this.bulkSetConversationState(conversations, QAPairState.IGNORED));
+		};
+		resetButton.onclick = () => {
+			const count = getSelected().length;
+			if (!confirm(`Reset every Q&A pair in ${count} conversation${count === 1 ? '' : 's'} to new status?`)) return;
+			runBulkAction(conversations => this.bulkSetConversationState(conversations, QAPairState.NEW));
+		};
+		exportButton.onclick = () => runBulkAction(conversations => this.exportConversations(conversations));
+		
+		refresh();
+		return refresh;
+	}
+
+	// Save each conversation as a transcript note with the default title, folder and tags.
+	// Pairs that are already saved are left out; conversations with nothing left to save are skipped.
+	async bulkSaveConversations(conversations: ExtractedConversation[]): Promise<void> {
+		const progress = new Notice(`Saving ${conversations.length} conversations...`, 0);
+		let saved = 0;
+		let skipped = 0;
+		let pairCount = 0;
+		const failed: string[] = [];
+		
+		await this.plugin.recordPairAction(`Save ${conversations.length} conversations as notes`, 'Conversation bulk actions', async () => {
+			for (const conv of conversations) {
+				const pairs = this.plugin.getQAPairs(conv).filter(pair => this.plugin.getQAPairState(pair.pairId) !== QAPairState.SAVED);
+				if (pairs.length === 0) {
+					skipped++;
+					continue;
+				}
+				const modal = new SaveConversationModal(this.app, this.plugin, conv, undefined, pairs);
+				try {
+					await modal.saveNote(modal.getDefaultTitle(), this.plugin.settings.defaultFolder, this.plugin.settings.defaultTags);
+					saved++;
+					pairCount += pairs.length;
+				} catch (error) {
+					console.error('[SAVE DEBUG] Bulk save failed for conversation:', conv.id, error);
+					failed.push(conv.title);
+				}
+				progress.setMessage(`Saving conversations... ${saved + skipped + failed.length}/${conversations.length}`);
+			}
+		}).finally(() => progress.hide());
+		
+		let summary = `Saved ${saved} conversation note${saved === 1 ? '' : 's'} (${pairCount} Q&A pairs) to ${this.plugin.settings.defaultFolder || 'the vault root'}`;
+		if (skipped > 0) {
+			summary += `\nSkipped ${skipped} conversation${skipped === 1 ? '' : 's'} already saved`;
+		}
+		if (failed.length > 0) {
+			summary += `\nFailed: ${failed.join(', ')}`;
+		}
+		new Notice(summary, 8000);
+	}
+
+	// Set every Q&A pair in the given conversations to one state with a single metadata write
+	async bulkSetConversationState(conversations: ExtractedConversation[], state: QAPairState): Promise<void> {
+		let pairCount = 0;
+		const label = `${state === QAPairState.IGNORED ? 'Ignore' : 'Reset'} every pair in ${conversations.length} conversation${conversations.length === 1 ? '' : 's'}`;
+		await this.plugin.recordPairAction(label, 'Conversation bulk actions', async () => {
+			for (const conv of conversations) {
+				const pairs = this.plugin.getQAPairs(conv);
+				await this.plugin.updateQAPairStates(pairs, state, conv.id);
+				pairCount += pairs.length;
+			}
+		});
+		const verb = state === QAPairState.IGNORED ? 'marked as ignored' : 'reset to new status';
+		new Notice(`${pairCount} Q&A pairs in ${conversations.length} conversation${conversations.length === 1 ? '' : 's'} ${verb}.`);
+	}
+
+	// Write the selected conversations (selected branch only) as a JSON file in the default folder
+	async exportConversations(conversations: ExtractedConversation[]): Promise<void> {
+		const data = conversations.map(conv => ({
+			title: conv.title,
+			id: conv.id,
+			create_time: conv.create_time,
+			update_time: conv.update_time,
+			messages: conv.messages
+		}));
+		const folder = this.plugin.settings.defaultFolder.trim().replace(/\/+$/, '');
+		if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+		const path = getExportFilePath(folder, new Date(), candidate => !!this.app.vault.getAbstractFileByPath(candidate));
+		await this.app.vault.create(path, JSON.stringify(data, null, 2));
+		new Notice(`Exported ${conversations.length} conversation${conversations.length === 1 ? '' : 's'} to ${path}`);
 	}
 
 	getFilteredConversations() {
-		return this.conversations
+		const filtered = this.conversations
 			.map((conv, index) => ({ conversation: conv, originalIndex: index }))
 			.filter(({ conversation }) => {
-				const assistantMessagesCount = conversation.messages.filter((msg: any) => msg.role === 'assistant').length;
-				const processingStatus = this.plugin.getConversationProcessingStatus(conversation.id, assistantMessagesCount);
+				const processingStatus = this.plugin.getConversationProcessingStatus(conversation);
 				
 				// Filter based on conversation processing status and filter settings
 				switch (processingStatus) {
 					case ConversationProcessingStatus.UNPROCESSED:
-						return this.showNew;
+						return this.filters.showNew;
 					case ConversationProcessingStatus.PARTIAL:
-						return this.showPartiallyProcessed;
+						return this.filters.showPartiallyProcessed;
 					case ConversationProcessingStatus.PROCESSED:
-						return this.showFullyProcessed;
+						return this.filters.showFullyProcessed;
 					default:
-						return this.showNew; // Default to showing as new if status is unclear
+						return this.filters.showNew; // Default to showing as new if status is unclear
 				}
+			})
+			.filter(({ conversation }) => matchesConversationFilters(conversation, this.filters))
+			.filter(({ conversation }) => !this.filters.newTurnsOnly || this.plugin.getNewResponseIds(conversation.id).length > 0);
+		return sortConversations(filtered, this.plugin.settings.conversationSort, conv =>
+			this.plugin.getQAPairs(conv).filter(pair => this.plugin.getQAPairState(pair.pairId) === QAPairState.NEW).length
+		);
+	}
+
+	// TOC filters are stored in the plugin settings so they persist between sessions
+	get filters(): ConversationFilters {
+		return this.plugin.settings.conversationFilters;
+	}
+
+	async updateFilters(container: HTMLElement, changes: Partial<ConversationFilters>) {
+		Object.assign(this.plugin.settings.conversationFilters, changes);
+		this.displayConversations(container);
+		await this.plugin.saveSettings();
+	}
+
+	async updateSort(container: HTMLElement, changes: Partial<ConversationSort>) {
+		Object.assign(this.plugin.settings.conversationSort, changes);
+		this.displayConversations(container);
+		await this.plugin.saveSettings();
+	}
+
+	// Collapsible date range, model, response count and content filters
+	displayMoreFilters(container: HTMLElement) {
+		const filters = this.filters;
+		const activeCount = [
+			filters.dateFrom || filters.dateTo,
+			filters.model,
+			filters.minResponses !== null || filters.maxResponses !== null,
+			filters.hasCodeBlocks,
+			filters.hasAttachments,
+			filters.newTurnsOnly
+		].filter(active => active).length;
+		
+		const details = container.createEl("details", {cls: "more-filters"});
+		details.style.cssText = "margin: -8px 0 15px; padding: 8px 10px; background: var(--background-secondary); border-radius: 8px; font-size: 0.9em;";
+		details.open = this.moreFiltersOpen;
+		details.ontoggle = () => this.moreFiltersOpen = details.open;
+		details.createEl("summary", {
+			text: activeCount > 0 ? `More filters (${activeCount} active)` : "More filters",
+			attr: { style: "cursor: pointer; font-weight: 500;" }
+		});
+		
+		const grid = details.createDiv();
+		grid.style.cssText = "display: flex; flex-wrap: wrap; gap: 10px 20px; align-items: center; margin-top: 8px;";
+		
+		// Date range
+		const dateDiv = grid.createDiv({attr: { style: "display: flex; align-items: center; gap: 5px;" }});
+		const dateFieldSelect = dateDiv.createEl("select");
+		dateFieldSelect.createEl("option", {text: "Created", value: "created"});
+		dateFieldSelect.createEl("option", {text: "Updated", value: "updated"});
+		dateFieldSelect.value = filters.dateField;
+		dateFieldSelect.onchange = () => this.updateFilters(container, { dateField: dateFieldSelect.value as ConversationFilters['dateField'] });
+		dateDiv.createEl("span", {text: "from"});
+		const dateFromInput = dateDiv.createEl("input", {type: "date", value: filters.dateFrom});
+		dateFromInput.onchange = () => this.updateFilters(container, { dateFrom: dateFromInput.value });
+		dateDiv.createEl("span", {text: "to"});
+		const dateToInput = dateDiv.createEl("input", {type: "date", value: filters.dateTo});
+		dateToInput.onchange = () => this.updateFilters(container, { dateTo: dateToInput.value });
+		
+		// Model (from message metadata of the loaded conversations)
+		const models = new Set<string>();
+		this.conversations.forEach(conv => getConversationStats(conv).models.forEach(model => models.add(model)));
+		if (filters.model) models.add(filters.model);
+		const modelDiv = grid.createDiv({attr: { style: "display: flex; align-items: center; gap: 5px;" }});
+		modelDiv.createEl("span", {text: "Model:"});
+		const modelSelect = modelDiv.createEl("select");
+		modelSelect.createEl("option", {text: "Any", value: ""});
+		Array.from(models).sort().forEach(model => modelSelect.createEl("option", {text: model, value: model}));
+		modelSelect.value = filters.model;
+		modelSelect.onchange = () => this.updateFilters(container, { model: modelSelect.value });
+		
+		// Number of responses
+		const parseCount = (value: string) => {
+			const count = parseInt(value, 10);
+			return isNaN(count) || count < 0 ? null : count;
+		};
+		const lengthDiv = grid.createDiv({attr: { style: "display: flex; align-items: center; gap: 5px;" }});
+		lengthDiv.createEl("span", {text: "Responses:"});
+		const minInput = lengthDiv.createEl("input", {
+			type: "number",
+			value: filters.minResponses !== null ? filters.minResponses.toString() : "",
+			attr: { min: "0", placeholder: "min", style: "width: 60px;" }
+		});
+		minInput.onchange = () => this.updateFilters(container, { minResponses: parseCount(minInput.value) });
+		lengthDiv.createEl("span", {text: "–"});
+		const maxInput = lengthDiv.createEl("input", {
+			type: "number",
+			value: filters.maxResponses !== null ? filters.maxResponses.toString() : "",
+			attr: { min: "0", placeholder: "max", style: "width: 60px;" }
+		});
+		maxInput.onchange = () => this.updateFilters(container, { maxResponses: parseCount(maxInput.value) });
+		
+		// Content
+		const codeLabel = grid.createEl("label", {attr: { style: "display: flex; align-items: center; gap: 5px; cursor: pointer;" }});
+		const codeCheckbox = codeLabel.createEl("input", {type: "checkbox"});
+		codeCheckbox.checked = filters.hasCodeBlocks;
+		codeLabel.createEl("span", {text: "💻 Has code blocks"});
+		codeCheckbox.onchange = () => this.updateFilters(container, { hasCodeBlocks: codeCheckbox.checked });
+		
+		const attachmentsLabel = grid.createEl("label", {attr: { style: "display: flex; align-items: center; gap: 5px; cursor: pointer;" }});
+		const attachmentsCheckbox = attachmentsLabel.createEl("input", {type: "checkbox"});
+		attachmentsCheckbox.checked = filters.hasAttachments;
+		attachmentsLabel.createEl("span", {text: "🖼️ Has attachments"});
+		attachmentsCheckbox.onchange = () => this.updateFilters(container, { hasAttachments: attachmentsCheckbox.checked });
+		
+		const newTurnsLabel = grid.createEl("label", {attr: { style: "display: flex; align-items: center; gap: 5px; cursor: pointer;" }});
+		const newTurnsCheckbox = newTurnsLabel.createEl("input", {type: "checkbox"});
+		newTurnsCheckbox.checked = filters.newTurnsOnly;
+		newTurnsLabel.createEl("span", {text: "✨ New turns since last import"});
+		newTurnsCheckbox.onchange = () => this.updateFilters(container, { newTurnsOnly: newTurnsCheckbox.checked });
+		
+		if (activeCount > 0) {
+			const clearButton = grid.createEl("button", {text: "Clear"});
+			clearButton.onclick = () => this.updateFilters(container, {
+				dateFrom: '',
+				dateTo: '',
+				model: '',
+				minResponses: null,
+				maxResponses: null,
+				hasCodeBlocks: false,
+				hasAttachments: false,
+				newTurnsOnly: false
 			});
+		}
 	}
 
 	displaySingleConversation(container: HTMLElement) {
@@ -597,7 +3835,7 @@ class ChatGPTImportModal extends Modal {
 		
 		// Get current conversation processing status
 		const assistantMessages = conv.messages.filter((msg: any) => msg.role === 'assistant');
-		const processingStatus = this.plugin.getConversationProcessingStatus(conv.id, assistantMessages.length);
+		const processingStatus = this.plugin.getConversationProcessingStatus(conv);
 		
 		// Compact header with conversation info and navigation
 		const header = container.createDiv("conversation-header");
@@ -638,17 +3876,74 @@ class ChatGPTImportModal extends Modal {
 		titleEl.textContent = conv.title;
 		titleEl.style.cssText = "font-weight: 500; font-size: 1.1em;";
 		
-		// Back to TOC button (compact)
-		const backButton = titleRow.createEl("button", {
-			text: "📋 Back",
-			cls: "mod-muted"
+		const headerActions = titleRow.createDiv();
+		headerActions.style.cssText = "display: flex; gap: 6px;";
+		
+		// Turns added since the last import stay highlighted until processed or dismissed
+		const newResponseIds = this.plugin.getNewResponseIds(conv.id);
+		if (newResponseIds.length > 0) {
+			const markSeenButton = headerActions.createEl("button", {
+				text: `✨ ${newResponseIds.length} new • Mark seen`,
+				attr: { title: "Stop highlighting responses added since the last import" }
+			});
+			markSeenButton.style.cssText = "font-size: 0.9em;";
+			markSeenButton.onclick = async () => {
+				await this.plugin.markResponsesSeen(conv.id);
+				this.displayConversations(container);
+			};
+		}
+		
+		// New pairs that repeat content already saved from another conversation or export
+		const duplicatePairs = this.plugin.getQAPairs(conv)
+			.filter(pair => this.plugin.getQAPairState(pair.pairId) === QAPairState.NEW && this.plugin.findSavedDuplicate(pair));
+		if (duplicatePairs.length > 0) {
+			const ignoreDuplicatesButton = headerActions.createEl("button", {
+				text: `♻️ ${duplicatePairs.length} duplicate${duplicatePairs.length === 1 ? '' : 's'} • Ignore`,
+				attr: { title: "Mark new pairs whose prompt and response were already saved as ignored" }
+			});
+			ignoreDuplicatesButton.style.cssText = "font-size: 0.9em;";
+			ignoreDuplicatesButton.onclick = async () => {
+				await this.plugin.updateQAPairStates(duplicatePairs, QAPairState.IGNORED, conv.id, 'Duplicates');
+				this.displayConversations(container);
+				new Notice(`${duplicatePairs.length} duplicate Q&A pair${duplicatePairs.length === 1 ? '' : 's'} marked as ignored.`);
+			};
+		}
+		
+		const triageButton = headerActions.createEl("button", {
+			text: this.triageMode ? "⌨️ Exit triage" : "⌨️ Triage",
+			attr: { title: "Go through the pairs one at a time with the keyboard" }
 		});
-		backButton.style.cssText = "font-size: 0.9em;";
-		backButton.onclick = () => {
-			this.viewMode = 'toc';
-			this.displayConversations(container);
+		triageButton.style.cssText = "font-size: 0.9em;";
+		triageButton.onclick = () => this.setTriageMode(!this.triageMode);
+		
+		// Save the whole thread as one note
+		const saveConversationButton = headerActions.createEl("button", {
+			text: "📄 Save Conversation",
+			attr: { title: "Save every exchange as a single note" }
+		});
+		saveConversationButton.style.cssText = "font-size: 0.9em;";
+		saveConversationButton.disabled = assistantMessages.length === 0;
+		saveConversationButton.onclick = () => {
+			const modal = new SaveConversationModal(this.app, this.plugin, conv, () => {
+				// Refresh the UI after successful save
+				this.displayConversations(container);
+			});
+			modal.open();
 		};
 		
+		// Back to TOC button (compact); the split layout always shows the TOC
+		if (this.layout === 'single') {
+			const backButton = headerActions.createEl("button", {
+				text: "📋 Back",
+				cls: "mod-muted"
+			});
+			backButton.style.cssText = "font-size: 0.9em;";
+			backButton.onclick = () => {
+				this.viewMode = 'toc';
+				this.displayConversations(container);
+			};
+		}
+		
 		// Bottom row: Stats and navigation
 		const statsRow = header.createDiv();
 		statsRow.style.cssText = "display: flex; justify-content: space-between; align-items: center; color: var(--text-muted); font-size: 0.9em;";
@@ -686,6 +3981,11 @@ class ChatGPTImportModal extends Modal {
 			}
 		};
 		
+		// Branch selector for conversations with regenerated answers or edited prompts
+		if (conv.branches && conv.branches.length > 1) {
+			this.displayBranchSelector(header, conv, container);
+		}
+		
 		// Compact filter controls
 		const pairFiltersDiv = container.createDiv("pair-filter-controls");
 		pairFiltersDiv.style.cssText = "margin-bottom: 10px; padding: 8px 12px; background: var(--background-secondary); border-radius: 6px; border: 1px solid var(--background-modifier-border);";
@@ -719,6 +4019,14 @@ class ChatGPTImportModal extends Modal {
 	savedPairsCheckbox.checked = this.showSavedPairs;
 		savedPairsLabel.createEl("span", {text: "✅ Saved"});
 		
+		// Duplicates of saved content toggle
+		const duplicatePairsLabel = filterHeader.createEl("label", {attr: { style: "display: flex; align-items: center; gap: 4px; cursor: pointer; font-size: 0.9em;" }});
+		const duplicatePairsCheckbox = duplicatePairsLabel.createEl("input", {
+			type: "checkbox"
+		});
+		duplicatePairsCheckbox.checked = this.showDuplicatePairs;
+		duplicatePairsLabel.createEl("span", {text: "♻️ Duplicates"});
+		
 		// Update filters on change
 		newPairsCheckbox.onchange = () => {
 			this.showNewPairs = newPairsCheckbox.checked;
@@ -732,13 +4040,26 @@ class ChatGPTImportModal extends Modal {
 			this.showSavedPairs = savedPairsCheckbox.checked;
 			this.displayConversations(container);
 		};
+		duplicatePairsCheckbox.onchange = () => {
+			this.showDuplicatePairs = duplicatePairsCheckbox.checked;
+			this.displayConversations(container);
+		};
 		
 		// Q&A pairs content (maximizing space)
 		const contentDiv = container.createDiv("single-conversation-content");
 		contentDiv.style.cssText = "border: 1px solid var(--background-modifier-border); border-radius: 6px; padding: 12px; max-height: calc(100vh - 280px); overflow-y: auto;";
 
-		// Get filtered Q&A pairs
-		const filteredPairs = this.getFilteredQAPairs(conv, assistantMessages);
+		// Get filtered Q&A pairs (a pair opened from search or in triage focus stays visible even if its state is filtered out)
+		const focusMessageId = this.focusMessageId;
+		this.focusMessageId = null;
+		const statusFilteredPairs = this.getFilteredQAPairs(conv, assistantMessages);
+		const filteredPairs = assistantMessages.filter((msg: any) => statusFilteredPairs.includes(msg) || msg.id === focusMessageId ||
+			(this.triageMode && msg.id === this.triageMessageId));
+		
+		if (this.triageMode) {
+			this.triageMessageId = stepTriageCursor(filteredPairs.map((msg: any) => msg.id), focusMessageId || this.triageMessageId, 0);
+			this.displayTriageBar(contentDiv, filteredPairs);
+		}
 		
 		// Show compact filter status if some pairs are hidden
 		if (filteredPairs.length < assistantMessages.length) {
@@ -751,16 +4072,30 @@ class ChatGPTImportModal extends Modal {
 		if (filteredPairs.length === 0) {
 			const emptyState = contentDiv.createDiv("empty-pairs");
 			emptyState.style.cssText = "padding: 40px; text-align: center; color: var(--text-muted);";
-			emptyState.innerHTML = `
-				<div style="font-size: 1.2em; margin-bottom: 10px;">🔍</div>
-				<div style="font-weight: 500; margin-bottom: 5px;">No Q&A pairs match your filters</div>
-				<div style="font-size: 0.9em;">Adjust the filter settings above to see more pairs</div>
-			`;
+			emptyState.createEl("div", {text: "🔍", attr: { style: "font-size: 1.2em; margin-bottom: 10px;" }});
+			emptyState.createEl("div", {text: "No Q&A pairs match your filters", attr: { style: "font-weight: 500; margin-bottom: 5px;" }});
+			emptyState.createEl("div", {text: "Adjust the filter settings above to see more pairs", attr: { style: "font-size: 0.9em;" }});
 			return;
 		}
 
-		// Display filtered Q&A pairs
+		// Multi-select and bulk actions for the visible pairs
+		const visiblePairs = this.plugin.getQAPairs(conv).filter(pair => filteredPairs.includes(pair.assistantMessage));
+		if (this.selectionConversationId !== conv.id) {
+			this.selectedPairIds.clear();
+			this.selectionConversationId = conv.id;
+		}
+		const visiblePairIds = new Set(visiblePairs.map(pair => pair.pairId));
+		Array.from(this.selectedPairIds).forEach(pairId => {
+			if (!visiblePairIds.has(pairId)) this.selectedPairIds.delete(pairId);
+		});
+		const pairCheckboxes = new Map<string, HTMLInputElement>();
+		const refreshBulkActions = this.triageMode ? () => {} :
+			this.displayBulkActions(contentDiv, conv, visiblePairs, pairCheckboxes, container);
+
+		// Display filtered Q&A pairs (only the one in focus while triaging)
 		filteredPairs.forEach((assistantMsg: any, msgIndex: number) => {
+			if (this.triageMode && assistantMsg.id !== this.triageMessageId) return;
+			
 			// Find the user message that prompted this response
 			const messageIndex = conv.messages.findIndex((msg: any) => msg.id === assistantMsg.id);
 			const userMsg = messageIndex > 0 ? conv.messages[messageIndex - 1] : null;
@@ -808,12 +4143,34 @@ class ChatGPTImportModal extends Modal {
 			
 			const qaDiv = contentDiv.createDiv("qa-pair");
 			qaDiv.style.cssText = `margin: 20px 0; padding: 20px; background: var(--background-secondary); border-radius: 8px; border-left: 4px solid ${borderColor};`;
+			if (assistantMsg.id === focusMessageId) {
+				qaDiv.style.boxShadow = "0 0 0 2px var(--text-accent)";
+				// Wait a moment so rendered Markdown above has its final height
+				window.setTimeout(() => qaDiv.scrollIntoView({ block: 'start' }), 100);
+			}
 			
 			// Q&A pair header with state indicator
 			const pairHeader = qaDiv.createEl("div");
 			pairHeader.style.cssText = "display: flex; justify-content: space-between; align-items: center; margin-bottom: 15px; padding-bottom: 10px; border-bottom: 1px solid var(--background-modifier-border);";
 			
-			const pairTitle = pairHeader.createEl("div");
+			const pairTitleRow = pairHeader.createEl("label");
+			pairTitleRow.style.cssText = "display: flex; align-items: center; gap: 8px; cursor: pointer;";
+			
+			const pairCheckbox = pairTitleRow.createEl("input", {
+				type: "checkbox"
+			});
+			pairCheckbox.checked = this.selectedPairIds.has(pairId);
+			pairCheckbox.onchange = () => {
+				if (pairCheckbox.checked) {
+					this.selectedPairIds.add(pairId);
+				} else {
+					this.selectedPairIds.delete(pairId);
+				}
+				refreshBulkActions();
+			};
+			pairCheckboxes.set(pairId, pairCheckbox);
+			
+			const pairTitle = pairTitleRow.createEl("div");
 			pairTitle.style.cssText = "font-weight: 500; color: var(--text-normal);";
 			pairTitle.textContent = `Q&A Pair ${msgIndex + 1}`;
 			
@@ -822,6 +4179,21 @@ class ChatGPTImportModal extends Modal {
 			stateIndicator.createEl("span", {text: stateEmoji});
 			stateIndicator.createEl("span", {text: stateText});
 			
+			if (newResponseIds.indexOf(assistantMsg.id) !== -1) {
+				const newTurnBadge = pairTitleRow.createEl("span", {text: "✨ New since last import"});
+				newTurnBadge.style.cssText = "padding: 2px 8px; border-radius: 10px; background: var(--interactive-accent); color: var(--text-on-accent); font-size: 0.8em;";
+			}
+			
+			const duplicateOf = pairState === QAPairState.NEW ? this.plugin.findSavedDuplicate({ pairId, userMessage: userMsg, assistantMessage: assistantMsg }) : null;
+			if (duplicateOf) {
+				const source = this.conversations.find(c => c.id === duplicateOf.conversationId);
+				const duplicateBadge = pairTitleRow.createEl("span", {
+					text: "♻️ Already saved",
+					attr: { title: `Same prompt and response as a pair saved from "${source ? source.title : duplicateOf.userPrompt}"` }
+				});
+				duplicateBadge.style.cssText = "padding: 2px 8px; border-radius: 10px; background: var(--background-modifier-border); color: var(--text-muted); font-size: 0.8em;";
+			}
+			
 			// Show user prompt
 			if (userMsg && userMsg.role === 'user') {
 				const promptHeader = qaDiv.createEl("div");
@@ -832,7 +4204,7 @@ class ChatGPTImportModal extends Modal {
 				
 				const promptDiv = qaDiv.createEl("div");
 				promptDiv.style.cssText = "padding: 12px; background: var(--background-primary); border-radius: 6px; margin-bottom: 18px; border-left: 3px solid var(--text-accent);";
-				promptDiv.innerHTML = this.formatMessageContent(userMsg.content);
+				this.renderMessageContent(userMsg.content, promptDiv);
 			}
 			
 			// Show assistant response
@@ -844,7 +4216,7 @@ class ChatGPTImportModal extends Modal {
 			
 			const responseDiv = qaDiv.createEl("div");
 			responseDiv.style.cssText = "padding: 15px; background: var(--background-primary); border-radius: 6px; margin-bottom: 15px; line-height: 1.6; border: 1px solid var(--background-modifier-border);";
-			responseDiv.innerHTML = this.formatMessageContent(assistantMsg.content);
+			this.renderMessageContent(assistantMsg.content, responseDiv);
 			
 			// Action buttons based on current state
 			const buttonDiv = qaDiv.createEl("div");
@@ -858,6 +4230,8 @@ class ChatGPTImportModal extends Modal {
 				});
 				saveButton.style.cssText = "flex: 1;";
 				
+				this.addQuickSaveButton(buttonDiv, conv, { pairId, userMessage: userMsg, assistantMessage: assistantMsg }, container);
+				
 				const ignoreButton = buttonDiv.createEl("button", {
 					text: "🚫 Ignore"
 				});
@@ -881,6 +4255,21 @@ class ChatGPTImportModal extends Modal {
 					}
 				};
 			} else if (pairState === QAPairState.SAVED) {
+				// Open the note this pair was saved to, while it still exists
+				const savedNote = this.plugin.getSavedNoteFile(pairId);
+				if (savedNote) {
+					const openButton = buttonDiv.createEl("button", {
+						text: "📂 Open Note",
+						attr: { title: savedNote.path }
+					});
+					openButton.style.cssText = "flex: 1;";
+					openButton.onclick = async () => {
+						// The library view is not navigable, so the note opens in another leaf next to it
+						this.closeHost?.();
+						await this.app.workspace.getLeaf(false).openFile(savedNote);
+					};
+				}
+				
 				// Show status and option to save again
 				const resaveButton = buttonDiv.createEl("button", {
 					text: "💾 Save Again"
@@ -917,6 +4306,8 @@ class ChatGPTImportModal extends Modal {
 				});
 				saveButton.style.cssText = "flex: 1;";
 				
+				this.addQuickSaveButton(buttonDiv, conv, { pairId, userMessage: userMsg, assistantMessage: assistantMsg }, container);
+				
 				const unignoreButton = buttonDiv.createEl("button", {
 					text: "↩️ Un-ignore"
 				});
@@ -943,6 +4334,375 @@ class ChatGPTImportModal extends Modal {
 		});
 	}
 
+	// Select-all checkbox and bulk actions bar; returns a callback that refreshes it after selection changes
+	displayBulkActions(parent: HTMLElement, conv: ExtractedConversation, visiblePairs: QAPair[], pairCheckboxes: Map<string, HTMLInputElement>, container: HTMLElement): () => void {
+		const bulkBar = parent.createDiv("bulk-actions");
+		bulkBar.style.cssText = "display: flex; align-items: center; gap: 8px; flex-wrap: wrap; margin-bottom: 10px; padding: 8px 10px; background: var(--background-secondary); border-radius: 6px; font-size: 0.9em;";
+		
+		const selectAllLabel = bulkBar.createEl("label", {attr: { style: "display: flex; align-items: center; gap: 5px; cursor: pointer;" }});
+		const selectAllCheckbox = selectAllLabel.createEl("input", {
+			type: "checkbox"
+		});
+		selectAllLabel.createEl("span", {text: "Select all visible"});
+		
+		const countEl = bulkBar.createEl("span");
+		countEl.style.cssText = "color: var(--text-muted); margin-right: auto;";
+		
+		const saveEachButton = bulkBar.createEl("button", {text: "💾 Save each"});
+		const saveCombinedButton = bulkBar.createEl("button", {text: "📄 Save as one note"});
+		const ignoreButton = bulkBar.createEl("button", {text: "🚫 Ignore"});
+		const resetButton = bulkBar.createEl("button", {text: "↩️ Reset to New"});
+		const actionButtons = [saveEachButton, saveCombinedButton, ignoreButton, resetButton];
+		
+		const getSelectedPairs = () => visiblePairs.filter(pair => this.selectedPairIds.has(pair.pairId));
+		
+		const refresh = () => {
+			const selectedCount = getSelectedPairs().length;
+			selectAllCheckbox.checked = selectedCount > 0 && selectedCount === visiblePairs.length;
+			selectAllCheckbox.indeterminate = selectedCount > 0 && selectedCount < visiblePairs.length;
+			countEl.textContent = `${selectedCount} of ${visiblePairs.length} selected`;
+			actionButtons.forEach(button => button.disabled = selectedCount === 0);
+		};
+		
+		selectAllCheckbox.onchange = () => {
+			visiblePairs.forEach(pair => {
+				if (selectAllCheckbox.checked) {
+					this.selectedPairIds.add(pair.pairId);
+				} else {
+					this.selectedPairIds.delete(pair.pairId);
+				}
+				const checkbox = pairCheckboxes.get(pair.pairId);
+				if (checkbox) checkbox.checked = selectAllCheckbox.checked;
+			});
+			refresh();
+		};
+		
+		const finish = () => {
+			this.selectedPairIds.clear();
+			this.displayConversations(container);
+		};
+		
+		saveEachButton.onclick = async () => {
+			actionButtons.forEach(button => button.disabled = true);
+			await this.bulkSaveEach(conv, getSelectedPairs());
+			finish();
+		};
+		
+		saveCombinedButton.onclick = () => {
+			const modal = new SaveConversationModal(this.app, this.plugin, conv, finish, getSelectedPairs());
+			modal.open();
+		};
+		
+		ignoreButton.onclick = async () => {
+			const pairs = getSelectedPairs();
+			if (!confirm(`Mark ${pairs.length} Q&A pair${pairs.length === 1 ? '' : 's'} as ignored?`)) return;
+			await this.plugin.updateQAPairStates(pairs, QAPairState.IGNORED, conv.id, 'Bulk actions');
+			new Notice(`${pairs.length} Q&A pair${pairs.length === 1 ? '' : 's'} marked as ignored.`);
+			finish();
+		};
+		
+		resetButton.onclick = async () => {
+			const pairs = getSelectedPairs();
+			if (!confirm(`Reset ${pairs.length} Q&A pair${pairs.length === 1 ? '' : 's'} to new status?`)) return;
+			await this.plugin.updateQAPairStates(pairs, QAPairState.NEW, conv.id, 'Bulk actions');
+			new Notice(`${pairs.length} Q&A pair${pairs.length === 1 ? '' : 's'} reset to new status.`);
+			finish();
+		};
+		
+		refresh();
+		return refresh;
+	}
+
+	// Save each pair as its own note using the default title, folder and tags
+	async bulkSaveEach(conv: ExtractedConversation, selectedPairs: QAPair[]): Promise<void> {
+		// Pairs already saved would get a second note, so they are left out like in bulkSaveConversations
+		const pairs = selectedPairs.filter(pair => this.plugin.getQAPairState(pair.pairId) !== QAPairState.SAVED);
+		const skipped = selectedPairs.length - pairs.length;
+		let saved = 0;
+		let failed = 0;
+		
+		if (pairs.length > 0) {
+			const progress = new Notice(`Saving ${pairs.length} notes...`, 0);
+			await this.plugin.recordPairAction(`Save ${pairs.length} pairs as notes`, 'Bulk actions', async () => {
+				for (const pair of pairs) {
+					try {
+						await this.plugin.savePairWithDefaults(conv, pair);
+						saved++;
+					} catch (error) {
+						console.error('[SAVE DEBUG] Bulk save failed for pair:', pair.pairId, error);
+						failed++;
+					}
+					progress.setMessage(`Saving notes... ${saved + failed}/${pairs.length}`);
+				}
+			});
+			progress.hide();
+		}
+		
+		let summary = failed > 0 ? `Saved ${saved} of ${pairs.length} notes (${failed} failed)` : `Saved ${saved} notes`;
+		if (skipped > 0) {
+			summary += `\nSkipped ${skipped} pair${skipped === 1 ? '' : 's'} already saved`;
+		}
+		new Notice(summary);
+	}
+
+	// Position in the conversation and the keys, shown above the pair in focus
+	private displayTriageBar(contentDiv: HTMLElement, filteredPairs: any[]) {
+		const triageBar = contentDiv.createDiv("triage-bar");
+		triageBar.style.cssText = "display: flex; align-items: center; gap: 10px; flex-wrap: wrap; margin-bottom: 10px; padding: 8px 10px; background: var(--background-secondary); border-radius: 6px; font-size: 0.9em;";
+		const position = filteredPairs.findIndex((msg: any) => msg.id === this.triageMessageId);
+		triageBar.createEl("span", {
+			text: filteredPairs.length > 0 ? `⌨️ Pair ${position + 1} of ${filteredPairs.length}` : "⌨️ No pairs left here",
+			attr: { style: "font-weight: 500;" }
+		});
+		const keys = this.plugin.settings.triageKeys;
+		const keyHints = TRIAGE_KEY_LABELS
+			.filter(([name]) => keys[name])
+			.map(([name, label]) => `${keys[name].toUpperCase()} ${label}`);
+		const keysEl = triageBar.createEl("span", {
+			text: keyHints.length > 0 ? keyHints.join(" • ") : "Triage keys are off; use the Triage commands"
+		});
+		keysEl.style.cssText = "color: var(--text-muted); flex: 1;";
+		const exitButton = triageBar.createEl("button", {text: "Exit"});
+		exitButton.onclick = () => this.setTriageMode(false);
+	}
+
+	// Start or stop triage on the current conversation
+	setTriageMode(enabled: boolean) {
+		this.triageMode = enabled;
+		this.triageMessageId = null;
+		if (this.conversations.length === 0 || !this.conversationsEl) return;
+		if (enabled) this.viewMode = 'conversation';
+		this.displayConversations(this.conversationsEl);
+	}
+
+	// Pairs triage steps through: the visible ones, plus the pair in focus
+	private getTriagePairs(): { conv: ExtractedConversation; pairs: QAPair[] } | null {
+		const conv = this.conversations[this.currentConversationIndex];
+		if (!this.triageMode || this.viewMode !== 'conversation' || !conv) return null;
+		const assistantMessages = conv.messages.filter((msg: any) => msg.role === 'assistant');
+		const visibleMessages = this.getFilteredQAPairs(conv, assistantMessages);
+		const pairs = this.plugin.getQAPairs(conv).filter(pair =>
+			visibleMessages.includes(pair.assistantMessage) || pair.assistantMessage.id === this.triageMessageId);
+		return { conv, pairs };
+	}
+
+	// Run a state change on the pair in focus, then move on to the next pair
+	private async runTriageAction(action: (conv: ExtractedConversation, pair: QAPair) => Promise<void>) {
+		const triage = this.getTriagePairs();
+		if (!triage || this.triageBusy) return;
+		const ids = triage.pairs.map(pair => pair.assistantMessage.id);
+		const currentId = stepTriageCursor(ids, this.triageMessageId, 0);
+		const pair = triage.pairs.find(candidate => candidate.assistantMessage.id === currentId);
+		if (!pair) return;
+		
+		this.triageBusy = true;
+		try {
+			await action(triage.conv, pair);
+			this.triageMessageId = stepTriageCursor(ids, currentId, 1);
+		} catch (error) {
+			console.error('[TRIAGE DEBUG] Triage action failed:', error);
+			new Notice("Triage action failed: " + error.message);
+		} finally {
+			this.triageBusy = false;
+		}
+		if (this.conversationsEl) this.displayConversations(this.conversationsEl);
+	}
+
+	async triageSave() {
+		await this.runTriageAction(async (conv, pair) => {
+			if (this.plugin.getQAPairState(pair.pairId) === QAPairState.SAVED) return;
+			await this.quickSavePair(conv, pair, 'Triage');
+		});
+	}
+
+	async triageIgnore() {
+		await this.runTriageAction(async (conv, pair) => {
+			if (this.plugin.getQAPairState(pair.pairId) === QAPairState.IGNORED) return;
+			await this.plugin.updateQAPairStates([pair], QAPairState.IGNORED, conv.id, 'Triage');
+		});
+	}
+
+	private addQuickSaveButton(buttonDiv: HTMLElement, conv: ExtractedConversation, pair: QAPair, container: HTMLElement) {
+		const quickSaveButton = buttonDiv.createEl("button", {
+			text: "⚡ Quick Save",
+			attr: { title: "Save right away with the default title, folder, tags and template" }
+		});
+		quickSaveButton.style.cssText = "flex: 1;";
+		quickSaveButton.onclick = async () => {
+			quickSaveButton.disabled = true;
+			try {
+				await this.quickSavePair(conv, pair, 'Quick save');
+			} catch (error) {
+				console.error('[SAVE DEBUG] Quick save failed:', error);
+				new Notice("Quick save failed: " + error.message);
+			}
+			this.displayConversations(container);
+		};
+	}
+
+	// Pair the quick save command acts on: the one in triage focus, otherwise the first new pair shown
+	getQuickSaveTarget(): { conv: ExtractedConversation; pair: QAPair } | null {
+		const conv = this.conversations[this.currentConversationIndex];
+		if (this.viewMode !== 'conversation' || !conv) return null;
+		const assistantMessages = conv.messages.filter((msg: any) => msg.role === 'assistant');
+		const visibleMessages = this.getFilteredQAPairs(conv, assistantMessages);
+		const pair = this.plugin.getQAPairs(conv).find(candidate => this.triageMode ?
+			candidate.assistantMessage.id === this.triageMessageId :
+			visibleMessages.includes(candidate.assistantMessage) && this.plugin.getQAPairState(candidate.pairId) === QAPairState.NEW);
+		return pair && this.plugin.getQAPairState(pair.pairId) !== QAPairState.SAVED ? { conv, pair } : null;
+	}
+
+	// Write the note without the save dialog, then offer to open it or take it back
+	async quickSavePair(conv: ExtractedConversation, pair: QAPair, source: string): Promise<string> {
+		const { result: notePath, action } = await this.plugin.recordPairAction('Quick save pair as note', source, () => this.plugin.savePairWithDefaults(conv, pair));
+		
+		const notice = new Notice(createFragment(fragment => {
+			fragment.createDiv({text: `⚡ Saved ${notePath}`});
+			const buttons = fragment.createDiv({attr: { style: "display: flex; gap: 8px; margin-top: 6px;" }});
+			const openButton = buttons.createEl("button", {text: "Open"});
+			openButton.onclick = async () => {
+				notice.hide();
+				// Follows the note if it was renamed since
+				const path = action && action.notes.length > 0 ? action.notes[0].record.path : notePath;
+				const file = this.app.vault.getAbstractFileByPath(path);
+				if (!(file instanceof TFile)) {
+					new Notice(`${path} no longer exists`);
+					return;
+				}
+				this.closeHost?.();
+				await this.app.workspace.getLeaf(false).openFile(file);
+			};
+			const undoButton = buttons.createEl("button", {text: "Undo"});
+			undoButton.onclick = async () => {
+				notice.hide();
+				// The history is undone newest first, so later changes have to go before this save
+				if (!action || findUndoAction(this.plugin.getPairActionLog()) !== action) {
+					new Notice("Other changes were made after this save; undo them first (🕘 History shows the order)");
+					return;
+				}
+				await this.stepPairHistory('undo');
+			};
+		}), 8000);
+		return notePath;
+	}
+
+	// Undo or redo the latest action from the history, then show the first pair it changed
+	async stepPairHistory(direction: 'undo' | 'redo') {
+		if (this.triageBusy) return;
+		this.triageBusy = true;
+		let action: PairAction | null;
+		try {
+			action = direction === 'undo' ? await this.plugin.undoPairAction() : await this.plugin.redoPairAction();
+		} finally {
+			this.triageBusy = false;
+		}
+		
+		const change = action ? action.changes[0] : null;
+		const index = change ? this.conversations.findIndex(conv => conv.id === change.conversationId) : -1;
+		if (change && index >= 0) {
+			const pair = this.plugin.getQAPairs(this.conversations[index]).find(candidate => candidate.pairId === change.pairId);
+			if (pair) {
+				this.currentConversationIndex = index;
+				this.viewMode = 'conversation';
+				this.triageMessageId = pair.assistantMessage.id;
+			}
+		}
+		if (this.conversationsEl) this.displayConversations(this.conversationsEl);
+		this.plugin.refreshLibraryViews(this);
+	}
+
+	moveTriageCursor(step: number) {
+		const triage = this.getTriagePairs();
+		if (!triage || !this.conversationsEl) return;
+		this.triageMessageId = stepTriageCursor(triage.pairs.map(pair => pair.assistantMessage.id), this.triageMessageId, step);
+		this.displayConversations(this.conversationsEl);
+	}
+
+	// Follows the table of contents' filters and order, skipping conversations with nothing left to triage
+	moveTriageConversation(step: number) {
+		if (!this.triageMode || !this.conversationsEl) return;
+		const order = this.getFilteredConversations().map(({ originalIndex }) => originalIndex);
+		const index = stepTriageConversation(order, this.currentConversationIndex, step, candidate =>
+			this.plugin.getQAPairs(this.conversations[candidate]).some(pair => this.plugin.getQAPairState(pair.pairId) === QAPairState.NEW));
+		if (index === null) {
+			new Notice(step > 0 ? "No later conversation with new pairs" : "No earlier conversation with new pairs");
+			return;
+		}
+		this.currentConversationIndex = index;
+		this.viewMode = 'conversation';
+		this.triageMessageId = null;
+		this.displayConversations(this.conversationsEl);
+	}
+
+	// Single-key triage shortcuts (from the settings, so changes apply right away) for the host's scope;
+	// keys typed into text fields are left alone
+	registerTriageKeys(scope: Scope) {
+		const actions: Record<keyof TriageKeys, () => void> = {
+			save: () => this.triageSave(),
+			ignore: () => this.triageIgnore(),
+			undo: () => this.stepPairHistory('undo'),
+			nextPair: () => this.moveTriageCursor(1),
+			previousPair: () => this.moveTriageCursor(-1),
+			nextConversation: () => this.moveTriageConversation(1),
+			previousConversation: () => this.moveTriageConversation(-1)
+		};
+		scope.register([], null, (evt) => {
+			const target = evt.target as HTMLElement | null;
+			const typing = !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable);
+			if (!this.triageMode || this.viewMode !== 'conversation' || typing) return true;
+			const action = findTriageKeyAction(this.plugin.settings.triageKeys, evt.key);
+			if (!action) return true;
+			actions[action]();
+			return false;
+		});
+	}
+
+	// Dropdown for picking which branch of the message tree to review
+	displayBranchSelector(header: HTMLElement, conv: ExtractedConversation, container: HTMLElement) {
+		const branchRow = header.createDiv("branch-selector");
+		branchRow.style.cssText = "display: flex; align-items: center; gap: 8px; margin-top: 8px; font-size: 0.9em;";
+		
+		branchRow.createEl("span", {text: `🌿 ${conv.branches.length} branches:`, attr: { style: "color: var(--text-muted);" }});
+		
+		const branchSelect = branchRow.createEl("select");
+		branchSelect.style.cssText = "flex: 1; min-width: 0;";
+		
+		const currentBranch = conv.branches[conv.currentBranchIndex];
+		conv.branches.forEach((branch, index) => {
+			const responseCount = branch.messages.filter(msg => msg.role === 'assistant').length;
+			let label = `Branch ${index + 1}`;
+			if (branch.isCurrent) {
+				label += " (current)";
+			}
+			label += ` • ${responseCount} responses`;
+			
+			// Describe where this branch departs from the current one
+			if (index !== conv.currentBranchIndex && currentBranch) {
+				const divergeAt = branch.messages.findIndex((msg, i) => currentBranch.messages[i]?.id !== msg.id);
+				if (divergeAt >= 0) {
+					const divergent = branch.messages[divergeAt];
+					const snippet = divergent.content.replace(/\s+/g, ' ').substring(0, 50);
+					label += ` • ${divergent.role === 'user' ? 'edited prompt' : 'regenerated'}: "${snippet}${divergent.content.length > 50 ? '…' : ''}"`;
+				}
+			}
+			
+			const option = branchSelect.createEl("option", {text: label, value: String(index)});
+			option.selected = index === conv.selectedBranchIndex;
+		});
+		
+		branchSelect.onchange = () => {
+			this.selectBranch(conv, parseInt(branchSelect.value, 10));
+			this.displayConversations(container);
+		};
+	}
+
+	selectBranch(conv: ExtractedConversation, branchIndex: number) {
+		const branch = conv.branches[branchIndex];
+		if (!branch) return;
+		conv.selectedBranchIndex = branchIndex;
+		conv.messages = branch.messages;
+	}
+
 	// Get filtered Q&A pairs based on current filter settings
 	getFilteredQAPairs(conv: any, assistantMessages: any[]): any[] {
 		return assistantMessages.filter((assistantMsg: any) => {
@@ -958,6 +4718,9 @@ class ChatGPTImportModal extends Modal {
 			// Filter based on state and current filter settings
 			switch (pairState) {
 				case QAPairState.NEW:
+					if (!this.showDuplicatePairs && this.plugin.findSavedDuplicate({ pairId, userMessage: userMsg, assistantMessage: assistantMsg })) {
+						return false;
+					}
 					return this.showNewPairs;
 				case QAPairState.IGNORED:
 					return this.showIgnoredPairs;
@@ -969,36 +4732,120 @@ class ChatGPTImportModal extends Modal {
 		});
 	}
 
-	// Format message content for better display
-	formatMessageContent(content: string): string {
-		// Convert basic markdown to HTML for display
-		let formatted = content
-			// Convert code blocks
-			.replace(/```([\s\S]*?)```/g, '<pre style="background: var(--background-secondary); padding: 8px; border-radius: 4px; overflow-x: auto; margin: 8px 0; border: 1px solid var(--background-modifier-border);"><code>$1</code></pre>')
-			// Convert inline code
-			.replace(/`([^`]+)`/g, '<code style="background: var(--background-secondary); padding: 2px 4px; border-radius: 3px; font-family: var(--font-monospace);">$1</code>')
-			// Convert bold text
-			.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-			// Convert italic text
-			.replace(/\*(.*?)\*/g, '<em>$1</em>')
-			// Convert line breaks
-			.replace(/\n/g, '<br>')
-			// Convert bullet points
-			.replace(/^- (.+)/gm, '<li style="margin-left: 20px;">$1</li>')
-			// Convert numbered lists
-			.replace(/^\d+\. (.+)/gm, '<li style="margin-left: 20px; list-style-type: decimal;">$1</li>');
-		
-		// Wrap consecutive list items in ul tags
-		formatted = formatted.replace(/(<li[^>]*>.*?<\/li>(?:<br>)?)+/g, (match) => {
-			return '<ul style="margin: 8px 0; padding-left: 0;">' + match.replace(/<br>/g, '') + '</ul>';
+	// Render message Markdown with Obsidian's own renderer so the preview matches the saved note
+	renderMessageContent(content: string, el: HTMLElement) {
+		// Images are only embedded once they have been copied into the vault; until then show a placeholder
+		const markdown = convertToMarkdown(content).replace(new RegExp(ASSET_POINTER_IMAGE_REGEX.source, 'g'), (match, alt: string, assetPointer: string) => {
+			const vaultPath = this.plugin.findAttachmentVaultPath(assetPointer);
+			if (vaultPath && this.app.vault.getAbstractFileByPath(vaultPath)) {
+				return `![[${vaultPath}]]`;
+			}
+			return `*🖼️ ${alt || 'image'} (${assetPointer.substring(assetPointer.indexOf('://') + 3)})*`;
 		});
+		const safeMarkdown = escapeHtmlInMarkdown(markdown);
 		
-		return formatted;
+		el.addClass("markdown-rendered");
+		MarkdownRenderer.render(this.app, safeMarkdown, el, '', this.markdownComponent).catch(error => {
+			console.error('[RENDER DEBUG] Failed to render message content:', error);
+			el.setText(content);
+		});
+	}
+
+	close() {
+		this.loadAbortController?.abort();
+		this.markdownComponent.unload();
+		this.contentEl.empty();
+	}
+}
+
+class ChatGPTImportModal extends Modal {
+	plugin: ChatGPTToObsidianPlugin;
+	browser: ConversationBrowser;
+
+	constructor(app: App, plugin: ChatGPTToObsidianPlugin) {
+		super(app);
+		this.plugin = plugin;
+		this.browser = new ConversationBrowser(app, plugin, this.contentEl, 'single', () => this.close());
+		this.browser.registerTriageKeys(this.scope);
+	}
+
+	onOpen() {
+		this.browser.open();
 	}
 
 	onClose() {
-		const {contentEl} = this;
-		contentEl.empty();
+		const state = this.browser.getViewState();
+		if (state) {
+			this.plugin.settings.importViewState = state;
+			this.plugin.saveSettings().catch(error => console.error('Could not save the import view state:', error));
+		}
+		this.browser.close();
+		// Pick up pairs saved or ignored here
+		this.plugin.refreshLibraryViews(null);
+	}
+}
+
+const VIEW_TYPE_CHATGPT_LIBRARY = 'chatgpt-library';
+
+// Dockable version of the importer; its position is kept in the workspace layout
+class ChatGPTLibraryView extends ItemView {
+	plugin: ChatGPTToObsidianPlugin;
+	browser: ConversationBrowser | null = null;
+	// State from the saved layout, applied when the view opens
+	private pendingState: ImportViewState | null = null;
+	// Triage keys; active while the view is focused, on top of the app's hotkeys
+	private readonly triageScope: Scope;
+
+	constructor(leaf: WorkspaceLeaf, plugin: ChatGPTToObsidianPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+		this.scope = this.triageScope = new Scope(this.app.scope);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_CHATGPT_LIBRARY;
+	}
+
+	getDisplayText(): string {
+		return "ChatGPT Library";
+	}
+
+	getIcon(): string {
+		return 'message-square';
+	}
+
+	async onOpen() {
+		this.contentEl.empty();
+		this.browser = new ConversationBrowser(this.app, this.plugin, this.contentEl, 'split');
+		this.browser.onNavigate = () => this.app.workspace.requestSaveLayout();
+		this.browser.initialViewState = this.pendingState;
+		this.browser.registerTriageKeys(this.triageScope);
+		this.browser.open();
+	}
+
+	async onClose() {
+		this.browser?.close();
+		this.browser = null;
+	}
+
+	getState(): Record<string, unknown> {
+		const state = (this.browser && this.browser.getViewState()) || this.pendingState;
+		return state ? { ...super.getState(), ...state } : super.getState();
+	}
+
+	async setState(state: any, result: ViewStateResult): Promise<void> {
+		if (state && typeof state.viewMode === 'string') {
+			this.pendingState = Object.assign({}, DEFAULT_SETTINGS.importViewState, state);
+			// Layouts are restored after onOpen, when the export may already be showing
+			if (this.browser) {
+				this.browser.initialViewState = this.pendingState;
+				if (this.browser.conversations.length > 0) {
+					this.browser.applyViewState(this.pendingState);
+					this.browser.showPluginExport();
+				}
+			}
+		}
+		await super.setState(state, result);
 	}
 }
 
@@ -1009,7 +4856,13 @@ class SaveNoteModal extends Modal {
 	userMessage?: any;
 	pairId?: string;
 	private saveInProgress: boolean = false;
-	private onSaveCallback?: () => void;
+	protected onSaveCallback?: () => void;
+	// Selected note template (null = built-in layout)
+	protected templateContent: string | null = null;
+	protected templateId: string = '';
+	private templateLoaded: boolean = false;
+	// {{now}} in templates; an update re-renders with the original save time
+	protected renderTime: Date = new Date();
 
 	constructor(app: App, plugin: ChatGPTToObsidianPlugin, conversation: any, message: any, userMessage?: any, pairId?: string, onSaveCallback?: () => void) {
 		super(app);
@@ -1024,14 +4877,14 @@ class SaveNoteModal extends Modal {
 	onOpen() {
 		const {contentEl} = this;
 
-		contentEl.createEl("h2", {text: "Save ChatGPT Response as Note"});
+		contentEl.createEl("h2", {text: this.getHeading()});
 
 		// Note title input
 		const titleDiv = contentEl.createDiv();
 		titleDiv.createEl("label", {text: "Note Title:"});
 		const titleInput = titleDiv.createEl("input", {
 			type: "text",
-			value: `${this.conversation.title} - Response`,
+			value: this.getDefaultTitle(),
 			attr: { style: "width: 100%; margin: 5px 0;" }
 		});
 
@@ -1095,15 +4948,16 @@ class SaveNoteModal extends Modal {
 			
 			filteredFolders.forEach(folder => {
 				const option = dropdownList.createEl("div");
-				option.textContent = folder || "(Root folder)";
 				option.style.cssText = "padding: 8px 12px; cursor: pointer; border-bottom: 1px solid var(--background-modifier-border-hover); transition: background-color 0.1s;";
 				
 				// Highlight matching text
-				if (filter && folder.toLowerCase().includes(filter.toLowerCase())) {
-					const regex = new RegExp(`(${filter})`, 'gi');
-					const displayText = folder || "(Root folder)";
-					option.innerHTML = displayText.replace(regex, '<mark style="background: var(--text-selection); padding: 0;">$1</mark>');
-				}
+				splitOnMatches(folder || "(Root folder)", folder ? filter : '').forEach(segment => {
+					if (segment.match) {
+						option.createEl("mark", {text: segment.text, attr: { style: "background: var(--text-selection); padding: 0;" }});
+					} else {
+						option.appendText(segment.text);
+					}
+				});
 				
 				// Hover effect
 				option.addEventListener('mouseenter', () => {
@@ -1124,7 +4978,7 @@ class SaveNoteModal extends Modal {
 			// Add option to create new folder if typing something not in list
 			if (filter && !filteredFolders.includes(filter) && filter.trim() !== '') {
 				const createOption = dropdownList.createEl("div");
-				createOption.innerHTML = `<span style="color: var(--interactive-accent);">📁 Create folder: "${filter}"</span>`;
+				createOption.createEl("span", {text: `📁 Create folder: "${filter}"`, attr: { style: "color: var(--interactive-accent);" }});
 				createOption.style.cssText = "padding: 8px 12px; cursor: pointer; border-top: 1px solid var(--background-modifier-border); background: var(--background-secondary); font-weight: 500;";
 				
 				createOption.addEventListener('mouseenter', () => {
@@ -1204,9 +5058,27 @@ class SaveNoteModal extends Modal {
 			attr: { style: "width: 100%; margin: 5px 0;" }
 		});
 
+		// Template selection
+		const templateDiv = contentEl.createDiv();
+		templateDiv.createEl("label", {text: "Template:"});
+		const templateSelect = templateDiv.createEl("select", {
+			attr: { style: "width: 100%; margin: 5px 0;" }
+		});
+		this.plugin.getNoteTemplateOptions().forEach(option => {
+			templateSelect.createEl("option", {text: option.name, value: option.id});
+		});
+		templateSelect.value = this.plugin.settings.defaultTemplate;
+		if (templateSelect.selectedIndex < 0) templateSelect.value = '';
+		templateSelect.onchange = async () => {
+			await this.setTemplate(templateSelect.value);
+			updatePreview();
+		};
+
 		// Preview
 		const previewDiv = contentEl.createDiv();
 		previewDiv.createEl("h4", {text: "Preview:"});
+		const pathPreviewEl = previewDiv.createDiv();
+		pathPreviewEl.style.cssText = "margin-bottom: 8px; font-size: 0.9em; color: var(--text-muted); word-break: break-all;";
 		const previewEl = previewDiv.createEl("pre");
 		previewEl.style.cssText = "background: var(--background-secondary); padding: 10px; border-radius: 5px; white-space: pre-wrap; max-height: 300px; overflow-y: auto;";
 		
@@ -1216,11 +5088,19 @@ class SaveNoteModal extends Modal {
 				tagsInput.value
 			);
 			previewEl.textContent = content;
+			
+			// Resolved file path, including the counter added when the name is taken
+			try {
+				pathPreviewEl.textContent = `📁 ${this.getUniqueNotePath(this.getNotePath(titleInput.value, folderInput.value))}`;
+			} catch (error) {
+				pathPreviewEl.textContent = `⚠️ ${error.message}`;
+			}
 		};
 		
 		titleInput.oninput = updatePreview;
 		tagsInput.oninput = updatePreview;
 		updatePreview();
+		this.setTemplate(templateSelect.value).then(updatePreview);
 
 		// Action buttons
 		const buttonDiv = contentEl.createDiv();
@@ -1260,12 +5140,116 @@ class SaveNoteModal extends Modal {
 			}
 		};
 
-		cancelButton.onclick = () => {
-			this.close();
-		};
+		cancelButton.onclick = () => {
+			this.close();
+		};
+	}
+
+	protected getHeading(): string {
+		return "Save ChatGPT Response as Note";
+	}
+
+	getDefaultTitle(): string {
+		const assistantMessages = this.conversation.messages.filter((msg: any) => msg.role === 'assistant');
+		const index = assistantMessages.findIndex((msg: any) => msg.id === this.message.id);
+		const promptMessage = this.getPromptMessage();
+		return resolveFilenamePattern(this.plugin.settings.filenamePattern, {
+			date: new Date(this.message.timestamp * 1000),
+			conversationTitle: this.conversation.title,
+			prompt: promptMessage ? promptMessage.content : '',
+			index: index >= 0 ? index + 1 : null,
+			id: this.message.id
+		});
+	}
+
+	// Load the template used by generateNoteContent; unknown ids fall back to the built-in layout
+	async setTemplate(id: string): Promise<void> {
+		this.templateContent = await this.plugin.loadNoteTemplate(id);
+		this.templateId = id;
+		this.templateLoaded = true;
+	}
+
+	// Generated note content for a saved note, rendered the way it was first saved
+	async renderSavedNote(record: SavedNoteRecord): Promise<string> {
+		this.renderTime = new Date(record.savedAt);
+		await this.setTemplate(record.templateId);
+		return this.generateNoteContent(record.title, record.tags).trimEnd();
+	}
+
+	// Copy images referenced by the note out of the export archive
+	async copyNoteAttachments(): Promise<number> {
+		return this.plugin.copyAttachments(this.getAttachmentSources().join('\n'));
+	}
+
+	// Message contents whose image attachments need copying into the vault
+	protected getAttachmentSources(): string[] {
+		const sources = [this.message.content];
+		if (this.userMessage && this.plugin.settings.includeUserPrompts) {
+			sources.push(this.userMessage.content);
+		}
+		return sources;
+	}
+
+	// Record the saved state once the note file exists
+	protected async markSaved(): Promise<void> {
+		if (!this.pairId) {
+			console.log('[SAVE DEBUG] No pairId provided, skipping metadata update');
+			return;
+		}
+		console.log('[SAVE DEBUG] Updating Q&A pair state for:', this.pairId);
+		const userPrompt = this.userMessage ? this.userMessage.content : "";
+		await this.plugin.updateQAPairState(this.pairId, QAPairState.SAVED, this.conversation.id, userPrompt, this.message.content);
+		console.log('[SAVE DEBUG] Q&A pair state updated successfully');
+	}
+
+	// Pairs whose content the note contains
+	protected getSavedPairIds(): string[] {
+		return this.pairId ? [this.pairId] : [];
+	}
+
+	protected getNoteKind(): SavedNoteRecord['kind'] {
+		return 'response';
 	}
 
 	generateNoteContent(title: string, tags: string): string {
+		if (this.templateContent !== null) {
+			return renderNoteTemplate(this.templateContent, this.getTemplateVariables(title, tags));
+		}
+		return this.generateFrontmatter(title, tags) + this.generateBody();
+	}
+
+	// Values available to note templates as {{name}}
+	protected getTemplateVariables(title: string, tags: string): TemplateVariables {
+		const tagArray = tags.split(',').map(t => t.trim()).filter(t => t);
+		const promptMessage = this.plugin.settings.includeUserPrompts ? this.getPromptMessage() : null;
+		return {
+			title: title,
+			tags: tagArray.join(', '),
+			prompt: promptMessage ? this.plugin.resolveAttachmentEmbeds(convertToMarkdown(promptMessage.content)) : '',
+			response: this.plugin.resolveAttachmentEmbeds(convertToMarkdown(this.message.content)),
+			content: this.generateBody(),
+			conversation_title: this.conversation.title,
+			conversation_id: this.conversation.id,
+			model: this.message.model || '',
+			date: new Date(this.message.timestamp * 1000),
+			updated: new Date(this.conversation.update_time * 1000),
+			now: this.renderTime
+		};
+	}
+
+	// The user message that prompted this response, if it directly precedes it
+	protected getPromptMessage(): ExtractedMessage | null {
+		const messageIndex = this.conversation.messages.findIndex((msg: any) => msg.id === this.message.id);
+		if (messageIndex > 0) {
+			const userMessage = this.conversation.messages[messageIndex - 1];
+			if (userMessage.role === 'user') {
+				return userMessage;
+			}
+		}
+		return null;
+	}
+
+	protected generateFrontmatter(title: string, tags: string): string {
 		const tagArray = tags.split(',').map(t => t.trim()).filter(t => t);
 		const timestamp = new Date(this.message.timestamp * 1000).toISOString().split('T')[0];
 		
@@ -1283,27 +5267,61 @@ class SaveNoteModal extends Modal {
 			content += `conversation: "${this.conversation.title}"\n`;
 		}
 		content += '---\n\n';
+		return content;
+	}
+
+	// Note body below the frontmatter; also available to templates as {{content}}
+	protected generateBody(): string {
+		let content = '';
 		
-		// Content
 		if (this.plugin.settings.includeUserPrompts) {
 			// Find the user message that prompted this response
-			const messageIndex = this.conversation.messages.findIndex((msg: any) => msg.id === this.message.id);
-			if (messageIndex > 0) {
-				const userMessage = this.conversation.messages[messageIndex - 1];
-				if (userMessage.role === 'user') {
-					content += '## User Prompt\n\n';
-					content += convertToMarkdown(userMessage.content) + '\n\n';
-				}
+			const userMessage = this.getPromptMessage();
+			if (userMessage) {
+				content += '## User Prompt\n\n';
+				content += this.plugin.resolveAttachmentEmbeds(convertToMarkdown(userMessage.content)) + '\n\n';
 			}
 		}
 		
 		content += '## Response\n\n';
-		content += convertToMarkdown(this.message.content);
+		content += this.plugin.resolveAttachmentEmbeds(convertToMarkdown(this.message.content));
 		
 		return content;
 	}
 
-	async saveNote(title: string, folder: string, tags: string): Promise<void> {
+	// Vault path for a note title, using the filename slug/length settings
+	getNotePath(title: string, folder: string): string {
+		const folderPath = folder.trim();
+		const fileName = formatNoteFileName(title, this.plugin.settings.filenameSlugify, this.plugin.settings.filenameMaxLength);
+		return folderPath ? `${folderPath}/${fileName}.md` : `${fileName}.md`;
+	}
+
+	// First free variant of basePath: "name.md", "name (1).md", "name (2).md", ...
+	getUniqueNotePath(basePath: string): string {
+		let finalPath = basePath;
+		let counter = 1;
+		const maxRetries = 100; // Prevent infinite loops
+		
+		while (this.app.vault.getAbstractFileByPath(finalPath)) {
+			const lastSlashIndex = basePath.lastIndexOf('/');
+			const dir = lastSlashIndex >= 0 ? basePath.substring(0, lastSlashIndex + 1) : '';
+			const nameWithExt = lastSlashIndex >= 0 ? basePath.substring(lastSlashIndex + 1) : basePath;
+			const lastDotIndex = nameWithExt.lastIndexOf('.');
+			const name = lastDotIndex >= 0 ? nameWithExt.substring(0, lastDotIndex) : nameWithExt;
+			const ext = lastDotIndex >= 0 ? nameWithExt.substring(lastDotIndex) : '';
+			
+			finalPath = `${dir}${name} (${counter})${ext}`;
+			counter++;
+			
+			if (counter > maxRetries) {
+				throw new Error(`Too many duplicate files. Unable to create unique filename after ${maxRetries} attempts.`);
+			}
+		}
+		return finalPath;
+	}
+
+	// Returns the path of the created note
+	async saveNote(title: string, folder: string, tags: string): Promise<string> {
 		console.log('[SAVE DEBUG] Starting save operation:', { title, folder, tags, pairId: this.pairId });
 		
 		// Prevent concurrent saves from the same modal
@@ -1317,7 +5335,16 @@ class SaveNoteModal extends Modal {
 		let createdFilePath: string | null = null;
 		
 		try {
-			const content = this.generateNoteContent(title, tags);
+			if (!this.templateLoaded) {
+				await this.setTemplate(this.plugin.settings.defaultTemplate);
+			}
+			const generated = this.generateNoteContent(title, tags).trimEnd();
+			const content = buildNoteFileContent(generated);
+			
+			const copiedAttachments = await this.copyNoteAttachments();
+			if (copiedAttachments > 0) {
+				console.log('[SAVE DEBUG] Copied attachments into vault:', copiedAttachments);
+			}
 			
 			// Ensure folder exists
 			const folderPath = folder.trim();
@@ -1326,29 +5353,11 @@ class SaveNoteModal extends Modal {
 			}
 			
 			// Use atomic file creation with retry logic
-			const safeTitle = title.replace(/[\\/:*?"<>|]/g, '-');
-			let finalPath = folderPath ? `${folderPath}/${safeTitle}.md` : `${safeTitle}.md`;
-			let counter = 1;
-			const maxRetries = 100; // Prevent infinite loops
+			const basePath = this.getNotePath(title, folderPath);
 			let fileCreated = false;
 			
 			// First, pre-check for duplicate files and generate a unique filename
-			const basePath = finalPath;
-			while (this.app.vault.getAbstractFileByPath(finalPath)) {
-				const lastSlashIndex = basePath.lastIndexOf('/');
-				const dir = lastSlashIndex >= 0 ? basePath.substring(0, lastSlashIndex + 1) : '';
-				const nameWithExt = lastSlashIndex >= 0 ? basePath.substring(lastSlashIndex + 1) : basePath;
-				const lastDotIndex = nameWithExt.lastIndexOf('.');
-				const name = lastDotIndex >= 0 ? nameWithExt.substring(0, lastDotIndex) : nameWithExt;
-				const ext = lastDotIndex >= 0 ? nameWithExt.substring(lastDotIndex) : '';
-				
-				finalPath = `${dir}${name} (${counter})${ext}`;
-				counter++;
-				
-				if (counter > maxRetries) {
-					throw new Error(`Too many duplicate files. Unable to create unique filename after ${maxRetries} attempts.`);
-				}
-			}
+			const finalPath = this.getUniqueNotePath(basePath);
 			
 			// Now attempt to create the file
 			console.log('[SAVE DEBUG] Attempting to create file:', finalPath);
@@ -1383,22 +5392,34 @@ class SaveNoteModal extends Modal {
 			if (!fileCreated) {
 				throw new Error('Failed to create file');
 			}
+			this.plugin.warnUnavailableAttachments(this.getAttachmentSources().join('\n'));
 			
 			// Only update Q&A pair state after successful file creation
-			if (this.pairId) {
-				console.log('[SAVE DEBUG] Updating Q&A pair state for:', this.pairId);
-				try {
-					const userPrompt = this.userMessage ? this.userMessage.content : "";
-					await this.plugin.updateQAPairState(this.pairId, QAPairState.SAVED, this.conversation.id, userPrompt, this.message.content);
-					console.log('[SAVE DEBUG] Q&A pair state updated successfully');
-				} catch (metadataError) {
-					// If metadata update fails, log it but don't fail the entire operation
-					console.error('[SAVE DEBUG] Failed to update Q&A pair metadata:', metadataError);
-					// Still consider the save successful since the file was created
-				}
-			} else {
-				console.log('[SAVE DEBUG] No pairId provided, skipping metadata update');
+			try {
+				await this.plugin.recordPairAction(`Save note "${title}"`, 'Save dialog', async () => {
+					await this.markSaved();
+					const pairIds = this.getSavedPairIds();
+					if (pairIds.length > 0) {
+						await this.plugin.recordSavedNote({
+							path: createdFilePath!,
+							kind: this.getNoteKind(),
+							conversationId: this.conversation.id,
+							pairIds,
+							title,
+							tags,
+							templateId: this.templateId,
+							contentHash: hashContent(generated),
+							savedAt: this.renderTime.getTime(),
+							timestamp: Date.now()
+						});
+					}
+				});
+			} catch (metadataError) {
+				// If metadata update fails, log it but don't fail the entire operation
+				console.error('[SAVE DEBUG] Failed to update Q&A pair metadata:', metadataError);
+				// Still consider the save successful since the file was created
 			}
+			return createdFilePath!;
 		} finally {
 			this.saveInProgress = false;
 			console.log('[SAVE DEBUG] Save operation completed, set saveInProgress = false');
@@ -1411,6 +5432,311 @@ class SaveNoteModal extends Modal {
 	}
 }
 
+// Saves every exchange of a conversation's selected branch (or a chosen subset) as one transcript note
+class SaveConversationModal extends SaveNoteModal {
+	private pairs: QAPair[];
+
+	constructor(app: App, plugin: ChatGPTToObsidianPlugin, conversation: ExtractedConversation, onSaveCallback?: () => void, pairs?: QAPair[]) {
+		super(app, plugin, conversation, null, undefined, undefined, onSaveCallback);
+		this.pairs = pairs || plugin.getQAPairs(conversation);
+	}
+
+	protected getHeading(): string {
+		return "Save Conversation as Note";
+	}
+
+	getDefaultTitle(): string {
+		const firstPrompt = this.pairs.find(pair => pair.userMessage && pair.userMessage.role === 'user');
+		return resolveFilenamePattern(this.plugin.settings.conversationFilenamePattern, {
+			date: new Date(this.conversation.create_time * 1000),
+			conversationTitle: this.conversation.title,
+			prompt: firstPrompt && firstPrompt.userMessage ? firstPrompt.userMessage.content : '',
+			index: null,
+			id: this.conversation.id
+		});
+	}
+
+	protected getAttachmentSources(): string[] {
+		const sources: string[] = [];
+		this.pairs.forEach(pair => {
+			if (this.plugin.settings.includeUserPrompts && pair.userMessage) {
+				sources.push(pair.userMessage.content);
+			}
+			sources.push(pair.assistantMessage.content);
+		});
+		return sources;
+	}
+
+	protected async markSaved(): Promise<void> {
+		console.log('[SAVE DEBUG] Marking conversation pairs as saved:', this.pairs.length);
+		await this.plugin.updateQAPairStates(this.pairs, QAPairState.SAVED, this.conversation.id);
+	}
+
+	protected getSavedPairIds(): string[] {
+		return this.pairs.map(pair => pair.pairId);
+	}
+
+	protected getNoteKind(): SavedNoteRecord['kind'] {
+		return 'conversation';
+	}
+
+	protected getTemplateVariables(title: string, tags: string): TemplateVariables {
+		const tagArray = tags.split(',').map(t => t.trim()).filter(t => t);
+		const models: string[] = [];
+		this.pairs.forEach(pair => {
+			const model = pair.assistantMessage.model;
+			if (model && models.indexOf(model) === -1) models.push(model);
+		});
+		// prompt/response are per-pair values; the whole transcript is {{content}}
+		return {
+			title: title,
+			tags: tagArray.join(', '),
+			prompt: '',
+			response: '',
+			content: this.generateBody(),
+			conversation_title: this.conversation.title,
+			conversation_id: this.conversation.id,
+			model: models.join(', '),
+			date: new Date(this.conversation.create_time * 1000),
+			updated: new Date(this.conversation.update_time * 1000),
+			now: this.renderTime
+		};
+	}
+
+	protected generateFrontmatter(title: string, tags: string): string {
+		const tagArray = tags.split(',').map(t => t.trim()).filter(t => t);
+		const toDate = (seconds: number) => new Date(seconds * 1000).toISOString().split('T')[0];
+		
+		let content = '';
+		
+		// YAML frontmatter
+		content += '---\n';
+		content += `title: "${title}"\n`;
+		if (tagArray.length > 0) {
+			content += `tags: [${tagArray.map(t => `"${t}"`).join(', ')}]\n`;
+		}
+		if (this.plugin.settings.includeTimestamps) {
+			content += `created: ${toDate(this.conversation.create_time)}\n`;
+			content += `updated: ${toDate(this.conversation.update_time)}\n`;
+			content += `source: ChatGPT\n`;
+			content += `conversation: "${this.conversation.title}"\n`;
+		}
+		content += '---\n\n';
+		return content;
+	}
+
+	protected generateBody(): string {
+		let content = '';
+		
+		// One section per exchange
+		this.pairs.forEach((pair, index) => {
+			content += `## Exchange ${index + 1}\n\n`;
+			if (this.plugin.settings.includeTimestamps && pair.assistantMessage.timestamp) {
+				content += `*${new Date(pair.assistantMessage.timestamp * 1000).toLocaleString()}*\n\n`;
+			}
+			if (this.plugin.settings.includeUserPrompts && pair.userMessage && pair.userMessage.role === 'user') {
+				content += '### User Prompt\n\n';
+				content += this.plugin.resolveAttachmentEmbeds(convertToMarkdown(pair.userMessage.content)) + '\n\n';
+			}
+			content += '### Response\n\n';
+			content += this.plugin.resolveAttachmentEmbeds(convertToMarkdown(pair.assistantMessage.content)) + '\n\n';
+		});
+		
+		return content.trimEnd() + '\n';
+	}
+}
+
+// Lists saved notes whose source changed, with a diff of each, and writes the selected ones
+class UpdateSavedNotesModal extends Modal {
+	plugin: ChatGPTToObsidianPlugin;
+	updates: SavedNoteUpdate[];
+	private onUpdated?: () => void;
+	private readonly DIFF_CONTEXT_LINES = 2;
+
+	constructor(app: App, plugin: ChatGPTToObsidianPlugin, updates: SavedNoteUpdate[], onUpdated?: () => void) {
+		super(app);
+		this.plugin = plugin;
+		this.updates = updates;
+		this.onUpdated = onUpdated;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+		
+		contentEl.createEl("h2", {text: "Update Saved Notes"});
+		contentEl.createEl("p", {
+			text: "These notes were generated from conversations or templates that have changed since. Text below the marker line in each note is kept.",
+			attr: { style: "color: var(--text-muted); font-size: 0.9em;" }
+		});
+		
+		const selected = new Set<SavedNoteUpdate>(this.updates);
+		const listDiv = contentEl.createDiv();
+		listDiv.style.cssText = "max-height: 450px; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 8px;";
+		
+		const updateButton = contentEl.createEl("button", {cls: "mod-cta"});
+		const refreshButton = () => {
+			updateButton.textContent = `Update ${selected.size} note${selected.size === 1 ? '' : 's'}`;
+			updateButton.disabled = selected.size === 0;
+		};
+		
+		this.updates.forEach(update => {
+			const diff = diffLines(update.oldGenerated, update.newGenerated);
+			const added = diff.filter(line => line.type === 'added').length;
+			const removed = diff.filter(line => line.type === 'removed').length;
+			
+			const item = listDiv.createDiv();
+			item.style.cssText = "padding: 10px; border-bottom: 1px solid var(--background-modifier-border);";
+			
+			const header = item.createEl("label", {attr: { style: "display: flex; align-items: center; gap: 8px; cursor: pointer;" }});
+			const checkbox = header.createEl("input", {type: "checkbox"});
+			checkbox.checked = true;
+			checkbox.onchange = () => {
+				if (checkbox.checked) {
+					selected.add(update);
+				} else {
+					selected.delete(update);
+				}
+				refreshButton();
+			};
+			header.createEl("span", {text: update.record.path, attr: { style: "font-weight: 500; word-break: break-all; flex: 1;" }});
+			header.createEl("span", {text: `+${added} −${removed}`, attr: { style: "color: var(--text-muted); font-size: 0.85em; white-space: nowrap;" }});
+			
+			const details = item.createEl("details");
+			details.createEl("summary", {text: "Show changes", attr: { style: "cursor: pointer; color: var(--text-muted); font-size: 0.85em; margin-top: 5px;" }});
+			this.displayDiff(details.createEl("pre"), diff);
+		});
+		
+		const buttonDiv = contentEl.createDiv();
+		buttonDiv.style.cssText = "display: flex; gap: 10px; margin-top: 20px;";
+		buttonDiv.appendChild(updateButton);
+		const cancelButton = buttonDiv.createEl("button", {text: "Cancel"});
+		refreshButton();
+		
+		updateButton.onclick = async () => {
+			updateButton.disabled = true;
+			updateButton.textContent = "Updating...";
+			const toUpdate = this.updates.filter(update => selected.has(update));
+			const updated = await this.plugin.applySavedNoteUpdates(toUpdate);
+			const failed = toUpdate.length - updated;
+			new Notice(failed > 0 ?
+				`Updated ${updated} note${updated === 1 ? '' : 's'}, ${failed} failed (see console)` :
+				`Updated ${updated} note${updated === 1 ? '' : 's'}`);
+			if (this.onUpdated) {
+				this.onUpdated();
+			}
+			this.close();
+		};
+		cancelButton.onclick = () => this.close();
+	}
+
+	// Changed lines with a little context; long unchanged stretches are collapsed
+	private displayDiff(pre: HTMLElement, diff: DiffLine[]) {
+		pre.style.cssText = "background: var(--background-secondary); padding: 8px; border-radius: 5px; white-space: pre-wrap; max-height: 300px; overflow-y: auto; font-size: 0.85em;";
+		const near = diff.map((line, index) => {
+			for (let i = Math.max(0, index - this.DIFF_CONTEXT_LINES); i <= Math.min(diff.length - 1, index + this.DIFF_CONTEXT_LINES); i++) {
+				if (diff[i].type !== 'same') return true;
+			}
+			return false;
+		});
+		
+		let hidden = 0;
+		diff.forEach((line, index) => {
+			if (!near[index]) {
+				hidden++;
+				return;
+			}
+			if (hidden > 0) {
+				pre.createDiv({text: `… ${hidden} unchanged line${hidden === 1 ? '' : 's'}`, attr: { style: "color: var(--text-faint);" }});
+				hidden = 0;
+			}
+			if (line.type === 'added') {
+				pre.createDiv({text: `+ ${line.text}`, attr: { style: "color: var(--text-success); background: rgba(var(--color-green-rgb), 0.1);" }});
+			} else if (line.type === 'removed') {
+				pre.createDiv({text: `- ${line.text}`, attr: { style: "color: var(--text-error); background: rgba(var(--color-red-rgb), 0.1);" }});
+			} else {
+				pre.createDiv({text: `  ${line.text}`});
+			}
+		});
+		if (hidden > 0) {
+			pre.createDiv({text: `… ${hidden} unchanged line${hidden === 1 ? '' : 's'}`, attr: { style: "color: var(--text-faint);" }});
+		}
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
+// The undo history, newest first: what changed, when, where from, and the notes written
+class PairHistoryModal extends Modal {
+	plugin: ChatGPTToObsidianPlugin;
+
+	constructor(app: App, plugin: ChatGPTToObsidianPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		const {contentEl} = this;
+
+		contentEl.createEl("h2", {text: "Q&A Pair History"});
+		contentEl.createEl("p", {
+			text: `The last ${ACTION_LOG_LIMIT} changes are kept. Undo goes back one action at a time; undoing a save moves its note to the trash.`,
+			attr: { style: "color: var(--text-muted); font-size: 0.9em;" }
+		});
+
+		const listDiv = contentEl.createDiv();
+		listDiv.style.cssText = "max-height: 450px; overflow-y: auto; border: 1px solid var(--background-modifier-border); border-radius: 8px;";
+
+		const stateNames: { [state: string]: string } = { new: '🆕 New', ignored: '🚫 Ignored', saved: '✅ Saved' };
+		this.plugin.getPairActionLog().slice().reverse().forEach(action => {
+			const item = listDiv.createDiv();
+			item.style.cssText = `padding: 10px; border-bottom: 1px solid var(--background-modifier-border);${action.undone ? ' opacity: 0.6;' : ''}`;
+
+			const header = item.createDiv({attr: { style: "display: flex; align-items: center; gap: 8px;" }});
+			header.createEl("span", {text: action.label, attr: { style: "font-weight: 500; flex: 1;" }});
+			if (action.undone) {
+				header.createEl("span", {text: "↶ Undone", attr: { style: "color: var(--text-muted); font-size: 0.85em;" }});
+			}
+			item.createDiv({
+				text: `${new Date(action.timestamp).toLocaleString()} • ${action.source}${action.changes.length > 0 ? ' • ' + summarizePairChanges(action.changes) : ''}`,
+				attr: { style: "color: var(--text-muted); font-size: 0.85em; margin-top: 2px;" }
+			});
+			action.notes.forEach(note => {
+				item.createDiv({
+					text: `📝 ${note.record.path}${note.content !== undefined ? ' (in trash)' : ''}`,
+					attr: { style: "font-size: 0.85em; margin-top: 2px; word-break: break-all;" }
+				});
+			});
+
+			if (action.changes.length > 0) {
+				const details = item.createEl("details");
+				details.createEl("summary", {text: "Show pairs", attr: { style: "cursor: pointer; color: var(--text-muted); font-size: 0.85em; margin-top: 5px;" }});
+				action.changes.forEach(change => {
+					const before = change.before ? change.before.state : QAPairState.NEW;
+					const after = change.after ? change.after.state : QAPairState.NEW;
+					const snapshot = change.after || change.before;
+					details.createDiv({
+						text: `${stateNames[before]} → ${stateNames[after]}: ${snapshot && snapshot.userPrompt ? snapshot.userPrompt : change.pairId}`,
+						attr: { style: "font-size: 0.85em; padding: 2px 0; white-space: nowrap; overflow: hidden; text-overflow: ellipsis;" }
+					});
+				});
+			}
+		});
+
+		const buttonDiv = contentEl.createDiv();
+		buttonDiv.style.cssText = "display: flex; gap: 10px; margin-top: 20px;";
+		const closeButton = buttonDiv.createEl("button", {text: "Close"});
+		closeButton.onclick = () => this.close();
+	}
+
+	onClose() {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
+
 class ChatGPTSettingTab extends PluginSettingTab {
 	plugin: ChatGPTToObsidianPlugin;
 
@@ -1437,6 +5763,17 @@ class ChatGPTSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
+		new Setting(containerEl)
+			.setName('Attachments folder')
+			.setDesc('Folder for images copied from the export archive')
+			.addText(text => text
+				.setPlaceholder('ChatGPT/attachments')
+				.setValue(this.plugin.settings.attachmentsFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.attachmentsFolder = value;
+					await this.plugin.saveSettings();
+				}));
+
 		new Setting(containerEl)
 			.setName('Include user prompts')
 			.setDesc('Include the user prompt that generated the response')
@@ -1467,5 +5804,181 @@ class ChatGPTSettingTab extends PluginSettingTab {
 					this.plugin.settings.defaultTags = value;
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl)
+			.setName('Reset pairs when their note is deleted')
+			.setDesc('Mark a saved Q&A pair as new again once every note saved from it has been deleted')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.revertDeletedNotes)
+				.onChange(async (value) => {
+					this.plugin.settings.revertDeletedNotes = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Remember the loaded export')
+			.setDesc('Keep the imported conversations in the plugin folder so the importer reopens without importing again. Turning this off deletes the cached copy.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.cacheLoadedExport)
+				.onChange(async (value) => {
+					this.plugin.settings.cacheLoadedExport = value;
+					await this.plugin.saveSettings();
+					if (!value) {
+						await this.plugin.clearExportCache();
+					} else if (this.plugin.loadedExport && !this.plugin.loadedExport.fromCache) {
+						await this.plugin.saveExportCache(this.plugin.loadedExport);
+					}
+				}));
+
+		containerEl.createEl('h3', {text: 'Triage keys'});
+		const triageHelp = containerEl.createEl('p', {
+			text: 'Single keys used in triage mode. Leave a key empty to turn it off, for example when a hotkey of the matching "Triage: ..." command uses it.'
+		});
+		triageHelp.style.cssText = "color: var(--text-muted); font-size: 0.9em;";
+
+		TRIAGE_KEY_LABELS.forEach(([name, label]) => {
+			new Setting(containerEl)
+				.setName(label.charAt(0).toUpperCase() + label.slice(1))
+				.addText(text => text
+					.setPlaceholder('off')
+					.setValue(this.plugin.settings.triageKeys[name])
+					.onChange(async (value) => {
+						const key = value.trim().toLowerCase();
+						if (key.length > 1) return;
+						this.plugin.settings.triageKeys[name] = key;
+						await this.plugin.saveSettings();
+					}));
+		});
+
+		containerEl.createEl('h3', {text: 'File names'});
+		const filenameHelp = containerEl.createEl('p', {
+			text: 'Tokens: {{conversation_title}}, {{date:YYYY-MM-DD}}, {{prompt:6}} (first words of the prompt), {{index:3}} (pair number, zero-padded) and {{id:8}} (short message id).'
+		});
+		filenameHelp.style.cssText = "color: var(--text-muted); font-size: 0.9em;";
+
+		new Setting(containerEl)
+			.setName('Response note name')
+			.setDesc('Default title and file name when saving a single response')
+			.addText(text => text
+				.setPlaceholder('{{conversation_title}} - Response')
+				.setValue(this.plugin.settings.filenamePattern)
+				.onChange(async (value) => {
+					this.plugin.settings.filenamePattern = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Conversation note name')
+			.setDesc('Default title and file name when saving a whole conversation')
+			.addText(text => text
+				.setPlaceholder('{{conversation_title}}')
+				.setValue(this.plugin.settings.conversationFilenamePattern)
+				.onChange(async (value) => {
+					this.plugin.settings.conversationFilenamePattern = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Slugify file names')
+			.setDesc('Use lowercase-with-dashes file names (the note title is unchanged)')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.filenameSlugify)
+				.onChange(async (value) => {
+					this.plugin.settings.filenameSlugify = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Maximum file name length')
+			.setDesc('Longer names are cut at a word boundary (0 for no limit)')
+			.addText(text => text
+				.setPlaceholder('100')
+				.setValue(this.plugin.settings.filenameMaxLength.toString())
+				.onChange(async (value) => {
+					const length = parseInt(value, 10);
+					if (isNaN(length) || length < 0) return;
+					this.plugin.settings.filenameMaxLength = length;
+					await this.plugin.saveSettings();
+				}));
+
+		containerEl.createEl('h3', {text: 'Note templates'});
+		const templateHelp = containerEl.createEl('p', {
+			text: 'Variables: {{title}}, {{tags}}, {{prompt}}, {{response}}, {{content}} (the built-in note body), {{conversation_title}}, {{conversation_id}}, {{model}}, {{date}}, {{updated}} and {{now}}. ' +
+				'Dates accept a format such as {{date:YYYY-MM-DD HH:mm}}. Conditionals: {{#if prompt}}...{{else}}...{{/if}} and {{#unless model}}...{{/unless}}.'
+		});
+		templateHelp.style.cssText = "color: var(--text-muted); font-size: 0.9em;";
+
+		new Setting(containerEl)
+			.setName('Default template')
+			.setDesc('Template preselected when saving notes (also used by bulk saves)')
+			.addDropdown(dropdown => {
+				this.plugin.getNoteTemplateOptions().forEach(option => dropdown.addOption(option.id, option.name));
+				dropdown
+					.setValue(this.plugin.settings.defaultTemplate)
+					.onChange(async (value) => {
+						this.plugin.settings.defaultTemplate = value;
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('Templates folder')
+			.setDesc('Markdown files in this vault folder are offered as templates')
+			.addText(text => text
+				.setPlaceholder('Templates/ChatGPT')
+				.setValue(this.plugin.settings.templatesFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.templatesFolder = value;
+					await this.plugin.saveSettings();
+				}));
+
+		this.plugin.settings.noteTemplates.forEach((template, index) => {
+			new Setting(containerEl)
+				.setName(`Template ${index + 1}`)
+				.addText(text => text
+					.setPlaceholder('Template name')
+					.setValue(template.name)
+					.onChange(async (value) => {
+						// Keep the default pointing at this template when it is renamed
+						if (this.plugin.settings.defaultTemplate === `settings:${template.name}`) {
+							this.plugin.settings.defaultTemplate = `settings:${value}`;
+						}
+						template.name = value;
+						await this.plugin.saveSettings();
+					}))
+				.addTextArea(textArea => {
+					textArea
+						.setValue(template.content)
+						.onChange(async (value) => {
+							template.content = value;
+							await this.plugin.saveSettings();
+						});
+					textArea.inputEl.rows = 10;
+					textArea.inputEl.style.cssText = "width: 100%; font-family: var(--font-monospace);";
+				})
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete template')
+					.onClick(async () => {
+						if (this.plugin.settings.defaultTemplate === `settings:${template.name}`) {
+							this.plugin.settings.defaultTemplate = '';
+						}
+						this.plugin.settings.noteTemplates.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add template')
+				.onClick(async () => {
+					this.plugin.settings.noteTemplates.push({
+						name: `Template ${this.plugin.settings.noteTemplates.length + 1}`,
+						content: DEFAULT_NOTE_TEMPLATE
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				}));
 	}
 }
@@ -2,6 +2,100 @@
 const fs = require('fs');
 const path = require('path');
 
+// Wrap text in a code fence longer than any backtick run inside it
+function toCodeFence(text, language = '') {
+	const runs = text.match(/`+/g) || [];
+	const longestRun = runs.reduce((max, run) => Math.max(max, run.length), 0);
+	const fence = '`'.repeat(Math.max(3, longestRun + 1));
+	return `${fence}${language}\n${text.replace(/\n+$/, '')}\n${fence}`;
+}
+
+// Obsidian callout; a trailing '-' on the type makes it collapsed by default
+function toCallout(type, title, body, collapsed = true) {
+	const header = `> [!${type}]${collapsed ? '-' : ''} ${title}`.trimEnd();
+	const lines = body.trim() ? body.trim().split('\n').map(line => line ? `> ${line}` : '>') : [];
+	return [header, ...lines].join('\n');
+}
+
+// Flatten text parts; image parts become Markdown image links to their asset pointer
+function renderParts(content) {
+	const parts = content.parts || [];
+	return parts
+		.map(part => {
+			if (typeof part === 'string') return part;
+			if (part && part.content_type === 'image_asset_pointer' && part.asset_pointer) {
+				const alt = part.metadata?.dalle ? 'generated image' : 'image';
+				return `![${alt}](${part.asset_pointer})`;
+			}
+			return null;
+		})
+		.filter(text => text !== null)
+		.join('\n');
+}
+
+// Markdown list of the sources a browsing result cites
+function renderCitations(message) {
+	const sources = message.metadata?._cite_metadata?.metadata_list || [];
+	return sources
+		.filter(source => source.url)
+		.map(source => `- [${(source.title || source.url || '').replace(/[[\]]/g, '')}](${source.url})`)
+		.join('\n');
+}
+
+// Per-content-type renderers. Content types without an entry fall back to their text parts.
+const CONTENT_RENDERERS = {
+	text: (content) => renderParts(content),
+	multimodal_text: (content) => renderParts(content),
+	code: (content, message) => {
+		// Code Interpreter reports 'unknown'; the recipient tells us it is Python
+		let language = content.language && content.language !== 'unknown' ? content.language : '';
+		if (!language && message.recipient === 'python') {
+			language = 'python';
+		}
+		return content.text ? toCodeFence(content.text, language) : '';
+	},
+	execution_output: (content) => content.text ? toCallout('example', 'Output', toCodeFence(content.text)) : '',
+	tether_browsing_display: (content, message) => {
+		const sections = [content.summary, content.result].filter(text => !!text && !!text.trim());
+		const citations = renderCitations(message);
+		if (citations) {
+			sections.push('**Sources**\n' + citations);
+		}
+		return sections.length > 0 ? toCallout('info', 'Browsing results', sections.join('\n\n')) : '';
+	},
+	tether_quote: (content) => {
+		const title = content.title || content.domain || content.url || 'Quote';
+		const heading = content.url ? `[${String(title).replace(/[[\]]/g, '')}](${content.url})` : title;
+		return content.text ? toCallout('quote', heading, content.text) : '';
+	},
+	thoughts: (content) => {
+		const thoughts = content.thoughts || [];
+		const body = thoughts
+			.map(thought => [thought.summary ? `**${thought.summary}**` : '', thought.content || ''].filter(Boolean).join('\n'))
+			.filter(Boolean)
+			.join('\n\n');
+		return body ? toCallout('abstract', 'Reasoning', body) : '';
+	},
+	reasoning_recap: (content) => content.content ? `*${content.content}*` : '',
+	system_error: (content) => toCallout('error', content.name || 'Error', content.text || '', false),
+};
+
+// Render a message's content to Markdown using the renderer for its content type
+function renderMessageContent(message) {
+	const content = message.content;
+	if (!content) return '';
+	const renderer = CONTENT_RENDERERS[content.content_type] || CONTENT_RENDERERS.text;
+	return renderer(content, message);
+}
+
+// Tool calls, tool output and reasoning are folded into the assistant response that follows them
+function isIntermediateMessage(message) {
+	if (message.author.role === 'tool') return true;
+	return message.author.role === 'assistant' &&
+		message.content?.content_type !== 'text' &&
+		message.content?.content_type !== 'multimodal_text';
+}
+
 // Mock the main plugin class for testing
 class ChatGPTToObsidianPlugin {
 	parseChatGPTData(jsonContent) {
@@ -16,31 +110,12 @@ class ChatGPTToObsidianPlugin {
 
 	extractConversations(conversations) {
 		return conversations.map(conv => {
-			const messages = [];
-			const mapping = conv.mapping;
+			const branches = this.extractBranches(conv);
 			
-			// Find the conversation root
-			let current = Object.values(mapping).find(msg => 
-				msg.message && msg.message.author.role === 'user' && msg.parent && 
-				mapping[msg.parent]?.message?.author.role === 'system'
-			);
-
-			// Walk the conversation thread
-			while (current) {
-				if (current.message && current.message.author.role !== 'system') {
-					const content = current.message.content.parts?.join('\n') || '';
-					if (content.trim()) {
-						messages.push({
-							role: current.message.author.role,
-							content: content,
-							timestamp: current.message.create_time || 0,
-							id: current.id
-						});
-					}
-				}
-
-				// Find next message in chain
-				current = current.children.length > 0 ? mapping[current.children[0]] : null;
+			// Prefer the branch that was active in ChatGPT, otherwise the children[0] path
+			let currentBranchIndex = branches.findIndex(branch => branch.isCurrent);
+			if (currentBranchIndex < 0) {
+				currentBranchIndex = 0;
 			}
 
 			return {
@@ -48,9 +123,121 @@ class ChatGPTToObsidianPlugin {
 				id: conv.id,
 				create_time: conv.create_time,
 				update_time: conv.update_time,
-				messages: messages
+				messages: branches.length > 0 ? branches[currentBranchIndex].messages : [],
+				branches: branches,
+				currentBranchIndex: currentBranchIndex,
+				selectedBranchIndex: currentBranchIndex
+			};
+		});
+	}
+
+	extractBranches(conv) {
+		const mapping = conv.mapping || {};
+		const nodes = Object.values(mapping);
+		const roots = nodes.filter(node => !node.parent || !mapping[node.parent]);
+
+		// Depth-first walk collecting leaves in children order
+		const leaves = [];
+		const visited = new Set();
+		const stack = roots.slice().reverse();
+		while (stack.length > 0) {
+			const node = stack.pop();
+			if (visited.has(node.id)) continue;
+			visited.add(node.id);
+
+			const children = node.children
+				.map(childId => mapping[childId])
+				.filter(child => child !== undefined);
+			if (children.length === 0) {
+				leaves.push(node);
+			} else {
+				for (let i = children.length - 1; i >= 0; i--) {
+					stack.push(children[i]);
+				}
+			}
+		}
+
+		const branches = [];
+		const seenPaths = new Map();
+
+		leaves.forEach(leaf => {
+			const path = [];
+			const pathIds = new Set();
+			let current = leaf;
+			while (current && !pathIds.has(current.id)) {
+				path.push(current);
+				pathIds.add(current.id);
+				current = current.parent ? mapping[current.parent] : undefined;
+			}
+			path.reverse();
+
+			const messages = [];
+			let pending = [];
+			let pendingNode = null;
+			const flushPending = () => {
+				if (pendingNode && pendingNode.message && pending.length > 0) {
+					messages.push({
+						role: 'assistant',
+						content: pending.join('\n\n'),
+						timestamp: pendingNode.message.create_time || 0,
+						id: pendingNode.id
+					});
+				}
+				pending = [];
+				pendingNode = null;
 			};
+
+			path.forEach(node => {
+				if (!node.message || node.message.author.role === 'system') return;
+				
+				let content = renderMessageContent(node.message);
+				if (!content.trim()) return;
+
+				if (isIntermediateMessage(node.message)) {
+					pending.push(content);
+					pendingNode = node;
+					return;
+				}
+
+				if (node.message.author.role === 'assistant' && pending.length > 0) {
+					content = pending.join('\n\n') + '\n\n' + content;
+					pending = [];
+					pendingNode = null;
+				} else {
+					flushPending();
+				}
+
+				messages.push({
+					role: node.message.author.role,
+					content: content,
+					timestamp: node.message.create_time || 0,
+					id: node.id
+				});
+			});
+			flushPending();
+
+			const isCurrent = !!conv.current_node && pathIds.has(conv.current_node);
+			const pathKey = messages.map(msg => msg.id).join('/');
+			const existing = seenPaths.get(pathKey);
+			if (existing) {
+				existing.isCurrent = existing.isCurrent || isCurrent;
+				return;
+			}
+
+			const branch = { leafId: leaf.id, messages, isCurrent };
+			seenPaths.set(pathKey, branch);
+			branches.push(branch);
 		});
+
+		const isPrefixOfAnother = branch => branches.some(other =>
+			other !== branch &&
+			other.messages.length > branch.messages.length &&
+			branch.messages.every((msg, i) => other.messages[i].id === msg.id)
+		);
+		const distinct = branches.filter(branch =>
+			branch.messages.length > 0 && (branch.isCurrent || !isPrefixOfAnother(branch))
+		);
+		return distinct.length > 0 ? distinct : branches.slice(0, 1);
 	}
 }
 
@@ -118,7 +305,8 @@ try {
 	// Display summary
 	cleanConversations.forEach((conv, i) => {
 		const assistantMessages = conv.messages.filter(msg => msg.role === 'assistant');
-		console.log(`${i + 1}. "${conv.title}" - ${conv.messages.length} messages, ${assistantMessages.length} responses`);
+		const branchInfo = conv.branches.length > 1 ? `, ${conv.branches.length} branches (current: ${conv.currentBranchIndex + 1})` : '';
+		console.log(`${i + 1}. "${conv.title}" - ${conv.messages.length} messages, ${assistantMessages.length} responses${branchInfo}`);
 		
 		if (assistantMessages.length > 0) {
 			const firstResponse = assistantMessages[0];
@@ -0,0 +1,237 @@
+import { describe, test, expect } from '@jest/globals';
+
+// Reproduce the table of contents filter logic from main.ts for testing
+const ASSET_POINTER_IMAGE_REGEX = /!\[([^\]]*)\]\(((?:file-service|sediment):\/\/[^)\s]+)\)/g;
+
+interface ExtractedMessage {
+  role: string;
+  content: string;
+  timestamp: number;
+  id: string;
+  model?: string;
+}
+
+interface ExtractedConversation {
+  title: string;
+  id: string;
+  create_time: number;
+  update_time: number;
+  messages: ExtractedMessage[];
+}
+
+// Table of contents filters, persisted in settings between sessions
+interface ConversationFilters {
+  showNew: boolean;
+  showPartiallyProcessed: boolean;
+  showFullyProcessed: boolean;
+  dateField: 'created' | 'updated';
+  dateFrom: string; // YYYY-MM-DD, '' = open
+  dateTo: string;
+  model: string; // model_slug, '' = any
+  minResponses: number | null;
+  maxResponses: number | null;
+  hasCodeBlocks: boolean;
+  hasAttachments: boolean;
+  newTurnsOnly: boolean; // Only conversations with responses added since the previous import
+}
+
+// Per-conversation facts used by the table of contents filters
+interface ConversationStats {
+  responseCount: number;
+  models: string[];
+  hasCodeBlocks: boolean;
+  hasAttachments: boolean;
+}
+
+// Keyed by the messages array, so selecting another branch (which swaps the array) recomputes the stats
+const conversationStatsCache = new WeakMap<ExtractedMessage[], ConversationStats>();
+
+function getConversationStats(conv: ExtractedConversation): ConversationStats {
+  const cached = conversationStatsCache.get(conv.messages);
+  if (cached) return cached;
+  
+  const stats: ConversationStats = { responseCount: 0, models: [], hasCodeBlocks: false, hasAttachments: false };
+  const imageRegex = new RegExp(ASSET_POINTER_IMAGE_REGEX.source);
+  conv.messages.forEach(msg => {
+    if (msg.role === 'assistant') {
+      stats.responseCount++;
+      if (msg.model && stats.models.indexOf(msg.model) === -1) stats.models.push(msg.model);
+      if (!stats.hasCodeBlocks && /^\s*(```|~~~)/m.test(msg.content)) stats.hasCodeBlocks = true;
+    }
+    if (!stats.hasAttachments && imageRegex.test(msg.content)) stats.hasAttachments = true;
+  });
+  conversationStatsCache.set(conv.messages, stats);
+  return stats;
+}
+
+// Date, model, length and content filters (the processing-status toggles are checked separately)
+function matchesConversationFilters(conv: ExtractedConversation, filters: ConversationFilters): boolean {
+  const time = filters.dateField === 'updated' ? conv.update_time : conv.create_time;
+  if (filters.dateFrom) {
+    const from = new Date(`${filters.dateFrom}T00:00:00`).getTime() / 1000;
+    if (!isNaN(from) && time < from) return false;
+  }
+  if (filters.dateTo) {
+    const to = new Date(`${filters.dateTo}T23:59:59.999`).getTime() / 1000;
+    if (!isNaN(to) && time > to) return false;
+  }
+  
+  const stats = getConversationStats(conv);
+  if (filters.model && stats.models.indexOf(filters.model) === -1) return false;
+  if (filters.minResponses !== null && stats.responseCount < filters.minResponses) return false;
+  if (filters.maxResponses !== null && stats.responseCount > filters.maxResponses) return false;
+  if (filters.hasCodeBlocks && !stats.hasCodeBlocks) return false;
+  if (filters.hasAttachments && !stats.hasAttachments) return false;
+  return true;
+}
+
+// Table of contents ordering, remembered in settings
+interface ConversationSort {
+  field: 'export' | 'created' | 'updated' | 'title' | 'responses' | 'newPairs';
+  direction: 'asc' | 'desc';
+}
+
+// Order conversations for the table of contents; ties (and 'export') keep the order of the export file
+function sortConversations<T extends { conversation: ExtractedConversation; originalIndex: number }>(
+  items: T[],
+  sort: ConversationSort,
+  countNewPairs: (conv: ExtractedConversation) => number
+): T[] {
+  const keys = new Map<T, string | number>();
+  items.forEach(item => {
+    const conv = item.conversation;
+    switch (sort.field) {
+      case 'created': keys.set(item, conv.create_time || 0); break;
+      case 'updated': keys.set(item, conv.update_time || 0); break;
+      case 'title': keys.set(item, (conv.title || '').toLowerCase()); break;
+      case 'responses': keys.set(item, getConversationStats(conv).responseCount); break;
+      case 'newPairs': keys.set(item, countNewPairs(conv)); break;
+      default: keys.set(item, item.originalIndex);
+    }
+  });
+  const direction = sort.direction === 'desc' ? -1 : 1;
+  return items.slice().sort((a, b) => {
+    const keyA = keys.get(a)!;
+    const keyB = keys.get(b)!;
+    const order = typeof keyA === 'string' && typeof keyB === 'string' ?
+      keyA.localeCompare(keyB) :
+      (keyA as number) - (keyB as number);
+    return order * direction || a.originalIndex - b.originalIndex;
+  });
+}
+
+const DEFAULT_FILTERS: ConversationFilters = {
+  showNew: true,
+  showPartiallyProcessed: true,
+  showFullyProcessed: false,
+  dateField: 'created',
+  dateFrom: '',
+  dateTo: '',
+  model: '',
+  minResponses: null,
+  maxResponses: null,
+  hasCodeBlocks: false,
+  hasAttachments: false,
+  newTurnsOnly: false
+};
+
+const seconds = (date: string) => new Date(date).getTime() / 1000;
+
+const conversation = (id: string, created: string, updated: string, turns: Array<{ prompt?: string; response?: string; model?: string }>): ExtractedConversation => ({
+  title: id,
+  id,
+  create_time: seconds(created),
+  update_time: seconds(updated),
+  messages: turns.reduce<ExtractedMessage[]>((messages, turn, index) => messages.concat([
+    { role: 'user', content: turn.prompt || 'Question', timestamp: 0, id: `${id}-u${index}` },
+    { role: 'assistant', content: turn.response || 'Answer', timestamp: 0, id: `${id}-a${index}`, model: turn.model }
+  ]), [])
+});
+
+describe('Conversation filters', () => {
+  const plain = conversation('plain', '2024-01-10T12:00:00', '2024-03-01T12:00:00', [{ model: 'gpt-4o' }]);
+  const code = conversation('code', '2024-02-10T12:00:00', '2024-02-11T12:00:00', [
+    { model: 'o1', response: 'Try this:\n\n```python\nprint(1)\n```' },
+    { model: 'gpt-4o' },
+    { model: 'o1' }
+  ]);
+  const image = conversation('image', '2024-03-10T12:00:00', '2024-03-10T13:00:00', [
+    { prompt: 'What is this? ![image](file-service://file-abc)' }
+  ]);
+  const filter = (changes: Partial<ConversationFilters>) =>
+    [plain, code, image].filter(conv => matchesConversationFilters(conv, { ...DEFAULT_FILTERS, ...changes })).map(conv => conv.id);
+
+  test('should pass everything with default filters', () => {
+    expect(filter({})).toEqual(['plain', 'code', 'image']);
+  });
+
+  test('should filter by inclusive created date range', () => {
+    expect(filter({ dateFrom: '2024-02-10' })).toEqual(['code', 'image']);
+    expect(filter({ dateTo: '2024-02-10' })).toEqual(['plain', 'code']);
+    expect(filter({ dateFrom: '2024-02-01', dateTo: '2024-02-28' })).toEqual(['code']);
+  });
+
+  test('should filter by updated date when selected', () => {
+    expect(filter({ dateField: 'updated', dateFrom: '2024-03-01' })).toEqual(['plain', 'image']);
+  });
+
+  test('should filter by model slug', () => {
+    expect(filter({ model: 'o1' })).toEqual(['code']);
+    expect(filter({ model: 'gpt-4o' })).toEqual(['plain', 'code']);
+  });
+
+  test('should filter by number of responses', () => {
+    expect(filter({ minResponses: 2 })).toEqual(['code']);
+    expect(filter({ maxResponses: 1 })).toEqual(['plain', 'image']);
+    expect(filter({ minResponses: 1, maxResponses: 3 })).toEqual(['plain', 'code', 'image']);
+  });
+
+  test('should filter by code blocks and attachments', () => {
+    expect(filter({ hasCodeBlocks: true })).toEqual(['code']);
+    expect(filter({ hasAttachments: true })).toEqual(['image']);
+    expect(filter({ hasCodeBlocks: true, hasAttachments: true })).toEqual([]);
+  });
+
+  test('should recompute stats when the selected branch swaps the messages array', () => {
+    const conv = conversation('branchy', '2024-01-01T00:00:00', '2024-01-01T00:00:00', [{}]);
+    expect(getConversationStats(conv).hasCodeBlocks).toBe(false);
+    conv.messages = conv.messages.map(msg => msg.role === 'assistant' ? { ...msg, content: '```\ncode\n```' } : msg);
+    expect(getConversationStats(conv).hasCodeBlocks).toBe(true);
+  });
+});
+
+describe('Conversation sorting', () => {
+  const items = [
+    conversation('beta', '2024-02-01T00:00:00', '2024-05-01T00:00:00', [{}, {}]),
+    conversation('Alpha', '2024-03-01T00:00:00', '2024-03-02T00:00:00', [{}]),
+    conversation('gamma', '2024-01-01T00:00:00', '2024-06-01T00:00:00', [{}, {}, {}])
+  ].map((conv, index) => ({ conversation: conv, originalIndex: index }));
+  const newPairs: { [id: string]: number } = { beta: 0, Alpha: 1, gamma: 1 };
+  const sorted = (field: ConversationSort['field'], direction: ConversationSort['direction']) =>
+    sortConversations(items, { field, direction }, conv => newPairs[conv.id]).map(item => item.conversation.id);
+
+  test('should keep export order by default', () => {
+    expect(sorted('export', 'asc')).toEqual(['beta', 'Alpha', 'gamma']);
+    expect(sorted('export', 'desc')).toEqual(['gamma', 'Alpha', 'beta']);
+  });
+
+  test('should sort by dates', () => {
+    expect(sorted('created', 'asc')).toEqual(['gamma', 'beta', 'Alpha']);
+    expect(sorted('updated', 'desc')).toEqual(['gamma', 'beta', 'Alpha']);
+  });
+
+  test('should sort titles case-insensitively', () => {
+    expect(sorted('title', 'asc')).toEqual(['Alpha', 'beta', 'gamma']);
+  });
+
+  test('should sort by response and new pair counts with export order breaking ties', () => {
+    expect(sorted('responses', 'desc')).toEqual(['gamma', 'beta', 'Alpha']);
+    expect(sorted('newPairs', 'desc')).toEqual(['Alpha', 'gamma', 'beta']);
+    expect(sorted('newPairs', 'asc')).toEqual(['beta', 'Alpha', 'gamma']);
+  });
+
+  test('should not reorder the input array', () => {
+    sorted('title', 'desc');
+    expect(items.map(item => item.conversation.id)).toEqual(['beta', 'Alpha', 'gamma']);
+  });
+});
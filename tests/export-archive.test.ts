@@ -0,0 +1,380 @@
+import { describe, test, expect } from '@jest/globals';
+import { deflateRawSync } from 'zlib';
+
+// Reproduce the ExportArchive zip reader from main.ts for testing
+interface ExportArchiveEntry {
+  path: string;
+  kind: 'conversations' | 'image' | 'audio' | 'html' | 'json' | 'other';
+  compressionMethod: number; // 0 = stored, 8 = deflate
+  encrypted: boolean;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+class TestExportArchive {
+  readonly file: Blob;
+  readonly entries: ExportArchiveEntry[];
+
+  private constructor(file: Blob, entries: ExportArchiveEntry[]) {
+    this.file = file;
+    this.entries = entries;
+  }
+
+  static async isZip(file: Blob): Promise<boolean> {
+    if (file.size < 4) return false;
+    const view = new DataView(await file.slice(0, 4).arrayBuffer());
+    return view.getUint32(0, true) === 0x04034b50;
+  }
+
+  static async open(file: Blob): Promise<TestExportArchive> {
+    const tailStart = Math.max(0, file.size - 65557);
+    const tail = new DataView(await file.slice(tailStart, file.size).arrayBuffer());
+    let eocd = -1;
+    for (let i = tail.byteLength - 22; i >= 0; i--) {
+      if (tail.getUint32(i, true) === 0x06054b50) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd < 0) {
+      throw new Error('Invalid export archive: end of central directory not found');
+    }
+
+    let entryCount = tail.getUint16(eocd + 10, true);
+    let directorySize = tail.getUint32(eocd + 12, true);
+    let directoryOffset = tail.getUint32(eocd + 16, true);
+
+    if (entryCount === 0xffff || directorySize === 0xffffffff || directoryOffset === 0xffffffff) {
+      const locator = eocd - 20;
+      if (locator < 0 || tail.getUint32(locator, true) !== 0x07064b50) {
+        throw new Error('Invalid export archive: zip64 locator not found');
+      }
+      const recordOffset = readUint64(tail, locator + 8);
+      const record = new DataView(await file.slice(recordOffset, recordOffset + 56).arrayBuffer());
+      if (record.getUint32(0, true) !== 0x06064b50) {
+        throw new Error('Invalid export archive: zip64 end of central directory not found');
+      }
+      entryCount = readUint64(record, 32);
+      directorySize = readUint64(record, 40);
+      directoryOffset = readUint64(record, 48);
+    }
+
+    const directory = new DataView(await file.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer());
+    const decoder = new TextDecoder('utf-8');
+    const entries: ExportArchiveEntry[] = [];
+    let pos = 0;
+
+    for (let i = 0; i < entryCount; i++) {
+      if (pos + 46 > directory.byteLength || directory.getUint32(pos, true) !== 0x02014b50) {
+        throw new Error('Invalid export archive: corrupt central directory');
+      }
+      const flags = directory.getUint16(pos + 8, true);
+      const compressionMethod = directory.getUint16(pos + 10, true);
+      let compressedSize = directory.getUint32(pos + 20, true);
+      let uncompressedSize = directory.getUint32(pos + 24, true);
+      const nameLength = directory.getUint16(pos + 28, true);
+      const extraLength = directory.getUint16(pos + 30, true);
+      const commentLength = directory.getUint16(pos + 32, true);
+      let localHeaderOffset = directory.getUint32(pos + 42, true);
+      const path = decoder.decode(new Uint8Array(directory.buffer, pos + 46, nameLength));
+
+      let extra = pos + 46 + nameLength;
+      const extraEnd = extra + extraLength;
+      while (extra + 4 <= extraEnd) {
+        const headerId = directory.getUint16(extra, true);
+        const size = directory.getUint16(extra + 2, true);
+        if (headerId === 0x0001) {
+          let field = extra + 4;
+          if (uncompressedSize === 0xffffffff) {
+            uncompressedSize = readUint64(directory, field);
+            field += 8;
+          }
+          if (compressedSize === 0xffffffff) {
+            compressedSize = readUint64(directory, field);
+            field += 8;
+          }
+          if (localHeaderOffset === 0xffffffff) {
+            localHeaderOffset = readUint64(directory, field);
+          }
+        }
+        extra += 4 + size;
+      }
+
+      if (!path.endsWith('/')) {
+        entries.push({
+          path,
+          kind: TestExportArchive.classify(path),
+          compressionMethod,
+          encrypted: (flags & 0x1) !== 0,
+          compressedSize,
+          uncompressedSize,
+          localHeaderOffset
+        });
+      }
+
+      pos += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return new TestExportArchive(file, entries);
+  }
+
+  private static classify(path: string): ExportArchiveEntry['kind'] {
+    const name = path.split('/').pop()?.toLowerCase() || '';
+    const ext = name.includes('.') ? name.substring(name.lastIndexOf('.') + 1) : '';
+    if (name === 'conversations.json') return 'conversations';
+    if (['png', 'jpg', 'jpeg', 'gif', 'webp'].includes(ext)) return 'image';
+    if (['wav', 'mp3', 'm4a', 'ogg', 'webm'].includes(ext)) return 'audio';
+    if (ext === 'html') return 'html';
+    if (ext === 'json') return 'json';
+    return 'other';
+  }
+
+  getConversationsEntry(): ExportArchiveEntry | null {
+    const candidates = this.entries
+      .filter(entry => entry.kind === 'conversations')
+      .sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+    return candidates[0] || null;
+  }
+
+  getAttachmentEntries(): ExportArchiveEntry[] {
+    return this.entries.filter(entry => entry.kind === 'image' || entry.kind === 'audio');
+  }
+
+  findEntry(path: string): ExportArchiveEntry | null {
+    return this.entries.find(entry => entry.path === path) || null;
+  }
+
+  async openEntryStream(entry: ExportArchiveEntry): Promise<ReadableStream<any>> {
+    if (entry.encrypted) {
+      throw new Error(`Encrypted archive entries are not supported: ${entry.path}`);
+    }
+
+    const header = new DataView(await this.file.slice(entry.localHeaderOffset, entry.localHeaderOffset + 30).arrayBuffer());
+    if (header.getUint32(0, true) !== 0x04034b50) {
+      throw new Error(`Invalid export archive: corrupt local header for ${entry.path}`);
+    }
+    const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+    const data = this.file.slice(dataStart, dataStart + entry.compressedSize);
+
+    if (entry.compressionMethod === 0) {
+      return data.stream();
+    }
+    if (entry.compressionMethod === 8) {
+      return (data.stream() as ReadableStream<any>).pipeThrough(new DecompressionStream('deflate-raw'));
+    }
+    throw new Error(`Unsupported compression method ${entry.compressionMethod} for ${entry.path}`);
+  }
+
+  async readEntry(entry: ExportArchiveEntry): Promise<ArrayBuffer> {
+    return new Response(await this.openEntryStream(entry)).arrayBuffer();
+  }
+}
+
+function readUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+// Build a small zip in memory. CRCs are left at 0: the reader does not check them.
+interface ZipFileSpec {
+  path: string;
+  content: string;
+  method?: 0 | 8;
+  flags?: number;
+  localExtra?: Buffer; // Extra field of the local header only, as some zip tools write
+}
+
+function buildZip(files: ZipFileSpec[], options: { zip64?: boolean; comment?: string } = {}): Blob {
+  const parts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  files.forEach(spec => {
+    const name = Buffer.from(spec.path, 'utf-8');
+    const raw = Buffer.from(spec.content, 'utf-8');
+    const method = spec.method || 0;
+    const data = method === 8 ? deflateRawSync(raw) : raw;
+    const localExtra = spec.localExtra || Buffer.alloc(0);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(spec.flags || 0, 6);
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(localExtra.length, 28);
+    parts.push(local, name, localExtra, data);
+
+    // Zip64 archives move sizes and offsets into the extended information extra field
+    let extra = Buffer.alloc(0);
+    if (options.zip64) {
+      extra = Buffer.alloc(28);
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(24, 2);
+      extra.writeBigUInt64LE(BigInt(raw.length), 4);
+      extra.writeBigUInt64LE(BigInt(data.length), 12);
+      extra.writeBigUInt64LE(BigInt(offset), 20);
+    }
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(45, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(spec.flags || 0, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(options.zip64 ? 0xffffffff : data.length, 20);
+    central.writeUInt32LE(options.zip64 ? 0xffffffff : raw.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt16LE(extra.length, 30);
+    central.writeUInt32LE(options.zip64 ? 0xffffffff : offset, 42);
+    centralParts.push(central, name, extra);
+
+    offset += local.length + name.length + localExtra.length + data.length;
+  });
+
+  const directory = Buffer.concat(centralParts);
+  const directoryOffset = offset;
+  parts.push(directory);
+  offset += directory.length;
+
+  if (options.zip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(BigInt(44), 4);
+    record.writeUInt16LE(45, 12);
+    record.writeUInt16LE(45, 14);
+    record.writeBigUInt64LE(BigInt(files.length), 24);
+    record.writeBigUInt64LE(BigInt(files.length), 32);
+    record.writeBigUInt64LE(BigInt(directory.length), 40);
+    record.writeBigUInt64LE(BigInt(directoryOffset), 48);
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(offset), 8);
+    locator.writeUInt32LE(1, 16);
+    parts.push(record, locator);
+  }
+
+  const comment = Buffer.from(options.comment || '', 'utf-8');
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(options.zip64 ? 0xffff : files.length, 8);
+  eocd.writeUInt16LE(options.zip64 ? 0xffff : files.length, 10);
+  eocd.writeUInt32LE(options.zip64 ? 0xffffffff : directory.length, 12);
+  eocd.writeUInt32LE(options.zip64 ? 0xffffffff : directoryOffset, 16);
+  eocd.writeUInt16LE(comment.length, 20);
+  parts.push(eocd, comment);
+
+  return new Blob(parts.map(part => new Uint8Array(part)));
+}
+
+async function readText(archive: TestExportArchive, path: string): Promise<string> {
+  const entry = archive.findEntry(path);
+  if (!entry) throw new Error(`No entry ${path}`);
+  return new TextDecoder('utf-8').decode(await archive.readEntry(entry));
+}
+
+const CONVERSATIONS = JSON.stringify([{ title: 'Hello', mapping: {} }]);
+
+describe('ExportArchive', () => {
+  test('should recognise zip files by their first local header', async () => {
+    expect(await TestExportArchive.isZip(buildZip([{ path: 'a.txt', content: 'a' }]))).toBe(true);
+    expect(await TestExportArchive.isZip(new Blob(['[{"title": "not a zip"}]']))).toBe(false);
+    expect(await TestExportArchive.isZip(new Blob(['PK']))).toBe(false);
+  });
+
+  test('should list entries from the central directory and classify them', async () => {
+    const archive = await TestExportArchive.open(buildZip([
+      { path: 'conversations.json', content: CONVERSATIONS },
+      { path: 'file-abc123-photo.png', content: 'png' },
+      { path: 'audio/', content: '' },
+      { path: 'audio/file_xyz.wav', content: 'wav' },
+      { path: 'chat.html', content: '<html></html>' },
+      { path: 'user.json', content: '{}' }
+    ]));
+
+    expect(archive.entries.map(entry => [entry.path, entry.kind])).toEqual([
+      ['conversations.json', 'conversations'],
+      ['file-abc123-photo.png', 'image'],
+      ['audio/file_xyz.wav', 'audio'],
+      ['chat.html', 'html'],
+      ['user.json', 'json']
+    ]);
+    expect(archive.getAttachmentEntries().map(entry => entry.path)).toEqual(['file-abc123-photo.png', 'audio/file_xyz.wav']);
+  });
+
+  test('should prefer the shallowest conversations.json', async () => {
+    const archive = await TestExportArchive.open(buildZip([
+      { path: 'backup/old/conversations.json', content: '[]' },
+      { path: 'conversations.json', content: CONVERSATIONS }
+    ]));
+    expect(archive.getConversationsEntry()?.path).toBe('conversations.json');
+  });
+
+  test('should read stored and deflated entries', async () => {
+    const archive = await TestExportArchive.open(buildZip([
+      { path: 'conversations.json', content: CONVERSATIONS, method: 8 },
+      { path: 'notes.txt', content: 'stored as is', method: 0 }
+    ]));
+
+    const conversations = archive.findEntry('conversations.json')!;
+    expect(conversations.compressionMethod).toBe(8);
+    expect(conversations.uncompressedSize).toBe(CONVERSATIONS.length);
+    expect(await readText(archive, 'conversations.json')).toBe(CONVERSATIONS);
+    expect(await readText(archive, 'notes.txt')).toBe('stored as is');
+  });
+
+  test('should skip local extra fields that differ from the central directory', async () => {
+    const archive = await TestExportArchive.open(buildZip([
+      { path: 'notes.txt', content: 'after the extra field', localExtra: Buffer.from([0x55, 0x54, 0x01, 0x00, 0x00]) }
+    ]));
+    expect(await readText(archive, 'notes.txt')).toBe('after the extra field');
+  });
+
+  test('should find the end of central directory behind an archive comment', async () => {
+    const archive = await TestExportArchive.open(buildZip([{ path: 'conversations.json', content: CONVERSATIONS }], { comment: 'x'.repeat(1000) }));
+    expect(await readText(archive, 'conversations.json')).toBe(CONVERSATIONS);
+  });
+
+  test('should read zip64 sizes and offsets from the extended information field', async () => {
+    const archive = await TestExportArchive.open(buildZip([
+      { path: 'file-abc123-photo.png', content: 'png data', method: 0 },
+      { path: 'conversations.json', content: CONVERSATIONS, method: 8 }
+    ], { zip64: true }));
+
+    expect(archive.entries).toHaveLength(2);
+    const conversations = archive.getConversationsEntry()!;
+    expect(conversations.uncompressedSize).toBe(CONVERSATIONS.length);
+    expect(conversations.localHeaderOffset).toBeGreaterThan(0);
+    expect(await readText(archive, 'conversations.json')).toBe(CONVERSATIONS);
+    expect(await readText(archive, 'file-abc123-photo.png')).toBe('png data');
+  });
+
+  test('should read 64-bit values beyond 32 bits', () => {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setUint32(0, 5, true);
+    view.setUint32(4, 2, true);
+    expect(readUint64(view, 0)).toBe(2 * 0x100000000 + 5);
+  });
+
+  test('should reject files without a central directory', async () => {
+    await expect(TestExportArchive.open(new Blob(['not a zip at all']))).rejects.toThrow('end of central directory not found');
+  });
+
+  test('should reject a zip64 marker without its locator', async () => {
+    const zip = Buffer.from(await buildZip([{ path: 'a.txt', content: 'a' }]).arrayBuffer());
+    // Mark the entry count as overflowed without adding the zip64 records
+    zip.writeUInt16LE(0xffff, zip.length - 22 + 10);
+    await expect(TestExportArchive.open(new Blob([new Uint8Array(zip)]))).rejects.toThrow('zip64 locator not found');
+  });
+
+  test('should refuse encrypted and unsupported entries', async () => {
+    const archive = await TestExportArchive.open(buildZip([
+      { path: 'secret.txt', content: 'x', flags: 0x1 }
+    ]));
+    await expect(archive.readEntry(archive.entries[0])).rejects.toThrow('Encrypted archive entries are not supported');
+
+    const bzip = { ...archive.entries[0], encrypted: false, compressionMethod: 12 };
+    await expect(archive.readEntry(bzip)).rejects.toThrow('Unsupported compression method 12');
+  });
+});
@@ -0,0 +1,370 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+
+// Reproduce the export cache serialization from main.ts for testing
+interface ExtractedMessage {
+  role: string;
+  content: string;
+  timestamp: number;
+  id: string;
+  model?: string;
+}
+
+interface ConversationBranch {
+  leafId: string;
+  messages: ExtractedMessage[];
+  isCurrent: boolean;
+}
+
+interface ExtractedConversation {
+  title: string;
+  id: string;
+  create_time: number;
+  update_time: number;
+  messages: ExtractedMessage[];
+  branches: ConversationBranch[];
+  currentBranchIndex: number;
+  selectedBranchIndex: number;
+}
+
+interface CachedConversation {
+  title: string;
+  id: string;
+  create_time: number;
+  update_time: number;
+  messages: { [messageId: string]: ExtractedMessage };
+  branches: Array<{ leafId: string; isCurrent: boolean; messageIds: string[] }>;
+  currentBranchIndex: number;
+  selectedBranchIndex: number;
+}
+
+function toCachedConversation(conv: ExtractedConversation): CachedConversation {
+  const messages: { [messageId: string]: ExtractedMessage } = {};
+  const branches = conv.branches.map(branch => ({
+    leafId: branch.leafId,
+    isCurrent: branch.isCurrent,
+    messageIds: branch.messages.map(msg => {
+      messages[msg.id] = msg;
+      return msg.id;
+    })
+  }));
+  return {
+    title: conv.title,
+    id: conv.id,
+    create_time: conv.create_time,
+    update_time: conv.update_time,
+    messages,
+    branches,
+    currentBranchIndex: conv.currentBranchIndex,
+    selectedBranchIndex: conv.selectedBranchIndex
+  };
+}
+
+function fromCachedConversation(cached: CachedConversation): ExtractedConversation {
+  const branches = cached.branches.map(branch => ({
+    leafId: branch.leafId,
+    isCurrent: branch.isCurrent,
+    messages: branch.messageIds.map(id => cached.messages[id])
+  }));
+  const selected = branches[cached.selectedBranchIndex] || branches[cached.currentBranchIndex];
+  return {
+    title: cached.title,
+    id: cached.id,
+    create_time: cached.create_time,
+    update_time: cached.update_time,
+    messages: selected ? selected.messages : [],
+    branches,
+    currentBranchIndex: cached.currentBranchIndex,
+    selectedBranchIndex: branches[cached.selectedBranchIndex] ? cached.selectedBranchIndex : cached.currentBranchIndex
+  };
+}
+
+interface ExportCacheHeader {
+  version: number;
+  sourceName: string;
+  sourceSize: number;
+  loadedAt: number;
+  conversationCount: number;
+}
+
+interface LoadedExport {
+  sourceName: string;
+  sourceSize: number;
+  loadedAt: number;
+  conversations: ExtractedConversation[];
+  fromCache: boolean;
+}
+
+const EXPORT_CACHE_VERSION = 2;
+const EXPORT_CACHE_WRITE_BATCH = 200;
+const CACHE_PATH = 'plugins/chatgpt/export-cache.json';
+
+class TestConversationStreamParser {
+  private buffer = ''; // Text of the element that is still incomplete at the end of the last chunk
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private started = false; // Seen the opening '['
+  private finished = false; // Seen the closing ']'
+  private inElement = false;
+
+  write(chunk: string): any[] {
+    const conversations: any[] = [];
+    let elementStart = this.inElement ? 0 : -1;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk.charCodeAt(i);
+
+      if (this.inElement && this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === 92) { // backslash
+          this.escaped = true;
+        } else if (ch === 34) { // quote
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (!this.inElement) {
+        if (ch === 32 || ch === 9 || ch === 10 || ch === 13 || ch === 0xfeff) continue;
+        if (this.finished) {
+          throw new Error('Invalid ChatGPT export format: unexpected data after the conversation list');
+        }
+        if (!this.started) {
+          if (ch !== 91) { // [
+            throw new Error('Invalid ChatGPT export format: expected a list of conversations');
+          }
+          this.started = true;
+          continue;
+        }
+        if (ch === 44) continue; // comma between elements
+        if (ch === 93) { // ]
+          this.finished = true;
+          continue;
+        }
+        if (ch !== 123) { // {
+          throw new Error('Invalid ChatGPT export format: expected a conversation object');
+        }
+        this.inElement = true;
+        this.depth = 0;
+        elementStart = i;
+      }
+
+      if (ch === 34) {
+        this.inString = true;
+      } else if (ch === 123 || ch === 91) {
+        this.depth++;
+      } else if (ch === 125 || ch === 93) {
+        this.depth--;
+        if (this.depth === 0) {
+          const text = this.buffer + chunk.substring(elementStart, i + 1);
+          this.buffer = '';
+          this.inElement = false;
+          conversations.push(JSON.parse(text));
+        }
+      }
+    }
+
+    if (this.inElement) {
+      this.buffer += chunk.substring(elementStart);
+    }
+    return conversations;
+  }
+
+  // Verify that the whole array was consumed
+  end(): void {
+    if (!this.started || !this.finished || this.inElement) {
+      throw new Error('Invalid ChatGPT export format: file ended unexpectedly');
+    }
+  }
+}
+
+// In-memory stand-in for the vault adapter that records how much text each write passed in
+class MemoryAdapter {
+  files = new Map<string, string>();
+  largestWrite = 0;
+
+  async exists(path: string) { return this.files.has(path); }
+  async write(path: string, data: string) {
+    this.largestWrite = Math.max(this.largestWrite, data.length);
+    this.files.set(path, data);
+  }
+  async append(path: string, data: string) {
+    this.largestWrite = Math.max(this.largestWrite, data.length);
+    this.files.set(path, (this.files.get(path) || '') + data);
+  }
+  async remove(path: string) { this.files.delete(path); }
+  async rename(from: string, to: string) {
+    this.files.set(to, this.files.get(from)!);
+    this.files.delete(from);
+  }
+  async readBinary(path: string): Promise<ArrayBuffer> {
+    const bytes = new TextEncoder().encode(this.files.get(path));
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+  }
+}
+
+async function saveExportCache(adapter: MemoryAdapter, loaded: LoadedExport): Promise<void> {
+  const tempPath = `${CACHE_PATH}.tmp`;
+  const header: ExportCacheHeader = {
+    version: EXPORT_CACHE_VERSION,
+    sourceName: loaded.sourceName,
+    sourceSize: loaded.sourceSize,
+    loadedAt: loaded.loadedAt,
+    conversationCount: loaded.conversations.length
+  };
+  await adapter.write(tempPath, '[' + JSON.stringify(header));
+  for (let start = 0; start < loaded.conversations.length; start += EXPORT_CACHE_WRITE_BATCH) {
+    const batch = loaded.conversations.slice(start, start + EXPORT_CACHE_WRITE_BATCH);
+    await adapter.append(tempPath, ',\n' + batch.map(conv => JSON.stringify(toCachedConversation(conv))).join(',\n'));
+  }
+  await adapter.append(tempPath, ']\n');
+  if (await adapter.exists(CACHE_PATH)) {
+    await adapter.remove(CACHE_PATH);
+  }
+  await adapter.rename(tempPath, CACHE_PATH);
+}
+
+// loadExportCache, with the file decoded in small chunks the way streamChatGPTData reads a stream
+async function loadExportCache(adapter: MemoryAdapter, chunkSize: number): Promise<LoadedExport | null> {
+  if (!(await adapter.exists(CACHE_PATH))) return null;
+  try {
+    const data = new Uint8Array(await adapter.readBinary(CACHE_PATH));
+    const parser = new TestConversationStreamParser();
+    const decoder = new TextDecoder('utf-8');
+    let header: ExportCacheHeader | null = null;
+    const conversations: ExtractedConversation[] = [];
+    for (let offset = 0; offset <= data.length; offset += chunkSize) {
+      const text = offset < data.length ? decoder.decode(data.subarray(offset, offset + chunkSize), { stream: true }) : decoder.decode();
+      parser.write(text).forEach(item => {
+        if (!header) {
+          header = item as ExportCacheHeader;
+        } else {
+          conversations.push(fromCachedConversation(item as CachedConversation));
+        }
+      });
+    }
+    parser.end();
+    const cache = header as ExportCacheHeader | null;
+    if (!cache || cache.version !== EXPORT_CACHE_VERSION || cache.conversationCount !== conversations.length) {
+      return null;
+    }
+    return { sourceName: cache.sourceName, sourceSize: cache.sourceSize, loadedAt: cache.loadedAt, conversations, fromCache: true };
+  } catch (error) {
+    return null;
+  }
+}
+
+const message = (id: string, role: string, content: string): ExtractedMessage => ({ id, role, content, timestamp: 1700000000 });
+
+// Two answers to the same prompt: the shared prefix appears in both branches
+function branchedConversation(): ExtractedConversation {
+  const prompt = message('u1', 'user', 'Explain advisory locks');
+  const first = [prompt, message('a1', 'assistant', 'First answer')];
+  const second = [prompt, { ...message('a2', 'assistant', 'Regenerated answer'), model: 'gpt-4o' }];
+  return {
+    title: 'Locks',
+    id: 'conv1',
+    create_time: 1700000000,
+    update_time: 1700000500,
+    messages: second,
+    branches: [
+      { leafId: 'a1', messages: first, isCurrent: false },
+      { leafId: 'a2', messages: second, isCurrent: true }
+    ],
+    currentBranchIndex: 1,
+    selectedBranchIndex: 1
+  };
+}
+
+describe('Export cache', () => {
+  test('should store messages shared by several branches once', () => {
+    const cached = toCachedConversation(branchedConversation());
+    expect(Object.keys(cached.messages).sort()).toEqual(['a1', 'a2', 'u1']);
+    expect(cached.branches.map(branch => branch.messageIds)).toEqual([['u1', 'a1'], ['u1', 'a2']]);
+  });
+
+  test('should restore the conversation through JSON', () => {
+    const original = branchedConversation();
+    const restored = fromCachedConversation(JSON.parse(JSON.stringify(toCachedConversation(original))));
+    expect(restored).toEqual(original);
+  });
+
+  test('should restore the selected branch as the shown messages', () => {
+    const original = branchedConversation();
+    original.selectedBranchIndex = 0;
+    original.messages = original.branches[0].messages;
+
+    const restored = fromCachedConversation(toCachedConversation(original));
+    expect(restored.selectedBranchIndex).toBe(0);
+    expect(restored.messages.map(msg => msg.id)).toEqual(['u1', 'a1']);
+  });
+
+  test('should fall back to the current branch when the selected one is missing', () => {
+    const cached = toCachedConversation(branchedConversation());
+    cached.selectedBranchIndex = 5;
+
+    const restored = fromCachedConversation(cached);
+    expect(restored.selectedBranchIndex).toBe(1);
+    expect(restored.messages.map(msg => msg.id)).toEqual(['u1', 'a2']);
+  });
+
+  test('should handle conversations without messages', () => {
+    const empty: ExtractedConversation = {
+      title: 'Empty', id: 'conv2', create_time: 0, update_time: 0,
+      messages: [], branches: [], currentBranchIndex: 0, selectedBranchIndex: 0
+    };
+    expect(fromCachedConversation(toCachedConversation(empty))).toEqual(empty);
+  });
+});
+
+describe('Export cache file', () => {
+  let adapter: MemoryAdapter;
+  const loaded = (conversations: ExtractedConversation[]): LoadedExport => ({
+    sourceName: 'chatgpt-export.zip', sourceSize: 1234, loadedAt: 42, conversations, fromCache: false
+  });
+  const many = (count: number) => Array.from({ length: count }, (_, i) => ({
+    ...branchedConversation(),
+    id: `conv${i}`,
+    title: `Locks "${i}" – café`
+  }));
+
+  beforeEach(() => {
+    adapter = new MemoryAdapter();
+  });
+
+  test('should write conversations in batches and read them back chunk by chunk', async () => {
+    const conversations = many(450);
+    await saveExportCache(adapter, loaded(conversations));
+
+    // No single write holds more than one batch of conversations
+    const wholeCache = adapter.files.get(CACHE_PATH)!.length;
+    expect(adapter.largestWrite).toBeLessThan(wholeCache / 2);
+    expect(adapter.files.has(`${CACHE_PATH}.tmp`)).toBe(false);
+
+    const restored = await loadExportCache(adapter, 97);
+    expect(restored).toMatchObject({ sourceName: 'chatgpt-export.zip', sourceSize: 1234, loadedAt: 42, fromCache: true });
+    expect(restored!.conversations).toEqual(conversations);
+  });
+
+  test('should replace an earlier cache', async () => {
+    await saveExportCache(adapter, loaded(many(3)));
+    await saveExportCache(adapter, loaded(many(1)));
+    expect((await loadExportCache(adapter, 4096))!.conversations.map(conv => conv.id)).toEqual(['conv0']);
+  });
+
+  test('should keep an empty export', async () => {
+    await saveExportCache(adapter, loaded([]));
+    expect((await loadExportCache(adapter, 4096))!.conversations).toEqual([]);
+  });
+
+  test('should ignore truncated caches and caches from the previous format', async () => {
+    await saveExportCache(adapter, loaded(many(2)));
+    const content = adapter.files.get(CACHE_PATH)!;
+    adapter.files.set(CACHE_PATH, content.substring(0, content.length - 40));
+    expect(await loadExportCache(adapter, 4096)).toBeNull();
+
+    adapter.files.set(CACHE_PATH, JSON.stringify({ version: 1, sourceName: 'old.zip', conversations: [] }));
+    expect(await loadExportCache(adapter, 4096)).toBeNull();
+  });
+});
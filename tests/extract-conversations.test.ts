@@ -0,0 +1,672 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+
+// Reproduce the branch-aware extractConversations logic and content renderers from main.ts for testing
+interface ChatGPTMessage {
+  id: string;
+  message: {
+    id: string;
+    author: {
+      role: 'user' | 'assistant' | 'system' | 'tool';
+      name: string | null;
+      metadata: any;
+    };
+    create_time: number;
+    update_time: number;
+    content: ChatGPTMessageContent;
+    status: string;
+    recipient?: string;
+    end_turn: boolean | null;
+    weight: number;
+    metadata: any;
+  } | null;
+  parent: string | null;
+  children: string[];
+}
+
+interface ChatGPTMessageContent {
+  content_type: string;
+  parts?: Array<string | ChatGPTContentPart>;
+  [key: string]: any;
+}
+
+interface ChatGPTContentPart {
+  content_type: string;
+  asset_pointer?: string;
+  width?: number;
+  height?: number;
+  metadata?: any;
+}
+
+interface ChatGPTConversation {
+  title: string;
+  create_time: number;
+  update_time: number;
+  mapping: { [key: string]: ChatGPTMessage };
+  current_node?: string;
+  conversation_id: string;
+  id: string;
+}
+
+type ChatGPTMessageData = NonNullable<ChatGPTMessage['message']>;
+
+type ContentRenderer = (content: ChatGPTMessageContent, message: ChatGPTMessageData) => string;
+
+interface ExtractedMessage {
+  role: string;
+  content: string;
+  timestamp: number;
+  id: string;
+  foldedPairIds?: string[];
+}
+
+interface ConversationBranch {
+  leafId: string;
+  messages: ExtractedMessage[];
+  isCurrent: boolean;
+}
+
+// Wrap text in a code fence longer than any backtick run inside it
+function toCodeFence(text: string, language: string = ''): string {
+  const runs: string[] = text.match(/`+/g) || [];
+  const longestRun = runs.reduce((max, run) => Math.max(max, run.length), 0);
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  return `${fence}${language}\n${text.replace(/\n+$/, '')}\n${fence}`;
+}
+
+// Obsidian callout; a trailing '-' on the type makes it collapsed by default
+function toCallout(type: string, title: string, body: string, collapsed: boolean = true): string {
+  const header = `> [!${type}]${collapsed ? '-' : ''} ${title}`.trimEnd();
+  const lines = body.trim() ? body.trim().split('\n').map(line => line ? `> ${line}` : '>') : [];
+  return [header, ...lines].join('\n');
+}
+
+// Flatten text parts; image parts become Markdown image links to their asset pointer
+function renderParts(content: ChatGPTMessageContent): string {
+  const parts = content.parts || [];
+  return parts
+    .map(part => {
+      if (typeof part === 'string') return part;
+      if (part && part.content_type === 'image_asset_pointer' && part.asset_pointer) {
+        const alt = part.metadata?.dalle ? 'generated image' : 'image';
+        return `![${alt}](${part.asset_pointer})`;
+      }
+      return null;
+    })
+    .filter((text): text is string => text !== null)
+    .join('\n');
+}
+
+// Markdown list of the sources a browsing result cites
+function renderCitations(message: ChatGPTMessageData): string {
+  const sources: Array<{ title?: string; url?: string }> = message.metadata?._cite_metadata?.metadata_list || [];
+  return sources
+    .filter(source => source.url)
+    .map(source => `- [${(source.title || source.url || '').replace(/[[\]]/g, '')}](${source.url})`)
+    .join('\n');
+}
+
+// Per-content-type renderers. Content types without an entry fall back to their text parts.
+const CONTENT_RENDERERS: { [contentType: string]: ContentRenderer } = {
+  text: (content, message) => {
+    // A tool call's text is its arguments (e.g. a DALL·E prompt as JSON), shown folded away
+    if (message.recipient && message.recipient !== 'all') {
+      const args = renderParts(content);
+      return args.trim() ? toCallout('note', `Call to ${message.recipient}`, toCodeFence(args)) : '';
+    }
+    return renderParts(content);
+  },
+  multimodal_text: (content) => renderParts(content),
+  code: (content, message) => {
+    // Code Interpreter reports 'unknown'; the recipient tells us it is Python
+    let language = content.language && content.language !== 'unknown' ? content.language : '';
+    if (!language && message.recipient === 'python') {
+      language = 'python';
+    }
+    return content.text ? toCodeFence(content.text, language) : '';
+  },
+  execution_output: (content) => content.text ? toCallout('example', 'Output', toCodeFence(content.text)) : '',
+  tether_browsing_display: (content, message) => {
+    const sections = [content.summary, content.result].filter((text): text is string => !!text && !!text.trim());
+    const citations = renderCitations(message);
+    if (citations) {
+      sections.push('**Sources**\n' + citations);
+    }
+    return sections.length > 0 ? toCallout('info', 'Browsing results', sections.join('\n\n')) : '';
+  },
+  tether_quote: (content) => {
+    const title = content.title || content.domain || content.url || 'Quote';
+    const heading = content.url ? `[${String(title).replace(/[[\]]/g, '')}](${content.url})` : title;
+    return content.text ? toCallout('quote', heading, content.text) : '';
+  },
+  thoughts: (content) => {
+    const thoughts: Array<{ summary?: string; content?: string }> = content.thoughts || [];
+    const body = thoughts
+      .map(thought => [thought.summary ? `**${thought.summary}**` : '', thought.content || ''].filter(Boolean).join('\n'))
+      .filter(Boolean)
+      .join('\n\n');
+    return body ? toCallout('abstract', 'Reasoning', body) : '';
+  },
+  reasoning_recap: (content) => content.content ? `*${content.content}*` : '',
+  system_error: (content) => toCallout('error', content.name || 'Error', content.text || '', false),
+};
+
+// Render a message's content to Markdown using the renderer for its content type
+function renderMessageContent(message: ChatGPTMessageData): string {
+  const content = message.content;
+  if (!content) return '';
+  const renderer = CONTENT_RENDERERS[content.content_type] || CONTENT_RENDERERS.text;
+  return renderer(content, message);
+}
+
+// Tool calls, tool output and reasoning are folded into the assistant response that follows them
+function isIntermediateMessage(message: ChatGPTMessageData): boolean {
+  // Text addressed to a tool (DALL·E prompts, searches, memory updates) is a call, not an answer
+  if (message.recipient && message.recipient !== 'all') return true;
+  return isToolOrReasoningMessage(message);
+}
+
+// What was folded before text addressed to tools was: tool output and non-text assistant content
+function isToolOrReasoningMessage(message: ChatGPTMessageData): boolean {
+  if (message.author.role === 'tool') return true;
+  return message.author.role === 'assistant' &&
+    message.content?.content_type !== 'text' &&
+    message.content?.content_type !== 'multimodal_text';
+}
+
+// Messages of one root-to-leaf path, each with the ids of the path nodes folded into it
+function foldBranchPath(path: ChatGPTMessage[], isIntermediate: (message: ChatGPTMessageData) => boolean): Array<{ message: ExtractedMessage; nodeIds: string[] }> {
+  const folded: Array<{ message: ExtractedMessage; nodeIds: string[] }> = [];
+  let pending: string[] = [];
+  let pendingNodes: ChatGPTMessage[] = [];
+  const flushPending = () => {
+    const pendingNode = pendingNodes[pendingNodes.length - 1];
+    if (pendingNode && pendingNode.message && pending.length > 0) {
+      folded.push({
+        message: {
+          role: 'assistant',
+          content: pending.join('\n\n'),
+          timestamp: pendingNode.message.create_time || 0,
+          id: pendingNode.id
+        },
+        nodeIds: pendingNodes.map(node => node.id)
+      });
+    }
+    pending = [];
+    pendingNodes = [];
+  };
+
+  path.forEach(node => {
+    if (!node.message || node.message.author.role === 'system') return;
+
+    let content = renderMessageContent(node.message);
+    if (!content.trim()) return;
+
+    if (isIntermediate(node.message)) {
+      pending.push(content);
+      pendingNodes.push(node);
+      return;
+    }
+
+    const nodeIds = [node.id];
+    if (node.message.author.role === 'assistant' && pending.length > 0) {
+      content = pending.join('\n\n') + '\n\n' + content;
+      nodeIds.unshift(...pendingNodes.map(pendingNode => pendingNode.id));
+      pending = [];
+      pendingNodes = [];
+    } else {
+      flushPending();
+    }
+
+    folded.push({
+      message: {
+        role: node.message.author.role,
+        content: content,
+        timestamp: node.message.create_time || 0,
+        id: node.id
+      },
+      nodeIds
+    });
+  });
+  flushPending();
+  return folded;
+}
+
+class TestConversationExtractor {
+  generateQAPairId(conversationId: string, userMsgId: string, assistantMsgId: string): string {
+    return `${conversationId}_${userMsgId}_${assistantMsgId}`;
+  }
+
+  extractConversations(conversations: ChatGPTConversation[]) {
+    return conversations.map(conv => {
+      const branches = this.extractBranches(conv);
+
+      let currentBranchIndex = branches.findIndex(branch => branch.isCurrent);
+      if (currentBranchIndex < 0) {
+        currentBranchIndex = 0;
+      }
+
+      return {
+        title: conv.title,
+        id: conv.id,
+        create_time: conv.create_time,
+        update_time: conv.update_time,
+        messages: branches.length > 0 ? branches[currentBranchIndex].messages : [],
+        branches: branches,
+        currentBranchIndex: currentBranchIndex,
+        selectedBranchIndex: currentBranchIndex
+      };
+    });
+  }
+
+  addFoldedPairIds(conversationId: string, folded: Array<{ message: ExtractedMessage; nodeIds: string[] }>, previous: Array<{ message: ExtractedMessage; nodeIds: string[] }>) {
+    const pairIdAt = (entries: Array<{ message: ExtractedMessage }>, index: number) =>
+      this.generateQAPairId(conversationId, index > 0 ? entries[index - 1].message.id : 'no-user-msg', entries[index].message.id);
+    const holder = new Map<string, number>();
+    folded.forEach((entry, index) => entry.nodeIds.forEach(nodeId => holder.set(nodeId, index)));
+
+    previous.forEach((entry, index) => {
+      const target = holder.get(entry.message.id);
+      if (entry.message.role !== 'assistant' || target === undefined || folded[target].message.role !== 'assistant') return;
+      const previousPairId = pairIdAt(previous, index);
+      if (previousPairId === pairIdAt(folded, target)) return;
+      const message = folded[target].message;
+      message.foldedPairIds = (message.foldedPairIds || []).concat([previousPairId]);
+    });
+  }
+
+  extractBranches(conv: ChatGPTConversation): ConversationBranch[] {
+    const mapping = conv.mapping || {};
+    const nodes = Object.values(mapping);
+    const roots = nodes.filter(node => !node.parent || !mapping[node.parent]);
+
+    const leaves: ChatGPTMessage[] = [];
+    const visited = new Set<string>();
+    const stack = roots.slice().reverse();
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (visited.has(node.id)) continue;
+      visited.add(node.id);
+
+      const children = node.children
+        .map(childId => mapping[childId])
+        .filter(child => child !== undefined);
+      if (children.length === 0) {
+        leaves.push(node);
+      } else {
+        for (let i = children.length - 1; i >= 0; i--) {
+          stack.push(children[i]);
+        }
+      }
+    }
+
+    const branches: ConversationBranch[] = [];
+    const seenPaths = new Map<string, ConversationBranch>();
+
+    leaves.forEach(leaf => {
+      const path: ChatGPTMessage[] = [];
+      const pathIds = new Set<string>();
+      let current: ChatGPTMessage | undefined = leaf;
+      while (current && !pathIds.has(current.id)) {
+        path.push(current);
+        pathIds.add(current.id);
+        current = current.parent ? mapping[current.parent] : undefined;
+      }
+      path.reverse();
+
+      const folded = foldBranchPath(path, isIntermediateMessage);
+      const messages = folded.map(entry => entry.message);
+      if (path.some(node => node.message && isIntermediateMessage(node.message) && !isToolOrReasoningMessage(node.message))) {
+        this.addFoldedPairIds(conv.id, folded, foldBranchPath(path, isToolOrReasoningMessage));
+      }
+
+      const isCurrent = !!conv.current_node && pathIds.has(conv.current_node);
+      const pathKey = messages.map(msg => msg.id).join('/');
+      const existing = seenPaths.get(pathKey);
+      if (existing) {
+        existing.isCurrent = existing.isCurrent || isCurrent;
+        return;
+      }
+
+      const branch: ConversationBranch = { leafId: leaf.id, messages, isCurrent };
+      seenPaths.set(pathKey, branch);
+      branches.push(branch);
+    });
+
+    const isPrefixOfAnother = (branch: ConversationBranch) => branches.some(other =>
+      other !== branch &&
+      other.messages.length > branch.messages.length &&
+      branch.messages.every((msg, i) => other.messages[i].id === msg.id)
+    );
+    const distinct = branches.filter(branch =>
+      branch.messages.length > 0 && (branch.isCurrent || !isPrefixOfAnother(branch))
+    );
+    return distinct.length > 0 ? distinct : branches.slice(0, 1);
+  }
+}
+
+// Helper to build a mapping node
+function node(id: string, parent: string | null, children: string[], role?: ChatGPTMessageData['author']['role'], text?: string): ChatGPTMessage {
+  return {
+    id,
+    parent,
+    children,
+    message: role ? {
+      id,
+      author: { role, name: null as string | null, metadata: {} },
+      create_time: 1700000000,
+      update_time: 1700000000,
+      content: { content_type: 'text', parts: [text || ''] },
+      status: 'finished_successfully',
+      end_turn: true,
+      weight: 1,
+      metadata: {}
+    } : null
+  };
+}
+
+function conversation(nodes: ChatGPTMessage[], currentNode?: string): ChatGPTConversation {
+  const mapping: { [key: string]: ChatGPTMessage } = {};
+  nodes.forEach(n => mapping[n.id] = n);
+  return {
+    title: 'Branching conversation',
+    id: 'conv1',
+    conversation_id: 'conv1',
+    create_time: 1700000000,
+    update_time: 1700000100,
+    current_node: currentNode,
+    mapping
+  };
+}
+
+describe('extractConversations branch handling', () => {
+  let extractor: TestConversationExtractor;
+
+  beforeEach(() => {
+    extractor = new TestConversationExtractor();
+  });
+
+  test('should extract a linear conversation as a single branch', () => {
+    const conv = conversation([
+      node('root', null, ['sys']),
+      node('sys', 'root', ['u1'], 'system', ''),
+      node('u1', 'sys', ['a1'], 'user', 'Hello'),
+      node('a1', 'u1', [], 'assistant', 'Hi there')
+    ], 'a1');
+
+    const [result] = extractor.extractConversations([conv]);
+
+    expect(result.branches).toHaveLength(1);
+    expect(result.messages.map(m => m.id)).toEqual(['u1', 'a1']);
+    expect(result.branches[0].isCurrent).toBe(true);
+  });
+
+  test('should keep regenerated answers as separate branches', () => {
+    const conv = conversation([
+      node('root', null, ['u1']),
+      node('u1', 'root', ['a1', 'a2', 'a3'], 'user', 'Question'),
+      node('a1', 'u1', [], 'assistant', 'First answer'),
+      node('a2', 'u1', [], 'assistant', 'Second answer'),
+      node('a3', 'u1', [], 'assistant', 'Third answer')
+    ]);
+
+    const [result] = extractor.extractConversations([conv]);
+
+    expect(result.branches).toHaveLength(3);
+    expect(result.branches.map(b => b.leafId)).toEqual(['a1', 'a2', 'a3']);
+  });
+
+  test('should select the branch ending at current_node', () => {
+    const conv = conversation([
+      node('root', null, ['u1']),
+      node('u1', 'root', ['a1', 'a2'], 'user', 'Question'),
+      node('a1', 'u1', [], 'assistant', 'First answer'),
+      node('a2', 'u1', ['u2'], 'assistant', 'Better answer'),
+      node('u2', 'a2', ['a3'], 'user', 'Follow up'),
+      node('a3', 'u2', [], 'assistant', 'Follow up answer')
+    ], 'a3');
+
+    const [result] = extractor.extractConversations([conv]);
+
+    expect(result.currentBranchIndex).toBe(1);
+    expect(result.selectedBranchIndex).toBe(1);
+    expect(result.messages.map(m => m.id)).toEqual(['u1', 'a2', 'u2', 'a3']);
+  });
+
+  test('should fall back to the children[0] path without current_node', () => {
+    const conv = conversation([
+      node('root', null, ['u1', 'u1-edit']),
+      node('u1', 'root', ['a1'], 'user', 'Original prompt'),
+      node('a1', 'u1', [], 'assistant', 'Answer'),
+      node('u1-edit', 'root', ['a2'], 'user', 'Edited prompt'),
+      node('a2', 'u1-edit', [], 'assistant', 'Answer to edit')
+    ]);
+
+    const [result] = extractor.extractConversations([conv]);
+
+    expect(result.currentBranchIndex).toBe(0);
+    expect(result.messages.map(m => m.content)).toEqual(['Original prompt', 'Answer']);
+  });
+
+  test('should collapse leaves that only add empty messages', () => {
+    const conv = conversation([
+      node('root', null, ['u1']),
+      node('u1', 'root', ['a1', 'a-empty'], 'user', 'Question'),
+      node('a1', 'u1', [], 'assistant', 'Answer'),
+      node('a-empty', 'u1', [], 'assistant', '   ')
+    ], 'a1');
+
+    const [result] = extractor.extractConversations([conv]);
+
+    expect(result.branches).toHaveLength(1);
+    expect(result.branches[0].leafId).toBe('a1');
+  });
+
+  test('should skip system messages and tolerate dangling child references', () => {
+    const conv = conversation([
+      node('root', null, ['sys']),
+      node('sys', 'root', ['u1'], 'system', 'You are ChatGPT'),
+      node('u1', 'sys', ['a1', 'missing'], 'user', 'Question'),
+      node('a1', 'u1', [], 'assistant', 'Answer')
+    ]);
+
+    const [result] = extractor.extractConversations([conv]);
+
+    expect(result.branches).toHaveLength(1);
+    expect(result.messages.every(m => m.role !== 'system')).toBe(true);
+  });
+
+  test('should turn image parts into asset pointer links instead of [object Object]', () => {
+    const userNode = node('u1', 'root', ['a1'], 'user');
+    userNode.message!.content = {
+      content_type: 'multimodal_text',
+      parts: [
+        { content_type: 'image_asset_pointer', asset_pointer: 'file-service://file-abc123', width: 100, height: 100 },
+        'What is in this picture?'
+      ]
+    };
+    const assistantNode = node('a1', 'u1', [], 'assistant');
+    assistantNode.message!.content = {
+      content_type: 'multimodal_text',
+      parts: [
+        { content_type: 'image_asset_pointer', asset_pointer: 'sediment://file_xyz', metadata: { dalle: { prompt: 'a cat' } } },
+        { content_type: 'unknown_part' }
+      ]
+    };
+
+    const [result] = extractor.extractConversations([conversation([node('root', null, ['u1']), userNode, assistantNode])]);
+
+    expect(result.messages[0].content).toBe('![image](file-service://file-abc123)\nWhat is in this picture?');
+    expect(result.messages[1].content).toBe('![generated image](sediment://file_xyz)');
+    expect(result.messages.some(m => m.content.includes('[object Object]'))).toBe(false);
+  });
+
+  test('should return an empty message list for an empty mapping', () => {
+    const [result] = extractor.extractConversations([conversation([])]);
+
+    expect(result.branches).toHaveLength(0);
+    expect(result.messages).toEqual([]);
+  });
+});
+
+describe('content-type rendering', () => {
+  let extractor: TestConversationExtractor;
+
+  // Build a node whose message carries an arbitrary content payload
+  function contentNode(id: string, parent: string | null, children: string[], role: ChatGPTMessageData['author']['role'], content: ChatGPTMessageContent, extra: Partial<ChatGPTMessageData> = {}): ChatGPTMessage {
+    const n = node(id, parent, children, role);
+    n.message!.content = content;
+    Object.assign(n.message!, extra);
+    return n;
+  }
+
+  // A message on its own, for rendering without a conversation around it
+  function message(role: ChatGPTMessageData['author']['role'], content: ChatGPTMessageContent, extra: Partial<ChatGPTMessageData> = {}): ChatGPTMessageData {
+    return contentNode('m', null, [], role, content, extra).message!;
+  }
+
+  beforeEach(() => {
+    extractor = new TestConversationExtractor();
+  });
+
+  test('should render Code Interpreter runs as fenced code with an output callout', () => {
+    const conv = conversation([
+      node('root', null, ['u1']),
+      node('u1', 'root', ['code'], 'user', 'Plot something'),
+      contentNode('code', 'u1', ['out'], 'assistant', { content_type: 'code', language: 'unknown', text: 'print(1 + 1)' }, { recipient: 'python' }),
+      contentNode('out', 'code', ['a1'], 'tool', { content_type: 'execution_output', text: '2' }),
+      node('a1', 'out', [], 'assistant', 'The answer is 2.')
+    ]);
+
+    const [result] = extractor.extractConversations([conv]);
+
+    expect(result.messages.map(m => m.id)).toEqual(['u1', 'a1']);
+    expect(result.messages[1].content).toBe(
+      '```python\nprint(1 + 1)\n```\n\n> [!example]- Output\n> ```\n> 2\n> ```\n\nThe answer is 2.'
+    );
+  });
+
+  test('should lengthen the fence when code contains backticks', () => {
+    const rendered = renderMessageContent(message('assistant', { content_type: 'code', language: 'markdown', text: 'Use ```js blocks' }));
+    expect(rendered).toBe('````markdown\nUse ```js blocks\n````');
+  });
+
+  test('should render browsing results with a citation list', () => {
+    const rendered = renderMessageContent(message('tool',
+      { content_type: 'tether_browsing_display', result: 'Search results', summary: '' },
+      { metadata: { _cite_metadata: { metadata_list: [{ title: 'Advisory locks [docs]', url: 'https://example.com/locks' }] } } }
+    ));
+    expect(rendered).toBe('> [!info]- Browsing results\n> Search results\n>\n> **Sources**\n> - [Advisory locks docs](https://example.com/locks)');
+  });
+
+  test('should render quotes and reasoning as collapsible callouts', () => {
+    expect(renderMessageContent(message('tool',
+      { content_type: 'tether_quote', url: 'https://example.com', title: 'Example', text: 'Quoted text' }
+    ))).toBe('> [!quote]- [Example](https://example.com)\n> Quoted text');
+
+    expect(renderMessageContent(message('assistant',
+      { content_type: 'thoughts', thoughts: [{ summary: 'Planning', content: 'Think first.' }] }
+    ))).toBe('> [!abstract]- Reasoning\n> **Planning**\n> Think first.');
+  });
+
+  test('should keep a turn that ends on tool output as its own response', () => {
+    const conv = conversation([
+      node('root', null, ['u1']),
+      node('u1', 'root', ['out'], 'user', 'Run it'),
+      contentNode('out', 'u1', ['u2'], 'tool', { content_type: 'execution_output', text: 'done' }),
+      node('u2', 'out', [], 'user', 'Thanks')
+    ]);
+
+    const [result] = extractor.extractConversations([conv]);
+
+    expect(result.messages.map(m => [m.role, m.id])).toEqual([['user', 'u1'], ['assistant', 'out'], ['user', 'u2']]);
+  });
+
+  test('should fold a DALL·E call into the response instead of making it a pair', () => {
+    const conv = conversation([
+      node('root', null, ['u1']),
+      node('u1', 'root', ['call'], 'user', 'Draw a lighthouse'),
+      contentNode('call', 'u1', ['img'], 'assistant', { content_type: 'text', parts: ['{"prompt": "A lighthouse at dusk", "size": "1024x1024"}'] }, { recipient: 'dalle.text2im' }),
+      contentNode('img', 'call', ['a1'], 'tool', {
+        content_type: 'multimodal_text',
+        parts: [{ content_type: 'image_asset_pointer', asset_pointer: 'file-service://file-abc', metadata: { dalle: {} } }]
+      }),
+      node('a1', 'img', [], 'assistant', 'Here is your lighthouse.')
+    ]);
+
+    const [result] = extractor.extractConversations([conv]);
+
+    expect(result.messages.map(m => [m.role, m.id])).toEqual([['user', 'u1'], ['assistant', 'a1']]);
+    expect(result.messages[1].content).toBe(
+      '> [!note]- Call to dalle.text2im\n> ```\n> {"prompt": "A lighthouse at dusk", "size": "1024x1024"}\n> ```\n\n' +
+      '![generated image](file-service://file-abc)\n\n' +
+      'Here is your lighthouse.'
+    );
+  });
+
+  test('should keep the pair ids a folded call made before so their states can move over', () => {
+    const conv = conversation([
+      node('root', null, ['u1']),
+      node('u1', 'root', ['call'], 'user', 'Draw a lighthouse'),
+      contentNode('call', 'u1', ['img'], 'assistant', { content_type: 'text', parts: ['{"prompt": "A lighthouse"}'] }, { recipient: 'dalle.text2im' }),
+      contentNode('img', 'call', ['a1'], 'tool', { content_type: 'execution_output', text: 'done' }),
+      node('a1', 'img', ['u2'], 'assistant', 'Here is your lighthouse.'),
+      node('u2', 'a1', ['a2'], 'user', 'Thanks'),
+      node('a2', 'u2', [], 'assistant', 'You are welcome.')
+    ]);
+
+    const [result] = extractor.extractConversations([conv]);
+
+    // The call was a response of its own, and the image answer followed it instead of the prompt
+    expect(result.messages[1].foldedPairIds).toEqual(['conv1_u1_call', 'conv1_call_a1']);
+    expect(result.messages[3].foldedPairIds).toBeUndefined();
+  });
+
+  test('should not record earlier pair ids when only tool output was folded', () => {
+    const conv = conversation([
+      node('root', null, ['u1']),
+      node('u1', 'root', ['code'], 'user', 'Plot something'),
+      contentNode('code', 'u1', ['out'], 'assistant', { content_type: 'code', language: 'python', text: 'print(2)' }, { recipient: 'python' }),
+      contentNode('out', 'code', ['a1'], 'tool', { content_type: 'execution_output', text: '2' }),
+      node('a1', 'out', [], 'assistant', 'The answer is 2.')
+    ]);
+
+    const [result] = extractor.extractConversations([conv]);
+
+    expect(result.messages.every(m => m.foldedPairIds === undefined)).toBe(true);
+  });
+
+  test('should fold browsing and memory calls into the response', () => {
+    const conv = conversation([
+      node('root', null, ['u1']),
+      node('u1', 'root', ['search'], 'user', 'Remember I like tea, and what is new in Postgres?'),
+      contentNode('search', 'u1', ['results'], 'assistant', { content_type: 'text', parts: ['search("postgres release notes")'] }, { recipient: 'web' }),
+      contentNode('results', 'search', ['bio'], 'tool', { content_type: 'tether_browsing_display', result: 'Postgres 17 released' }),
+      contentNode('bio', 'results', ['a1'], 'assistant', { content_type: 'text', parts: ['User likes tea.'] }, { recipient: 'bio' }),
+      node('a1', 'bio', [], 'assistant', 'Noted. Postgres 17 is out.')
+    ]);
+
+    const [result] = extractor.extractConversations([conv]);
+
+    expect(result.messages.map(m => m.id)).toEqual(['u1', 'a1']);
+    expect(result.messages[1].content).toContain('> [!note]- Call to web');
+    expect(result.messages[1].content).toContain('> [!note]- Call to bio');
+    expect(result.messages[1].content.endsWith('Noted. Postgres 17 is out.')).toBe(true);
+  });
+
+  test('should treat text addressed to everyone as a response', () => {
+    const conv = conversation([
+      node('root', null, ['u1']),
+      node('u1', 'root', ['a1'], 'user', 'Hi'),
+      contentNode('a1', 'u1', [], 'assistant', { content_type: 'text', parts: ['Hello!'] }, { recipient: 'all' })
+    ]);
+
+    const [result] = extractor.extractConversations([conv]);
+
+    expect(result.messages.map(m => [m.id, m.content])).toEqual([['u1', 'Hi'], ['a1', 'Hello!']]);
+  });
+
+  test('should ignore content types without text', () => {
+    const rendered = renderMessageContent(message('user', { content_type: 'user_editable_context', user_profile: 'secret' }));
+    expect(rendered).toBe('');
+  });
+});
@@ -50,6 +50,132 @@ class TestSaveNoteModal {
   }
 }
 
+// Reproduce the filename pattern logic from main.ts for testing
+const ASSET_POINTER_IMAGE_REGEX = /!\[([^\]]*)\]\(((?:file-service|sediment):\/\/[^)\s]+)\)/g;
+const TEMPLATE_VARIABLE_REGEX = /\{\{(\w+)(?::([^}]*))?\}\}/g;
+
+interface FilenameTokens {
+  date: Date;
+  conversationTitle: string;
+  prompt: string;
+  index: number | null;
+  id: string;
+}
+
+function formatTemplateDate(date: Date, format: string): string {
+  const pad = (value: number) => ('0' + value).slice(-2);
+  const tokens: { [token: string]: string } = {
+    YYYY: date.getFullYear().toString(),
+    YY: date.getFullYear().toString().slice(-2),
+    MM: pad(date.getMonth() + 1),
+    M: (date.getMonth() + 1).toString(),
+    DD: pad(date.getDate()),
+    D: date.getDate().toString(),
+    HH: pad(date.getHours()),
+    H: date.getHours().toString(),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+  return format.replace(/\[([^\]]*)\]|YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g, (token, literal?: string) =>
+    literal !== undefined ? literal : tokens[token]
+  );
+}
+
+function resolveFilenamePattern(pattern: string, tokens: FilenameTokens): string {
+  const resolved = pattern.replace(TEMPLATE_VARIABLE_REGEX, (placeholder, name: string, arg?: string) => {
+    const count = arg ? parseInt(arg, 10) : NaN;
+    switch (name) {
+      case 'date':
+        return formatTemplateDate(tokens.date, arg || 'YYYY-MM-DD');
+      case 'conversation_title':
+        return tokens.conversationTitle;
+      case 'prompt':
+        return tokens.prompt
+          .replace(ASSET_POINTER_IMAGE_REGEX, ' ')
+          .replace(/[`*_#>\[\]()]/g, ' ')
+          .split(/\s+/)
+          .filter(word => word)
+          .slice(0, isNaN(count) ? 6 : count)
+          .join(' ');
+      case 'index': {
+        if (tokens.index === null) return '';
+        const digits = tokens.index.toString();
+        return isNaN(count) || digits.length >= count ? digits : '0'.repeat(count - digits.length) + digits;
+      }
+      case 'id':
+        return tokens.id.replace(/-/g, '').substring(0, isNaN(count) ? 8 : count);
+      default:
+        return placeholder;
+    }
+  });
+  const title = resolved.replace(/\s+/g, ' ').replace(/^[\s\-_.]+|[\s\-_.]+$/g, '');
+  return title || 'Untitled';
+}
+
+function formatNoteFileName(title: string, slugify: boolean, maxLength: number): string {
+  let name = title.replace(/[\\/:*?"<>|]/g, '-');
+  if (slugify) {
+    name = name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[\s!-\/:-@\[-`{-~]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+  if (maxLength > 0 && name.length > maxLength) {
+    name = name.substring(0, maxLength);
+    const boundary = Math.max(name.lastIndexOf(' '), name.lastIndexOf('-'));
+    if (boundary > maxLength / 2) {
+      name = name.substring(0, boundary);
+    }
+    name = name.replace(/[\s\-_.]+$/, '');
+  }
+  name = name.trim().replace(/^\.+/, '');
+  return name || (slugify ? 'untitled' : 'Untitled');
+}
+
+describe('Filename patterns', () => {
+  const tokens: FilenameTokens = {
+    date: new Date(2024, 0, 9, 14, 30),
+    conversationTitle: 'Postgres Locks',
+    prompt: '## How do **advisory locks** work in `Postgres` with pgbouncer?',
+    index: 7,
+    id: '3f2a9c1e-77b0-4d2e-9a55-0c1d2e3f4a5b'
+  };
+
+  test('should keep the default "<title> - Response" pattern', () => {
+    expect(resolveFilenamePattern('{{conversation_title}} - Response', tokens)).toBe('Postgres Locks - Response');
+  });
+
+  test('should resolve date, prompt words, padded index and short id tokens', () => {
+    expect(resolveFilenamePattern('{{date}} {{prompt:4}}', tokens)).toBe('2024-01-09 How do advisory locks');
+    expect(resolveFilenamePattern('{{date:YYYYMMDD-HHmm}} #{{index:3}} {{id}}', tokens)).toBe('20240109-1430 #007 3f2a9c1e');
+    expect(resolveFilenamePattern('{{index:1}}-{{id:4}}', tokens)).toBe('7-3f2a');
+  });
+
+  test('should drop separators left by empty tokens', () => {
+    expect(resolveFilenamePattern('{{prompt}} - {{index}}', { ...tokens, prompt: '', index: null })).toBe('Untitled');
+    expect(resolveFilenamePattern('{{conversation_title}} - {{prompt}}', { ...tokens, prompt: '![image](file-service://file-abc)' })).toBe('Postgres Locks');
+  });
+
+  test('should slugify file names', () => {
+    expect(formatNoteFileName('Café: Advisory Locks (Part 2)?', true, 0)).toBe('cafe-advisory-locks-part-2');
+    expect(formatNoteFileName('???', true, 0)).toBe('untitled');
+  });
+
+  test('should keep illegal character replacement without slugify', () => {
+    expect(formatNoteFileName('Test/Title:With*Bad?Chars"<>|', false, 0)).toBe('Test-Title-With-Bad-Chars----');
+    expect(formatNoteFileName('.hidden', false, 0)).toBe('hidden');
+  });
+
+  test('should cut long names at a word boundary', () => {
+    const title = 'Untitled conversation about advisory locks and connection pooling';
+    expect(formatNoteFileName(title, false, 30)).toBe('Untitled conversation about');
+    expect(formatNoteFileName(title, true, 30)).toBe('untitled-conversation-about');
+    expect(formatNoteFileName('a'.repeat(50), false, 20)).toBe('a'.repeat(20));
+  });
+});
+
 describe('SaveNoteModal Filename Handling', () => {
   let app: MockApp;
   let modal: TestSaveNoteModal;
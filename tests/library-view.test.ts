@@ -0,0 +1,217 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+
+// Reproduce how ChatGPTLibraryView keeps its ConversationBrowser state in the workspace layout
+interface ImportViewState {
+  viewMode: 'toc' | 'conversation';
+  conversationId: string | null;
+  tocScrollTop: number;
+  searchQuery: string;
+  showNewPairs: boolean;
+  showIgnoredPairs: boolean;
+  showSavedPairs: boolean;
+  showDuplicatePairs: boolean;
+}
+
+const DEFAULT_IMPORT_VIEW_STATE: ImportViewState = {
+  viewMode: 'toc',
+  conversationId: null,
+  tocScrollTop: 0,
+  searchQuery: '',
+  showNewPairs: true,
+  showIgnoredPairs: false,
+  showSavedPairs: false,
+  showDuplicatePairs: true
+};
+
+interface TestConversation {
+  id: string;
+}
+
+interface TestPlugin {
+  settings: { importViewState: ImportViewState };
+  loadedExport: { conversations: TestConversation[] } | null;
+}
+
+class TestConversationBrowser {
+  plugin: TestPlugin;
+  conversations: TestConversation[] = [];
+  currentConversationIndex = 0;
+  viewMode: 'toc' | 'conversation' = 'toc';
+  searchQuery = '';
+  tocScrollTop = 0;
+  showNewPairs = true;
+  showIgnoredPairs = false;
+  showSavedPairs = false;
+  showDuplicatePairs = true;
+  isLoading = false;
+  initialViewState: ImportViewState | null = null;
+  displayCount = 0;
+
+  constructor(plugin: TestPlugin) {
+    this.plugin = plugin;
+  }
+
+  // The end of restoreLoadedExport, once the export of this session or the cached one is available
+  restoreLoadedExport() {
+    const loaded = this.plugin.loadedExport;
+    if (!loaded || this.isLoading || this.conversations.length > 0) return;
+    this.conversations = loaded.conversations;
+    this.applyViewState(this.initialViewState || this.plugin.settings.importViewState);
+    this.displayCount++;
+  }
+
+  showPluginExport() {
+    const loaded = this.plugin.loadedExport;
+    if (!loaded || this.isLoading) return;
+    if (loaded.conversations !== this.conversations) {
+      const state = this.getViewState();
+      this.conversations = loaded.conversations;
+      this.applyViewState(state!);
+    }
+    this.displayCount++;
+  }
+
+  applyViewState(state: ImportViewState) {
+    const index = state.conversationId ? this.conversations.findIndex(conv => conv.id === state.conversationId) : -1;
+    this.currentConversationIndex = Math.max(index, 0);
+    this.viewMode = state.viewMode === 'conversation' && index >= 0 ? 'conversation' : 'toc';
+    this.searchQuery = state.searchQuery;
+    this.tocScrollTop = state.tocScrollTop;
+    this.showNewPairs = state.showNewPairs;
+    this.showIgnoredPairs = state.showIgnoredPairs;
+    this.showSavedPairs = state.showSavedPairs;
+    this.showDuplicatePairs = state.showDuplicatePairs;
+  }
+
+  getViewState(): ImportViewState | null {
+    if (this.conversations.length === 0 || this.isLoading) return null;
+    const conv = this.conversations[this.currentConversationIndex];
+    return {
+      viewMode: this.viewMode,
+      conversationId: conv ? conv.id : null,
+      tocScrollTop: this.tocScrollTop,
+      searchQuery: this.searchQuery,
+      showNewPairs: this.showNewPairs,
+      showIgnoredPairs: this.showIgnoredPairs,
+      showSavedPairs: this.showSavedPairs,
+      showDuplicatePairs: this.showDuplicatePairs
+    };
+  }
+}
+
+class TestLibraryView {
+  plugin: TestPlugin;
+  browser: TestConversationBrowser | null = null;
+  private pendingState: ImportViewState | null = null;
+
+  constructor(plugin: TestPlugin) {
+    this.plugin = plugin;
+  }
+
+  async onOpen() {
+    this.browser = new TestConversationBrowser(this.plugin);
+    this.browser.initialViewState = this.pendingState;
+  }
+
+  async onClose() {
+    this.browser = null;
+  }
+
+  getState(): Record<string, unknown> {
+    const state = (this.browser && this.browser.getViewState()) || this.pendingState;
+    return state ? { ...state } : {};
+  }
+
+  async setState(state: any): Promise<void> {
+    if (state && typeof state.viewMode === 'string') {
+      this.pendingState = Object.assign({}, DEFAULT_IMPORT_VIEW_STATE, state);
+      if (this.browser) {
+        this.browser.initialViewState = this.pendingState;
+        if (this.browser.conversations.length > 0) {
+          this.browser.applyViewState(this.pendingState);
+          this.browser.showPluginExport();
+        }
+      }
+    }
+  }
+}
+
+describe('ChatGPTLibraryView state', () => {
+  let plugin: TestPlugin;
+  const savedState: ImportViewState = {
+    viewMode: 'conversation',
+    conversationId: 'c2',
+    tocScrollTop: 120,
+    searchQuery: 'locks',
+    showNewPairs: true,
+    showIgnoredPairs: true,
+    showSavedPairs: false,
+    showDuplicatePairs: false
+  };
+
+  beforeEach(() => {
+    plugin = {
+      settings: { importViewState: { ...DEFAULT_IMPORT_VIEW_STATE } },
+      loadedExport: { conversations: [{ id: 'c1' }, { id: 'c2' }, { id: 'c3' }] }
+    };
+  });
+
+  test('should apply a layout state set before the view opened once the export is restored', async () => {
+    const view = new TestLibraryView(plugin);
+    await view.setState(savedState);
+    await view.onOpen();
+    view.browser!.restoreLoadedExport();
+
+    expect(view.browser!.currentConversationIndex).toBe(1);
+    expect(view.browser!.getViewState()).toEqual(savedState);
+  });
+
+  test('should apply a layout state that arrives after the export is showing', async () => {
+    const view = new TestLibraryView(plugin);
+    await view.onOpen();
+    view.browser!.restoreLoadedExport();
+    expect(view.browser!.viewMode).toBe('toc');
+
+    await view.setState(savedState);
+
+    expect(view.browser!.getViewState()).toEqual(savedState);
+    expect(view.browser!.displayCount).toBe(2);
+  });
+
+  test('should restore what getState stored in the layout in a new view', async () => {
+    const first = new TestLibraryView(plugin);
+    await first.setState(savedState);
+    await first.onOpen();
+    first.browser!.restoreLoadedExport();
+    first.browser!.currentConversationIndex = 2;
+    const layout = JSON.parse(JSON.stringify(first.getState()));
+    await first.onClose();
+
+    const second = new TestLibraryView(plugin);
+    await second.setState(layout);
+    await second.onOpen();
+    second.browser!.restoreLoadedExport();
+
+    expect(second.browser!.getViewState()).toEqual({ ...savedState, conversationId: 'c3' });
+  });
+
+  test('should fill in fields missing from older layouts and ignore unrelated state', async () => {
+    const view = new TestLibraryView(plugin);
+    await view.setState({ viewMode: 'toc', searchQuery: 'old' });
+    expect(view.getState()).toEqual({ ...DEFAULT_IMPORT_VIEW_STATE, searchQuery: 'old' });
+
+    const other = new TestLibraryView(plugin);
+    await other.setState({ file: 'Note.md' });
+    expect(other.getState()).toEqual({});
+  });
+
+  test('should fall back to the table of contents when the conversation is no longer in the export', async () => {
+    const view = new TestLibraryView(plugin);
+    await view.setState({ ...savedState, conversationId: 'gone' });
+    await view.onOpen();
+    view.browser!.restoreLoadedExport();
+
+    expect(view.browser!.viewMode).toBe('toc');
+    expect(view.browser!.currentConversationIndex).toBe(0);
+  });
+});
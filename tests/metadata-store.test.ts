@@ -0,0 +1,303 @@
+import { jest, describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+
+// Reproduce the versioned metadata store from main.ts for testing
+const METADATA_SCHEMA_VERSION = 4;
+
+const METADATA_MIGRATIONS: { [fromVersion: number]: (data: any) => any } = {
+  0: (data: any) => ({
+    qaPairs: {},
+    legacyConversations: data.conversations,
+    lastUpdated: data.lastUpdated || Date.now()
+  }),
+  1: (data: any) => ({ ...data, qaPairs: data.qaPairs || {} }),
+  2: (data: any) => ({ ...data, actionLog: [] }),
+  3: (data: any) => {
+    if (!data.seenConversations) return data;
+    const seenConversations: { [conversationId: string]: any } = {};
+    Object.keys(data.seenConversations).forEach(conversationId => {
+      const { updateTime, newResponseIds } = data.seenConversations[conversationId];
+      seenConversations[conversationId] = { updateTime, newResponseIds };
+    });
+    return { ...data, seenConversations };
+  }
+};
+
+function createEmptyMetadataStore(): any {
+  return { version: METADATA_SCHEMA_VERSION, qaPairs: {}, actionLog: [], lastUpdated: Date.now() };
+}
+
+function migrateMetadataStore(data: any): any {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Metadata is not an object');
+  }
+  let version: number;
+  if (typeof data.version === 'number') {
+    version = data.version;
+  } else if (data.qaPairs) {
+    version = 1;
+  } else if (data.conversations) {
+    version = 0;
+  } else {
+    throw new Error('Unknown metadata format');
+  }
+  
+  let migrated = data;
+  for (; version < METADATA_SCHEMA_VERSION; version++) {
+    migrated = METADATA_MIGRATIONS[version](migrated);
+  }
+  if (!migrated.qaPairs || typeof migrated.qaPairs !== 'object') {
+    throw new Error('Metadata has no Q&A pairs');
+  }
+  return { ...migrated, version };
+}
+
+// In-memory stand-in for the vault adapter
+class MemoryAdapter {
+  files = new Map<string, string>();
+  exists = jest.fn(async (path: string) => this.files.has(path));
+  read = jest.fn(async (path: string) => {
+    if (!this.files.has(path)) throw new Error(`ENOENT: ${path}`);
+    return this.files.get(path)!;
+  });
+  write = jest.fn(async (path: string, data: string) => {
+    this.files.set(path, data);
+  });
+  remove = jest.fn(async (path: string) => {
+    this.files.delete(path);
+  });
+  rename = jest.fn(async (from: string, to: string) => {
+    if (this.files.has(to)) throw new Error(`Destination exists: ${to}`);
+    this.files.set(to, this.files.get(from)!);
+    this.files.delete(from);
+  });
+}
+
+const FILE = '.chatgpt-plugin-metadata.json';
+
+class TestMetadataStore {
+  adapter: MemoryAdapter;
+  metadataStore: any = createEmptyMetadataStore();
+  notices: string[] = [];
+  private readonly METADATA_WRITE_DELAY = 1000;
+  private metadataWriteTimer: ReturnType<typeof setTimeout> | null = null;
+  private metadataWrite: Promise<void> | null = null;
+  private metadataPendingWrite = false;
+
+  constructor(adapter: MemoryAdapter) {
+    this.adapter = adapter;
+  }
+
+  async load(): Promise<void> {
+    const candidates = [FILE, FILE + '.tmp', FILE + '.bak'];
+    let mainDamaged = false;
+    let loadedFrom: string | null = null;
+    let migrated = false;
+    for (const path of candidates) {
+      if (!(await this.adapter.exists(path))) continue;
+      try {
+        const data = JSON.parse(await this.adapter.read(path));
+        this.metadataStore = migrateMetadataStore(data);
+        migrated = this.metadataStore.version !== data.version;
+        loadedFrom = path;
+        break;
+      } catch (error) {
+        if (path === FILE) mainDamaged = true;
+      }
+    }
+    
+    if (mainDamaged) {
+      await this.adapter.rename(FILE, `${FILE}.corrupt-${Date.now()}`);
+    }
+    
+    if (!loadedFrom) {
+      this.metadataStore = createEmptyMetadataStore();
+      if (mainDamaged) this.notices.push('damaged, no backup');
+      return;
+    }
+    if (mainDamaged || loadedFrom === FILE + '.bak') {
+      this.notices.push('restored from backup');
+    }
+    if (migrated || loadedFrom !== FILE) {
+      await this.save();
+    }
+  }
+
+  async save(): Promise<void> {
+    this.metadataPendingWrite = true;
+    if (this.metadataWriteTimer !== null) return;
+    this.metadataWriteTimer = setTimeout(() => {
+      this.metadataWriteTimer = null;
+      this.flush();
+    }, this.METADATA_WRITE_DELAY);
+  }
+
+  async flush(): Promise<void> {
+    if (this.metadataWriteTimer !== null) {
+      clearTimeout(this.metadataWriteTimer);
+      this.metadataWriteTimer = null;
+    }
+    while (this.metadataWrite) {
+      await this.metadataWrite;
+    }
+    if (!this.metadataPendingWrite) return;
+    this.metadataPendingWrite = false;
+    this.metadataWrite = this.write();
+    try {
+      await this.metadataWrite;
+    } catch (error) {
+      this.metadataPendingWrite = true;
+      throw error;
+    } finally {
+      this.metadataWrite = null;
+    }
+  }
+
+  private async write(): Promise<void> {
+    this.metadataStore.version = Math.max(this.metadataStore.version || 0, METADATA_SCHEMA_VERSION);
+    const content = JSON.stringify(this.metadataStore, null, 2);
+    await this.adapter.write(FILE + '.tmp', content);
+    if (await this.adapter.exists(FILE)) {
+      if (await this.adapter.exists(FILE + '.bak')) {
+        await this.adapter.remove(FILE + '.bak');
+      }
+      await this.adapter.rename(FILE, FILE + '.bak');
+    }
+    await this.adapter.rename(FILE + '.tmp', FILE);
+  }
+}
+
+const savedPair = (pairId: string) => ({ pairId, pairHash: 'h', conversationId: 'conv1', state: 'saved', timestamp: 1, userPrompt: '', responsePreview: '' });
+
+describe('migrateMetadataStore', () => {
+  test('should version an unversioned Q&A pair store without losing pairs', () => {
+    const store = migrateMetadataStore({ qaPairs: { p1: savedPair('p1') }, lastUpdated: 5 });
+    expect(store.version).toBe(METADATA_SCHEMA_VERSION);
+    expect(store.qaPairs.p1.state).toBe('saved');
+    expect(store.lastUpdated).toBe(5);
+  });
+
+  test('should keep conversation-level states from the original format', () => {
+    const store = migrateMetadataStore({ conversations: { conv1: { processed: true } }, lastUpdated: 5 });
+    expect(store.version).toBe(METADATA_SCHEMA_VERSION);
+    expect(store.qaPairs).toEqual({});
+    expect(store.legacyConversations).toEqual({ conv1: { processed: true } });
+  });
+
+  test('should start version 2 stores with an empty undo history', () => {
+    const store = migrateMetadataStore({ version: 2, qaPairs: { p1: savedPair('p1') }, savedNotes: {}, lastUpdated: 5 });
+    expect(store.version).toBe(METADATA_SCHEMA_VERSION);
+    expect(store.actionLog).toEqual([]);
+    expect(store.qaPairs.p1.state).toBe('saved');
+    expect(store.savedNotes).toEqual({});
+  });
+
+  test('should drop the response id lists of seen conversations from version 3 stores', () => {
+    const store = migrateMetadataStore({
+      version: 3,
+      qaPairs: {},
+      actionLog: [],
+      seenConversations: { conv1: { updateTime: 7, responseIds: ['a1', 'a2', 'a3'], newResponseIds: ['a3'] } },
+      lastUpdated: 5
+    });
+    expect(store.version).toBe(METADATA_SCHEMA_VERSION);
+    expect(store.seenConversations).toEqual({ conv1: { updateTime: 7, newResponseIds: ['a3'] } });
+  });
+
+  test('should leave stores from newer versions as they are', () => {
+    const store = migrateMetadataStore({ version: 99, qaPairs: {}, futureField: [1] });
+    expect(store.version).toBe(99);
+    expect(store.futureField).toEqual([1]);
+  });
+
+  test('should reject data that is not a metadata store', () => {
+    expect(() => migrateMetadataStore(null)).toThrow();
+    expect(() => migrateMetadataStore([])).toThrow();
+    expect(() => migrateMetadataStore({ something: 'else' })).toThrow('Unknown metadata format');
+    expect(() => migrateMetadataStore({ version: 2 })).toThrow('Metadata has no Q&A pairs');
+  });
+});
+
+describe('Metadata store persistence', () => {
+  let adapter: MemoryAdapter;
+  let store: TestMetadataStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    adapter = new MemoryAdapter();
+    store = new TestMetadataStore(adapter);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should batch changes within the write delay into one write', async () => {
+    store.metadataStore.qaPairs.p1 = savedPair('p1');
+    await store.save();
+    store.metadataStore.qaPairs.p2 = savedPair('p2');
+    await store.save();
+    expect(adapter.write).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(adapter.write).toHaveBeenCalledTimes(1);
+    expect(Object.keys(JSON.parse(adapter.files.get(FILE)!).qaPairs)).toEqual(['p1', 'p2']);
+  });
+
+  test('should write through a temporary file and keep the previous version as a backup', async () => {
+    store.metadataStore.qaPairs.p1 = savedPair('p1');
+    await store.save();
+    await store.flush();
+    store.metadataStore.qaPairs.p2 = savedPair('p2');
+    await store.save();
+    await store.flush();
+
+    expect(adapter.write).toHaveBeenLastCalledWith(FILE + '.tmp', expect.any(String));
+    expect(adapter.files.has(FILE + '.tmp')).toBe(false);
+    expect(Object.keys(JSON.parse(adapter.files.get(FILE)!).qaPairs)).toEqual(['p1', 'p2']);
+    expect(Object.keys(JSON.parse(adapter.files.get(FILE + '.bak')!).qaPairs)).toEqual(['p1']);
+  });
+
+  test('should not write when nothing changed', async () => {
+    await store.flush();
+    expect(adapter.write).not.toHaveBeenCalled();
+  });
+
+  test('should recover from the backup when the store is corrupted', async () => {
+    adapter.files.set(FILE, '{"version": 2, "qaPairs": {"p1"');
+    adapter.files.set(FILE + '.bak', JSON.stringify({ version: 2, qaPairs: { p1: savedPair('p1') }, lastUpdated: 1 }));
+
+    await store.load();
+    expect(store.metadataStore.qaPairs.p1.state).toBe('saved');
+    expect(store.notices).toEqual(['restored from backup']);
+    expect(Array.from(adapter.files.keys()).some(path => path.startsWith(FILE + '.corrupt-'))).toBe(true);
+
+    await store.flush();
+    expect(JSON.parse(adapter.files.get(FILE)!).qaPairs.p1.state).toBe('saved');
+  });
+
+  test('should prefer a completed write that was interrupted before its rename', async () => {
+    adapter.files.set(FILE + '.tmp', JSON.stringify({ version: 2, qaPairs: { p2: savedPair('p2') }, lastUpdated: 2 }));
+    adapter.files.set(FILE + '.bak', JSON.stringify({ version: 2, qaPairs: { p1: savedPair('p1') }, lastUpdated: 1 }));
+
+    await store.load();
+    expect(Object.keys(store.metadataStore.qaPairs)).toEqual(['p2']);
+    expect(store.notices).toEqual([]);
+  });
+
+  test('should start empty but keep the damaged file when nothing can be recovered', async () => {
+    adapter.files.set(FILE, 'not json');
+
+    await store.load();
+    expect(store.metadataStore.qaPairs).toEqual({});
+    expect(store.notices).toEqual(['damaged, no backup']);
+    expect(Array.from(adapter.files.values())).toContain('not json');
+  });
+
+  test('should save migrated stores with the current version', async () => {
+    adapter.files.set(FILE, JSON.stringify({ qaPairs: { p1: savedPair('p1') }, lastUpdated: 1 }));
+
+    await store.load();
+    await store.flush();
+    expect(JSON.parse(adapter.files.get(FILE)!).version).toBe(METADATA_SCHEMA_VERSION);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, test, expect } from '@jest/globals';
+
+// Reproduce the note template logic from main.ts for testing
+type TemplateVariables = { [name: string]: string | Date };
+
+const TEMPLATE_BLOCK_REGEX = /\{\{#(if|unless)\s+(\w+)\}\}\n?((?:(?!\{\{#(?:if|unless)\s)[\s\S])*?)\{\{\/\1\}\}\n?/;
+const TEMPLATE_VARIABLE_REGEX = /\{\{(\w+)(?::([^}]*))?\}\}/g;
+
+function formatTemplateDate(date: Date, format: string): string {
+  const pad = (value: number) => ('0' + value).slice(-2);
+  const tokens: { [token: string]: string } = {
+    YYYY: date.getFullYear().toString(),
+    YY: date.getFullYear().toString().slice(-2),
+    MM: pad(date.getMonth() + 1),
+    M: (date.getMonth() + 1).toString(),
+    DD: pad(date.getDate()),
+    D: date.getDate().toString(),
+    HH: pad(date.getHours()),
+    H: date.getHours().toString(),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+  return format.replace(/\[([^\]]*)\]|YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g, (token, literal?: string) =>
+    literal !== undefined ? literal : tokens[token]
+  );
+}
+
+function renderNoteTemplate(template: string, variables: TemplateVariables): string {
+  const isTruthy = (name: string) => {
+    const value = variables[name];
+    if (value instanceof Date) return !isNaN(value.getTime());
+    return value !== undefined && value.trim() !== '';
+  };
+
+  let output = template;
+  let match: RegExpExecArray | null;
+  while ((match = TEMPLATE_BLOCK_REGEX.exec(output)) !== null) {
+    const [block, kind, name, body] = match;
+    const elseMatch = body.match(/\{\{else\}\}\n?/);
+    const whenTrue = elseMatch ? body.slice(0, elseMatch.index) : body;
+    const whenFalse = elseMatch ? body.slice(elseMatch.index! + elseMatch[0].length) : '';
+    const condition = kind === 'if' ? isTruthy(name) : !isTruthy(name);
+    output = output.slice(0, match.index) + (condition ? whenTrue : whenFalse) + output.slice(match.index + block.length);
+  }
+
+  return output.replace(TEMPLATE_VARIABLE_REGEX, (placeholder, name: string, format?: string) => {
+    const value = variables[name];
+    if (value === undefined) return placeholder;
+    if (value instanceof Date) return formatTemplateDate(value, format || 'YYYY-MM-DD');
+    return value;
+  });
+}
+
+const DEFAULT_NOTE_TEMPLATE = `---
+title: "{{title}}"
+tags: [{{tags}}]
+created: {{date:YYYY-MM-DD}}
+source: ChatGPT
+conversation: "{{conversation_title}}"
+---
+
+{{#if prompt}}
+## User Prompt
+
+{{prompt}}
+
+{{/if}}
+## Response
+
+{{response}}
+`;
+
+describe('renderNoteTemplate', () => {
+  const date = new Date(2024, 2, 5, 9, 7, 3);
+
+  test('should substitute variables', () => {
+    const output = renderNoteTemplate('# {{title}} ({{model}}) from {{conversation_id}}', {
+      title: 'Advisory locks',
+      model: 'gpt-4o',
+      conversation_id: 'conv-1'
+    });
+    expect(output).toBe('# Advisory locks (gpt-4o) from conv-1');
+  });
+
+  test('should format dates', () => {
+    expect(renderNoteTemplate('{{date}}', { date })).toBe('2024-03-05');
+    expect(renderNoteTemplate('{{date:D/M/YY HH:mm:ss}}', { date })).toBe('5/3/24 09:07:03');
+    expect(renderNoteTemplate('{{date:[Week of] YYYY-MM}}', { date })).toBe('Week of 2024-03');
+  });
+
+  test('should leave unknown variables untouched', () => {
+    expect(renderNoteTemplate('{{title}} {{unknown}}', { title: 'T' })).toBe('T {{unknown}}');
+  });
+
+  test('should not expand template syntax inside inserted values', () => {
+    const output = renderNoteTemplate('{{response}}', {
+      response: 'Handlebars uses {{title}} and {{#if x}}blocks{{/if}}',
+      title: 'Injected'
+    });
+    expect(output).toBe('Handlebars uses {{title}} and {{#if x}}blocks{{/if}}');
+  });
+
+  test('should evaluate if/else and unless blocks', () => {
+    const template = '{{#if prompt}}Q: {{prompt}}{{else}}No prompt{{/if}} / {{#unless model}}unknown model{{/unless}}';
+    expect(renderNoteTemplate(template, { prompt: 'Hi', model: '' })).toBe('Q: Hi / unknown model');
+    expect(renderNoteTemplate(template, { prompt: '  ', model: 'o1' })).toBe('No prompt / ');
+  });
+
+  test('should evaluate nested blocks', () => {
+    const template = '{{#if prompt}}A{{#if model}}B{{/if}}C{{/if}}';
+    expect(renderNoteTemplate(template, { prompt: 'p', model: 'm' })).toBe('ABC');
+    expect(renderNoteTemplate(template, { prompt: 'p', model: '' })).toBe('AC');
+    expect(renderNoteTemplate(template, { prompt: '', model: 'm' })).toBe('');
+  });
+
+  test('should not leave blank lines behind block tags on their own line', () => {
+    const variables = {
+      title: 'Note',
+      tags: 'chatgpt, ai',
+      date,
+      conversation_title: 'Chat',
+      prompt: '',
+      response: 'Answer'
+    };
+    expect(renderNoteTemplate(DEFAULT_NOTE_TEMPLATE, variables)).toBe(
+      '---\ntitle: "Note"\ntags: [chatgpt, ai]\ncreated: 2024-03-05\nsource: ChatGPT\nconversation: "Chat"\n---\n\n## Response\n\nAnswer\n'
+    );
+    expect(renderNoteTemplate(DEFAULT_NOTE_TEMPLATE, { ...variables, prompt: 'Question' })).toContain(
+      '---\n\n## User Prompt\n\nQuestion\n\n## Response\n\nAnswer\n'
+    );
+  });
+});
@@ -0,0 +1,243 @@
+import { describe, test, expect } from '@jest/globals';
+
+// Reproduce the saved-note update helpers from main.ts for testing
+const NOTE_UPDATE_MARKER = '%% chatgpt-import: text below this line is kept when the note is updated %%';
+
+function buildNoteFileContent(generated: string, userContent: string = ''): string {
+  return `${generated.trimEnd()}\n\n${NOTE_UPDATE_MARKER}\n${userContent}`;
+}
+
+// Split a saved note into its generated part and the user's additions; null when the marker was removed
+function splitNoteAtMarker(content: string): { generated: string; userContent: string } | null {
+  const index = content.indexOf(NOTE_UPDATE_MARKER);
+  if (index === -1) return null;
+  return {
+    generated: content.substring(0, index).trimEnd(),
+    userContent: content.substring(index + NOTE_UPDATE_MARKER.length).replace(/^\r?\n/, '')
+  };
+}
+
+const ASSET_POINTER_IMAGE_REGEX = /!\[([^\]]*)\]\(((?:file-service|sediment):\/\/[^)\s]+)\)/g;
+
+interface TestPair {
+  userMessage: { content: string } | null;
+  assistantMessage: { content: string };
+}
+
+// Image resolution of the plugin; the archive holds entry paths and the attachments folder holds file names
+class TestAttachmentResolver {
+  attachmentsFolder = 'Attachments';
+  archiveEntries: string[] | null = null;
+  vaultAttachments: string[] = [];
+
+  findAttachmentEntry(assetPointer: string): string | null {
+    if (!this.archiveEntries) return null;
+    const fileId = assetPointer.substring(assetPointer.indexOf('://') + 3);
+    if (!fileId) return null;
+    return this.archiveEntries.find(path => {
+      const name = path.split('/').pop() || '';
+      return name === fileId || name.startsWith(fileId + '-') || name.startsWith(fileId + '.');
+    }) || null;
+  }
+
+  getAttachmentVaultPath(entryPath: string): string {
+    const name = (entryPath.split('/').pop() || entryPath).replace(/[\\/:*?"<>|#^[\]]/g, '-');
+    return this.attachmentsFolder ? `${this.attachmentsFolder}/${name}` : name;
+  }
+
+  findAttachmentVaultPath(assetPointer: string): string | null {
+    const entry = this.findAttachmentEntry(assetPointer);
+    if (entry) return this.getAttachmentVaultPath(entry);
+
+    const fileId = assetPointer.substring(assetPointer.indexOf('://') + 3);
+    if (!fileId) return null;
+    const name = this.vaultAttachments.find(child => child === fileId || child.startsWith(fileId + '-') || child.startsWith(fileId + '.'));
+    return name ? `${this.attachmentsFolder}/${name}` : null;
+  }
+
+  hasUnavailableAttachments(content: string): boolean {
+    const regex = new RegExp(ASSET_POINTER_IMAGE_REGEX.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(content)) !== null) {
+      if (!this.findAttachmentVaultPath(match[2])) return true;
+    }
+    return false;
+  }
+
+  resolveAttachmentEmbeds(content: string): string {
+    return content.replace(ASSET_POINTER_IMAGE_REGEX, (match, alt: string, assetPointer: string) => {
+      const vaultPath = this.findAttachmentVaultPath(assetPointer);
+      if (vaultPath) {
+        return `![[${vaultPath}]]`;
+      }
+      const fileId = assetPointer.substring(assetPointer.indexOf('://') + 3);
+      return this.archiveEntries ?
+        `> [!warning] Missing ${alt}\n> \`${fileId}\` was not found in the export archive.` :
+        `> [!warning] Missing ${alt}\n> \`${fileId}\` is only available when importing the export .zip.`;
+    });
+  }
+
+  // The check findSavedNoteUpdates makes before re-rendering a note
+  canUpdateNote(pairs: TestPair[]): boolean {
+    return !!this.archiveEntries || !pairs.some(pair =>
+      this.hasUnavailableAttachments(pair.assistantMessage.content) ||
+      (!!pair.userMessage && this.hasUnavailableAttachments(pair.userMessage.content)));
+  }
+}
+
+interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Line diff (longest common subsequence) between two versions of a note
+function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+  
+  // Only the middle that differs needs the LCS table
+  let start = 0;
+  while (start < oldLines.length && start < newLines.length && oldLines[start] === newLines[start]) start++;
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (oldEnd > start && newEnd > start && oldLines[oldEnd - 1] === newLines[newEnd - 1]) {
+    oldEnd--;
+    newEnd--;
+  }
+  
+  const result: DiffLine[] = oldLines.slice(0, start).map(text => ({ type: 'same' as const, text }));
+  const oldMiddle = oldLines.slice(start, oldEnd);
+  const newMiddle = newLines.slice(start, newEnd);
+  const rows = oldMiddle.length + 1;
+  const cols = newMiddle.length + 1;
+  
+  if (rows * cols > 4000000) {
+    // Too large to compare line by line: show it as replaced
+    oldMiddle.forEach(text => result.push({ type: 'removed', text }));
+    newMiddle.forEach(text => result.push({ type: 'added', text }));
+  } else {
+    // lengths[i * cols + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lengths = new Uint32Array(rows * cols);
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lengths[i * cols + j] = oldMiddle[i] === newMiddle[j] ?
+          lengths[(i + 1) * cols + j + 1] + 1 :
+          Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length || j < newMiddle.length) {
+      if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+        result.push({ type: 'same', text: oldMiddle[i] });
+        i++;
+        j++;
+      } else if (i < oldMiddle.length && (j === newMiddle.length || lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1])) {
+        result.push({ type: 'removed', text: oldMiddle[i] });
+        i++;
+      } else {
+        result.push({ type: 'added', text: newMiddle[j] });
+        j++;
+      }
+    }
+  }
+  
+  oldLines.slice(oldEnd).forEach(text => result.push({ type: 'same', text }));
+  return result;
+}
+
+describe('Saved note marker', () => {
+  test('should append the marker after the generated content', () => {
+    expect(buildNoteFileContent('# Note\n\nBody\n\n')).toBe(`# Note\n\nBody\n\n${NOTE_UPDATE_MARKER}\n`);
+  });
+
+  test('should split generated content from the text below the marker', () => {
+    const content = buildNoteFileContent('# Note\n\nBody', 'My own thoughts\n\n- [ ] follow up\n');
+    expect(splitNoteAtMarker(content)).toEqual({
+      generated: '# Note\n\nBody',
+      userContent: 'My own thoughts\n\n- [ ] follow up\n'
+    });
+  });
+
+  test('should round-trip user content through an update', () => {
+    const saved = buildNoteFileContent('Old body', 'Kept\n');
+    const parts = splitNoteAtMarker(saved)!;
+    expect(buildNoteFileContent('New body', parts.userContent)).toBe(`New body\n\n${NOTE_UPDATE_MARKER}\nKept\n`);
+  });
+
+  test('should return null when the marker was removed', () => {
+    expect(splitNoteAtMarker('# Note\n\nBody\n')).toBeNull();
+  });
+});
+
+describe('Updating notes with images', () => {
+  const pair: TestPair = {
+    userMessage: { content: 'Draw a cat\n\n![image](file-service://file-up1)' },
+    assistantMessage: { content: '![DALL·E image](sediment://file_dalle2)\n\nHere is your cat.' }
+  };
+
+  test('should embed images an earlier import copied when no archive is loaded', () => {
+    const resolver = new TestAttachmentResolver();
+    resolver.vaultAttachments = ['file-up1-cat.png', 'file_dalle2-generated.webp', 'unrelated.png'];
+
+    expect(resolver.canUpdateNote([pair])).toBe(true);
+    expect(resolver.resolveAttachmentEmbeds(pair.assistantMessage.content))
+      .toBe('![[Attachments/file_dalle2-generated.webp]]\n\nHere is your cat.');
+    expect(resolver.resolveAttachmentEmbeds(pair.userMessage!.content))
+      .toBe('Draw a cat\n\n![[Attachments/file-up1-cat.png]]');
+  });
+
+  test('should skip notes whose images are neither in the archive nor in the vault', () => {
+    const resolver = new TestAttachmentResolver();
+    resolver.vaultAttachments = ['file-up1-cat.png'];
+
+    expect(resolver.canUpdateNote([pair])).toBe(false);
+    expect(resolver.canUpdateNote([{ userMessage: null, assistantMessage: { content: 'No images' } }])).toBe(true);
+  });
+
+  test('should prefer the archive entry and update notes once the export .zip is loaded', () => {
+    const resolver = new TestAttachmentResolver();
+    resolver.archiveEntries = ['file-up1-cat.png', 'dalle-generations/file_dalle2-generated.webp'];
+
+    expect(resolver.canUpdateNote([pair])).toBe(true);
+    expect(resolver.resolveAttachmentEmbeds(pair.assistantMessage.content)).toContain('![[Attachments/file_dalle2-generated.webp]]');
+  });
+});
+
+describe('diffLines', () => {
+  test('should report no changes for identical text', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'same', text: 'b' }
+    ]);
+  });
+
+  test('should show replaced lines as removed then added', () => {
+    expect(diffLines('title\nold answer\nfooter', 'title\nnew answer\nfooter')).toEqual([
+      { type: 'same', text: 'title' },
+      { type: 'removed', text: 'old answer' },
+      { type: 'added', text: 'new answer' },
+      { type: 'same', text: 'footer' }
+    ]);
+  });
+
+  test('should keep common lines between insertions and deletions', () => {
+    const diff = diffLines('a\nb\nc\nd', 'a\nx\nc\nd\ne');
+    expect(diff).toEqual([
+      { type: 'same', text: 'a' },
+      { type: 'removed', text: 'b' },
+      { type: 'added', text: 'x' },
+      { type: 'same', text: 'c' },
+      { type: 'same', text: 'd' },
+      { type: 'added', text: 'e' }
+    ]);
+  });
+
+  test('should rebuild both versions from the diff', () => {
+    const oldText = '---\ntitle: "A"\n---\n\n## Response\n\none\ntwo\nthree';
+    const newText = '---\ntitle: "A"\ncreated: 2024-01-01\n---\n\n## Response\n\none\nthree\nfour';
+    const diff = diffLines(oldText, newText);
+    expect(diff.filter(line => line.type !== 'added').map(line => line.text).join('\n')).toBe(oldText);
+    expect(diff.filter(line => line.type !== 'removed').map(line => line.text).join('\n')).toBe(newText);
+  });
+});
@@ -0,0 +1,416 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+
+// Reproduce the pair state undo history from main.ts for testing
+enum QAPairState {
+  NEW = 'new',
+  IGNORED = 'ignored',
+  SAVED = 'saved'
+}
+
+interface QAPairMetadata {
+  pairId: string;
+  pairHash: string;
+  conversationId: string;
+  state: QAPairState;
+  timestamp: number;
+  userPrompt: string;
+  responsePreview: string;
+  notePaths?: string[];
+}
+
+type PairStateSnapshot = Omit<QAPairMetadata, 'notePaths'>;
+
+interface PairStateChange {
+  pairId: string;
+  conversationId: string;
+  before: PairStateSnapshot | null;
+  after: PairStateSnapshot | null;
+}
+
+interface PairAction {
+  id: string;
+  label: string;
+  source: string;
+  timestamp: number;
+  changes: PairStateChange[];
+  notes: Array<{ record: { path: string }; content?: string }>;
+  undone: boolean;
+}
+
+function snapshotPairState(metadata: QAPairMetadata | undefined): PairStateSnapshot | null {
+  if (!metadata) return null;
+  const { notePaths, ...snapshot } = metadata;
+  return snapshot;
+}
+
+function appendPairAction(log: PairAction[], action: PairAction, limit: number): PairAction[] {
+  return log.filter(entry => !entry.undone).concat([action]).slice(-limit);
+}
+
+function findUndoAction(log: PairAction[]): PairAction | null {
+  for (let i = log.length - 1; i >= 0; i--) {
+    if (!log[i].undone) return log[i];
+  }
+  return null;
+}
+
+function findRedoAction(log: PairAction[]): PairAction | null {
+  return log.find(entry => entry.undone) || null;
+}
+
+function summarizePairChanges(changes: PairStateChange[]): string {
+  const stateNames: { [state: string]: string } = { new: 'New', ignored: 'Ignored', saved: 'Saved' };
+  const counts = new Map<string, number>();
+  changes.forEach(change => {
+    const key = `${stateNames[change.before ? change.before.state : QAPairState.NEW]} → ${stateNames[change.after ? change.after.state : QAPairState.NEW]}`;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return Array.from(counts.entries()).map(([key, count]) => `${count} × ${key}`).join(', ');
+}
+
+// The recording and restoring parts of the plugin, without notes and the vault
+class TestPairHistory {
+  qaPairs: { [pairId: string]: QAPairMetadata } = {};
+  actionLog: PairAction[] = [];
+  protected pendingAction: PairAction | null = null;
+  private nextId = 1;
+
+  async updateQAPairState(pairId: string, state: QAPairState, conversationId: string): Promise<void> {
+    if (!this.pendingAction) {
+      await this.recordPairAction(`Set ${state}`, 'Importer', () => this.updateQAPairState(pairId, state, conversationId));
+      return;
+    }
+    if (!this.pendingAction.changes.some(change => change.pairId === pairId)) {
+      this.pendingAction.changes.push({ pairId, conversationId, before: snapshotPairState(this.qaPairs[pairId]), after: null });
+    }
+    this.qaPairs[pairId] = {
+      pairId, pairHash: 'h', conversationId, state, timestamp: Date.now(),
+      userPrompt: `prompt ${pairId}`, responsePreview: '', notePaths: this.qaPairs[pairId]?.notePaths
+    };
+  }
+
+  async recordPairAction<T>(label: string, source: string, work: () => Promise<T>): Promise<{ result: T; action: PairAction | null }> {
+    if (this.pendingAction) return { result: await work(), action: null };
+    const action: PairAction = { id: String(this.nextId++), label, source, timestamp: Date.now(), changes: [], notes: [], undone: false };
+    this.pendingAction = action;
+    let logged = false;
+    let result: T;
+    try {
+      result = await work();
+    } finally {
+      this.pendingAction = null;
+      action.changes.forEach(change => change.after = snapshotPairState(this.qaPairs[change.pairId]));
+      action.changes = action.changes.filter(change =>
+        (change.before ? change.before.state : QAPairState.NEW) !== (change.after ? change.after.state : QAPairState.NEW));
+      if (action.changes.length > 0 || action.notes.length > 0) {
+        this.actionLog = appendPairAction(this.actionLog, action, 50);
+        logged = true;
+      }
+    }
+    return { result, action: logged ? action : null };
+  }
+
+  // handleNoteDeleted: pairs left without a note go back to NEW as one action from the vault
+  async revertOrphanedPairs(pairIds: string[]): Promise<void> {
+    await this.recordPairAction(`Reset ${pairIds.length} pairs to new`, 'Vault', async () => {
+      for (const pairId of pairIds) {
+        await this.updateQAPairState(pairId, QAPairState.NEW, this.qaPairs[pairId].conversationId);
+      }
+    });
+  }
+
+  undo(): PairAction | null {
+    const action = findUndoAction(this.actionLog);
+    if (!action) return null;
+    this.restorePairStates(action, 'before');
+    action.undone = true;
+    return action;
+  }
+
+  redo(): PairAction | null {
+    const action = findRedoAction(this.actionLog);
+    if (!action) return null;
+    this.restorePairStates(action, 'after');
+    action.undone = false;
+    return action;
+  }
+
+  protected restorePairStates(action: PairAction, side: 'before' | 'after') {
+    action.changes.forEach(change => {
+      const snapshot = change[side];
+      const current = this.qaPairs[change.pairId];
+      if (snapshot) {
+        this.qaPairs[change.pairId] = { ...snapshot, timestamp: Date.now(), notePaths: current?.notePaths };
+      } else if (current && current.notePaths && current.notePaths.length > 0) {
+        current.state = QAPairState.NEW;
+      } else {
+        delete this.qaPairs[change.pairId];
+      }
+    });
+  }
+
+  state(pairId: string): QAPairState {
+    return this.qaPairs[pairId] ? this.qaPairs[pairId].state : QAPairState.NEW;
+  }
+}
+
+const UNDO_NOTE_TEXT_LIMIT = 200000;
+
+// Undo and redo of actions that wrote notes, with the vault's delete event fired by the trash
+class TestNoteHistory extends TestPairHistory {
+  files = new Map<string, string>();
+  trash: string[] = [];
+  savedNotes: { [path: string]: { path: string; pairIds: string[] } } = {};
+  notices: string[] = [];
+
+  async saveNote(path: string, pairIds: string[], content: string): Promise<void> {
+    await this.recordPairAction(`Save note "${path}"`, 'Save dialog', async () => {
+      this.files.set(path, content);
+      for (const pairId of pairIds) {
+        await this.updateQAPairState(pairId, QAPairState.SAVED, 'c1');
+      }
+      this.recordSavedNote({ path, pairIds });
+    });
+  }
+
+  private recordSavedNote(record: { path: string; pairIds: string[] }) {
+    this.savedNotes[record.path] = record;
+    if (this.pendingAction) this.pendingAction.notes.push({ record: { ...record } });
+    record.pairIds.forEach(pairId => {
+      const pair = this.qaPairs[pairId];
+      if (!pair) return;
+      const notePaths = pair.notePaths || (pair.notePaths = []);
+      if (notePaths.indexOf(record.path) === -1) notePaths.push(record.path);
+    });
+  }
+
+  private forgetSavedNote(notePath: string): QAPairMetadata[] {
+    const record = this.savedNotes[notePath];
+    if (!record) return [];
+    delete this.savedNotes[notePath];
+    const orphaned: QAPairMetadata[] = [];
+    record.pairIds.forEach(pairId => {
+      const pair = this.qaPairs[pairId];
+      if (!pair || !pair.notePaths || pair.notePaths.indexOf(notePath) === -1) return;
+      pair.notePaths = pair.notePaths.filter(path => path !== notePath);
+      if (pair.notePaths.length === 0) orphaned.push(pair);
+    });
+    return orphaned;
+  }
+
+  // handleNoteDeleted with revertDeletedNotes on
+  async handleNoteDeleted(path: string): Promise<void> {
+    const orphaned = this.forgetSavedNote(path).filter(pair => pair.state === QAPairState.SAVED);
+    if (orphaned.length > 0) await this.revertOrphanedPairs(orphaned.map(pair => pair.pairId));
+  }
+
+  // fileManager.trashFile, which fires the vault's delete event
+  async trashFile(path: string): Promise<void> {
+    this.files.delete(path);
+    this.trash.push(path);
+    await this.handleNoteDeleted(path);
+  }
+
+  async undoWithNotes(): Promise<PairAction | null> {
+    const action = findUndoAction(this.actionLog);
+    if (!action) return null;
+    const contents = action.notes.map(note => this.files.has(note.record.path) ? this.files.get(note.record.path)! : null);
+    const keepContent = contents.reduce((total, content) => total + (content ? content.length : 0), 0) <= UNDO_NOTE_TEXT_LIMIT;
+    for (let i = 0; i < action.notes.length; i++) {
+      if (contents[i] === null) continue;
+      if (keepContent) action.notes[i].content = contents[i]!;
+      this.forgetSavedNote(action.notes[i].record.path);
+      await this.trashFile(action.notes[i].record.path);
+    }
+    this.restorePairStates(action, 'before');
+    action.undone = true;
+    if (!keepContent) {
+      this.actionLog = this.actionLog.filter(entry => !entry.undone);
+      this.notices.push(`Undone: ${action.label}\nIts notes are too large to keep, so it cannot be redone (they are in the trash)`);
+    }
+    return action;
+  }
+
+  async redoWithNotes(): Promise<PairAction | null> {
+    const action = findRedoAction(this.actionLog);
+    if (!action) return null;
+    this.restorePairStates(action, 'after');
+    for (const note of action.notes) {
+      if (note.content === undefined) continue;
+      let path = note.record.path;
+      for (let counter = 1; this.files.has(path); counter++) {
+        path = `${note.record.path.replace(/\.md$/, '')} (${counter}).md`;
+      }
+      this.files.set(path, note.content);
+      note.record = { ...note.record, path };
+      delete note.content;
+      this.recordSavedNote(note.record as { path: string; pairIds: string[] });
+    }
+    action.undone = false;
+    return action;
+  }
+}
+
+describe('Pair state history', () => {
+  let history: TestPairHistory;
+
+  beforeEach(() => {
+    history = new TestPairHistory();
+  });
+
+  test('should record a bulk change as one action and undo it in one step', async () => {
+    await history.updateQAPairState('p1', QAPairState.SAVED, 'c1');
+    await history.recordPairAction('Ignore 3 pairs', 'Bulk actions', async () => {
+      for (const pairId of ['p1', 'p2', 'p3']) {
+        await history.updateQAPairState(pairId, QAPairState.IGNORED, 'c1');
+      }
+    });
+    expect(history.actionLog.map(action => action.label)).toEqual(['Set saved', 'Ignore 3 pairs']);
+    expect(summarizePairChanges(history.actionLog[1].changes)).toBe('1 × Saved → Ignored, 2 × New → Ignored');
+
+    history.undo();
+    expect(history.state('p1')).toBe(QAPairState.SAVED);
+    expect(history.qaPairs.p2).toBeUndefined();
+    expect(history.state('p3')).toBe(QAPairState.NEW);
+  });
+
+  test('should redo undone actions in order', async () => {
+    await history.updateQAPairState('p1', QAPairState.IGNORED, 'c1');
+    await history.updateQAPairState('p1', QAPairState.SAVED, 'c1');
+    history.undo();
+    history.undo();
+    expect(history.state('p1')).toBe(QAPairState.NEW);
+    expect(history.undo()).toBeNull();
+
+    history.redo();
+    expect(history.state('p1')).toBe(QAPairState.IGNORED);
+    history.redo();
+    expect(history.state('p1')).toBe(QAPairState.SAVED);
+    expect(history.redo()).toBeNull();
+  });
+
+  test('should drop the redo history when a new action is recorded', async () => {
+    await history.updateQAPairState('p1', QAPairState.IGNORED, 'c1');
+    history.undo();
+    await history.updateQAPairState('p2', QAPairState.IGNORED, 'c1');
+    expect(history.actionLog.map(action => action.changes[0].pairId)).toEqual(['p2']);
+    expect(findRedoAction(history.actionLog)).toBeNull();
+  });
+
+  test('should not log changes that leave the state as it was', async () => {
+    await history.updateQAPairState('p1', QAPairState.NEW, 'c1');
+    expect(history.actionLog).toEqual([]);
+  });
+
+  test('should return the result of the work and the action it logged', async () => {
+    const recorded = await history.recordPairAction('Ignore pair', 'Triage', async () => {
+      await history.updateQAPairState('p1', QAPairState.IGNORED, 'c1');
+      // Nested work belongs to the outer action
+      const nested = await history.recordPairAction('Inner', 'Triage', async () => 'inner');
+      expect(nested).toEqual({ result: 'inner', action: null });
+      return 'done';
+    });
+    expect(recorded.result).toBe('done');
+    expect(recorded.action).toBe(history.actionLog[0]);
+
+    const unchanged = await history.recordPairAction('Ignore pair', 'Triage', () => history.updateQAPairState('p1', QAPairState.IGNORED, 'c1'));
+    expect(unchanged.action).toBeNull();
+  });
+
+  test('should keep note links when restoring states', async () => {
+    await history.updateQAPairState('p1', QAPairState.SAVED, 'c1');
+    history.qaPairs.p1.notePaths = ['ChatGPT/Note.md'];
+    history.undo();
+    // The note was not written by the action, so the pair stays linked to it
+    expect(history.qaPairs.p1.notePaths).toEqual(['ChatGPT/Note.md']);
+    expect(history.state('p1')).toBe(QAPairState.NEW);
+  });
+
+  test('should log pairs reverted after their notes were deleted as an undoable action', async () => {
+    await history.updateQAPairState('p1', QAPairState.SAVED, 'c1');
+    await history.updateQAPairState('p2', QAPairState.SAVED, 'c1');
+    await history.revertOrphanedPairs(['p1', 'p2']);
+
+    const action = history.actionLog[history.actionLog.length - 1];
+    expect(action).toMatchObject({ label: 'Reset 2 pairs to new', source: 'Vault' });
+    expect(summarizePairChanges(action.changes)).toBe('2 × Saved → New');
+
+    history.undo();
+    expect(history.state('p1')).toBe(QAPairState.SAVED);
+    expect(history.state('p2')).toBe(QAPairState.SAVED);
+  });
+
+  test('should keep only the newest actions', () => {
+    let log: PairAction[] = [];
+    for (let i = 0; i < 5; i++) {
+      log = appendPairAction(log, { id: String(i), label: '', source: '', timestamp: i, changes: [], notes: [], undone: false }, 3);
+    }
+    expect(log.map(action => action.id)).toEqual(['2', '3', '4']);
+  });
+});
+
+describe('Undo and redo of actions that wrote notes', () => {
+  let history: TestNoteHistory;
+
+  beforeEach(() => {
+    history = new TestNoteHistory();
+  });
+
+  test('should trash the notes and restore the pair states in one step', async () => {
+    await history.saveNote('ChatGPT/Locks.md', ['p1', 'p2'], '# Locks');
+
+    await history.undoWithNotes();
+
+    expect(history.files.size).toBe(0);
+    expect(history.trash).toEqual(['ChatGPT/Locks.md']);
+    expect(history.state('p1')).toBe(QAPairState.NEW);
+    expect(history.state('p2')).toBe(QAPairState.NEW);
+    // The delete event found nothing to revert, so no action of its own was logged and redo is still possible
+    expect(history.actionLog.map(action => [action.label, action.undone])).toEqual([['Save note "ChatGPT/Locks.md"', true]]);
+    expect(history.actionLog[0].notes[0].content).toBe('# Locks');
+  });
+
+  test('should write the notes again and link them on redo', async () => {
+    await history.saveNote('ChatGPT/Locks.md', ['p1'], '# Locks');
+    await history.undoWithNotes();
+    // Another note took the path in the meantime
+    history.files.set('ChatGPT/Locks.md', 'Other');
+
+    await history.redoWithNotes();
+
+    expect(history.files.get('ChatGPT/Locks (1).md')).toBe('# Locks');
+    expect(history.state('p1')).toBe(QAPairState.SAVED);
+    expect(history.qaPairs.p1.notePaths).toEqual(['ChatGPT/Locks (1).md']);
+    expect(history.actionLog[0].notes[0]).toEqual({ record: { path: 'ChatGPT/Locks (1).md', pairIds: ['p1'] } });
+
+    // Undo follows the note to its new path
+    await history.undoWithNotes();
+    expect(history.files.has('ChatGPT/Locks (1).md')).toBe(false);
+    expect(history.state('p1')).toBe(QAPairState.NEW);
+  });
+
+  test('should not keep the text of large notes and drop redo instead', async () => {
+    await history.saveNote('ChatGPT/Small.md', ['p1'], 'small');
+    await history.saveNote('ChatGPT/Large.md', ['p2'], 'x'.repeat(UNDO_NOTE_TEXT_LIMIT + 1));
+
+    await history.undoWithNotes();
+    expect(history.actionLog.map(action => action.label)).toEqual(['Save note "ChatGPT/Small.md"']);
+    expect(history.notices[0]).toContain('cannot be redone');
+    expect(history.state('p2')).toBe(QAPairState.NEW);
+    expect(JSON.stringify(history.actionLog)).not.toContain('xxxx');
+
+    await history.undoWithNotes();
+    expect(await history.redoWithNotes()).not.toBeNull();
+    expect(history.files.get('ChatGPT/Small.md')).toBe('small');
+    expect(await history.redoWithNotes()).toBeNull();
+  });
+
+  test('should revert pairs when the user deletes a note outside of undo', async () => {
+    await history.saveNote('ChatGPT/Locks.md', ['p1'], '# Locks');
+
+    await history.trashFile('ChatGPT/Locks.md');
+
+    expect(history.state('p1')).toBe(QAPairState.NEW);
+    expect(history.actionLog.map(action => action.source)).toEqual(['Save dialog', 'Vault']);
+  });
+});
@@ -22,11 +22,62 @@ interface QAPairMetadata {
   timestamp: number;
   userPrompt: string;
   responsePreview: string;
+  notePaths?: string[];
+}
+
+interface SavedNoteRecord {
+  path: string;
+  kind: 'response' | 'conversation';
+  conversationId: string;
+  pairIds: string[];
+  title: string;
+  tags: string;
+  templateId: string;
+  contentHash: string;
+  savedAt: number;
+  timestamp: number;
+}
+
+interface SeenConversation {
+  updateTime: number;
+  newResponseIds: string[];
 }
 
 interface QAPairMetadataStore {
   qaPairs: { [key: string]: QAPairMetadata };
   lastUpdated: number;
+  seenConversations?: { [conversationId: string]: SeenConversation };
+  savedNotes?: { [path: string]: SavedNoteRecord };
+}
+
+interface TestConversation {
+  id: string;
+  update_time: number;
+  messages: Array<{ id: string; role: string; timestamp: number; foldedPairIds?: string[] }>;
+  branches?: Array<{ messages: Array<{ id: string; role: string; timestamp: number; foldedPairIds?: string[] }> }>;
+}
+
+function normalizeForHash(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim();
+}
+
+function hashQAPairContent(userPrompt: string, response: string): string {
+  const content = normalizeForHash(userPrompt) + '\u0000' + normalizeForHash(response);
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < content.length; i++) {
+    const char = content.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hex = (value: number) => ('0000000' + (value >>> 0).toString(16)).slice(-8);
+  return hex(h2) + hex(h1);
+}
+
+function isFullContentHash(hash: string): boolean {
+  return /^[0-9a-f]{16}$/.test(hash);
 }
 
 // Test implementation of the plugin's Q&A pair management
@@ -34,24 +85,30 @@ class TestChatGPTPlugin {
   app: MockApp;
   private metadataStore: QAPairMetadataStore = { qaPairs: {}, lastUpdated: Date.now() };
   private readonly METADATA_FILE_NAME = '.chatgpt-plugin-metadata.json';
+  private metadataBatchDepth = 0;
+  private metadataDirty = false;
+  settings = { revertDeletedNotes: false };
+  private savedHashIndex: Map<string, string> | null = null;
 
   constructor(app: MockApp) {
     this.app = app;
   }
 
   private generateQAPairHash(userPrompt: string, response: string): string {
-    const content = JSON.stringify({
-      userPrompt: userPrompt.substring(0, 200),
-      response: response.substring(0, 200)
-    });
-    
-    let hash = 0;
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
+    return hashQAPairContent(userPrompt, response);
+  }
+
+  findSavedDuplicate(pair: { pairId: string; userPrompt: string; response: string }): QAPairMetadata | null {
+    if (!this.savedHashIndex) {
+      this.savedHashIndex = new Map();
+      Object.values(this.metadataStore.qaPairs).forEach(metadata => {
+        if (metadata.state === QAPairState.SAVED && isFullContentHash(metadata.pairHash) && !this.savedHashIndex!.has(metadata.pairHash)) {
+          this.savedHashIndex!.set(metadata.pairHash, metadata.pairId);
+        }
+      });
     }
-    return Math.abs(hash).toString(36);
+    const duplicateId = this.savedHashIndex.get(this.generateQAPairHash(pair.userPrompt, pair.response));
+    return duplicateId && duplicateId !== pair.pairId ? this.metadataStore.qaPairs[duplicateId] : null;
   }
 
   generateQAPairId(conversationId: string, userMsgId: string, assistantMsgId: string): string {
@@ -64,49 +121,225 @@ class TestChatGPTPlugin {
   }
 
   async updateQAPairState(pairId: string, state: QAPairState, conversationId: string, userPrompt: string, response: string): Promise<void> {
-    const hash = this.generateQAPairHash(userPrompt, response);
+    await this.writeQAPairState(pairId, state, conversationId, {
+      pairHash: this.generateQAPairHash(userPrompt, response),
+      userPrompt: userPrompt.substring(0, 100),
+      responsePreview: response.substring(0, 100)
+    });
+  }
+
+  private async writeQAPairState(pairId: string, state: QAPairState, conversationId: string, content: Pick<QAPairMetadata, 'pairHash' | 'userPrompt' | 'responsePreview'>): Promise<void> {
+    this.savedHashIndex = null;
     
     this.metadataStore.qaPairs[pairId] = {
       pairId,
-      pairHash: hash,
+      pairHash: content.pairHash,
       conversationId,
       state,
       timestamp: Date.now(),
-      userPrompt: userPrompt.substring(0, 100),
-      responsePreview: response.substring(0, 100)
+      userPrompt: content.userPrompt,
+      responsePreview: content.responsePreview,
+      notePaths: this.metadataStore.qaPairs[pairId]?.notePaths
     };
     
+    const seen = this.metadataStore.seenConversations?.[conversationId];
+    if (seen && state !== QAPairState.NEW) {
+      seen.newResponseIds = seen.newResponseIds.filter(id => !pairId.endsWith(`_${id}`));
+    }
+    
     await this.saveConversationMetadata();
   }
 
-  getConversationProcessingStatus(conversationId: string, totalAssistantMessages?: number): ConversationProcessingStatus {
-    const pairs = Object.values(this.metadataStore.qaPairs)
-      .filter(pair => pair.conversationId === conversationId);
+  async recordSeenConversations(conversations: TestConversation[]): Promise<number> {
+    const seenConversations = this.metadataStore.seenConversations || (this.metadataStore.seenConversations = {});
+    let updatedCount = 0;
     
-    if (totalAssistantMessages === undefined) {
-      if (pairs.length === 0) {
-        return ConversationProcessingStatus.UNPROCESSED;
+    conversations.forEach(conv => {
+      const seen = seenConversations[conv.id];
+      if (!seen) {
+        seenConversations[conv.id] = { updateTime: conv.update_time, newResponseIds: [] };
+        return;
       }
-      const newCount = pairs.filter(p => p.state === QAPairState.NEW).length;
-      return newCount === 0 ? ConversationProcessingStatus.PROCESSED : ConversationProcessingStatus.PARTIAL;
-    }
+      if (!(conv.update_time > seen.updateTime)) return;
+      
+      const added: string[] = [];
+      const branches = conv.branches && conv.branches.length > 0 ? conv.branches : [{ messages: conv.messages }];
+      branches.forEach(branch => branch.messages.forEach(msg => {
+        if (msg.role === 'assistant' && msg.timestamp > seen.updateTime &&
+          added.indexOf(msg.id) === -1 && seen.newResponseIds.indexOf(msg.id) === -1) {
+          added.push(msg.id);
+        }
+      }));
+      if (added.length > 0) {
+        seen.newResponseIds = seen.newResponseIds.concat(added);
+        updatedCount++;
+      }
+      seen.updateTime = conv.update_time;
+    });
     
-    const processedPairs = pairs.filter(p => p.state !== QAPairState.NEW).length;
-    const newPairs = pairs.filter(p => p.state === QAPairState.NEW).length;
-    const unprocessedPairs = totalAssistantMessages - pairs.length;
+    await this.saveConversationMetadata();
+    return updatedCount;
+  }
+
+  async recordSavedNote(record: SavedNoteRecord): Promise<void> {
+    const savedNotes = this.metadataStore.savedNotes || (this.metadataStore.savedNotes = {});
+    savedNotes[record.path] = record;
+    record.pairIds.forEach(pairId => {
+      const pair = this.metadataStore.qaPairs[pairId];
+      if (!pair) return;
+      const notePaths = pair.notePaths || (pair.notePaths = []);
+      if (notePaths.indexOf(record.path) === -1) notePaths.push(record.path);
+    });
+    await this.saveConversationMetadata();
+  }
+
+  private getAffectedNotePaths(path: string, isFolder: boolean): string[] {
+    return Object.keys(this.metadataStore.savedNotes || {})
+      .filter(notePath => isFolder ? notePath.startsWith(path + '/') : notePath === path);
+  }
+
+  async handleNoteRenamed(oldPath: string, newPath: string, isFolder: boolean): Promise<void> {
+    const savedNotes = this.metadataStore.savedNotes;
+    const affected = this.getAffectedNotePaths(oldPath, isFolder);
+    if (!savedNotes || affected.length === 0) return;
     
-    const totalNewPairs = newPairs + unprocessedPairs;
+    affected.forEach(notePath => {
+      const renamedPath = isFolder ? newPath + notePath.substring(oldPath.length) : newPath;
+      const record = savedNotes[notePath];
+      delete savedNotes[notePath];
+      savedNotes[renamedPath] = { ...record, path: renamedPath };
+      record.pairIds.forEach(pairId => {
+        const pair = this.metadataStore.qaPairs[pairId];
+        if (pair && pair.notePaths) {
+          pair.notePaths = pair.notePaths.map(path => path === notePath ? renamedPath : path);
+        }
+      });
+    });
+    await this.saveConversationMetadata();
+  }
+
+  async handleNoteDeleted(path: string, isFolder: boolean): Promise<void> {
+    const savedNotes = this.metadataStore.savedNotes;
+    const affected = this.getAffectedNotePaths(path, isFolder);
+    if (!savedNotes || affected.length === 0) return;
     
-    if (totalNewPairs === 0) {
+    const orphaned: QAPairMetadata[] = [];
+    affected.forEach(notePath => this.forgetSavedNote(notePath).forEach(pair => {
+      if (this.settings.revertDeletedNotes && pair.state === QAPairState.SAVED) orphaned.push(pair);
+    }));
+    await this.batchMetadataUpdates(async () => {
+      for (const pair of orphaned) {
+        await this.writeQAPairState(pair.pairId, QAPairState.NEW, pair.conversationId, pair);
+      }
+      await this.saveConversationMetadata();
+    });
+  }
+
+  private forgetSavedNote(notePath: string): QAPairMetadata[] {
+    const savedNotes = this.metadataStore.savedNotes;
+    const record = savedNotes?.[notePath];
+    if (!savedNotes || !record) return [];
+    delete savedNotes[notePath];
+    
+    const orphaned: QAPairMetadata[] = [];
+    record.pairIds.forEach(pairId => {
+      const pair = this.metadataStore.qaPairs[pairId];
+      if (!pair || !pair.notePaths || pair.notePaths.indexOf(notePath) === -1) return;
+      pair.notePaths = pair.notePaths.filter(path => path !== notePath);
+      if (pair.notePaths.length === 0) orphaned.push(pair);
+    });
+    return orphaned;
+  }
+
+  getNewResponseIds(conversationId: string): string[] {
+    const seen = this.metadataStore.seenConversations?.[conversationId];
+    return seen ? seen.newResponseIds : [];
+  }
+
+  getQAPairs(conv: TestConversation): Array<{ pairId: string; assistantMessage: TestConversation['messages'][number] }> {
+    const pairs: Array<{ pairId: string; assistantMessage: TestConversation['messages'][number] }> = [];
+    conv.messages.forEach((msg, index) => {
+      if (msg.role !== 'assistant') return;
+      const userMessage = index > 0 ? conv.messages[index - 1] : null;
+      pairs.push({ pairId: this.generateQAPairId(conv.id, userMessage ? userMessage.id : 'no-user-msg', msg.id), assistantMessage: msg });
+    });
+    return pairs;
+  }
+
+  async migrateFoldedPairIds(conversations: TestConversation[]): Promise<void> {
+    const qaPairs = this.metadataStore.qaPairs;
+    const savedNotes = this.metadataStore.savedNotes || {};
+    const rank = (state: QAPairState) => state === QAPairState.SAVED ? 2 : state === QAPairState.IGNORED ? 1 : 0;
+    let migrated = 0;
+
+    conversations.forEach(conv => {
+      const branches = conv.branches && conv.branches.length > 0 ? conv.branches.map(branch => branch.messages) : [conv.messages];
+      branches.forEach(messages => this.getQAPairs({ ...conv, messages }).forEach(pair => {
+        const previousIds = (pair.assistantMessage.foldedPairIds || []).filter(pairId => qaPairs[pairId]);
+        if (previousIds.length === 0 || qaPairs[pair.pairId]) return;
+
+        const records = previousIds.map(pairId => qaPairs[pairId]);
+        const kept = records.reduce((best, record) => rank(record.state) > rank(best.state) ? record : best);
+        const notePaths: string[] = [];
+        records.forEach(record => (record.notePaths || []).forEach(path => {
+          if (notePaths.indexOf(path) === -1) notePaths.push(path);
+        }));
+        const moved: QAPairMetadata = { ...kept, pairId: pair.pairId };
+        if (notePaths.length > 0) {
+          moved.notePaths = notePaths;
+        } else {
+          delete moved.notePaths;
+        }
+        qaPairs[pair.pairId] = moved;
+        previousIds.forEach(pairId => delete qaPairs[pairId]);
+
+        Object.values(savedNotes).forEach(record => {
+          if (!record.pairIds.some(pairId => previousIds.indexOf(pairId) !== -1)) return;
+          record.pairIds = record.pairIds
+            .map(pairId => previousIds.indexOf(pairId) !== -1 ? pair.pairId : pairId)
+            .filter((pairId, index, all) => all.indexOf(pairId) === index);
+        });
+        migrated++;
+      }));
+    });
+
+    if (migrated > 0) {
+      this.savedHashIndex = null;
+      await this.saveConversationMetadata();
+    }
+  }
+
+  getConversationProcessingStatus(conv: TestConversation): ConversationProcessingStatus {
+    const states = this.getQAPairs(conv).map(pair => this.getQAPairState(pair.pairId));
+    const newPairs = states.filter(state => state === QAPairState.NEW).length;
+    
+    if (newPairs === 0) {
       return ConversationProcessingStatus.PROCESSED;
-    } else if (processedPairs > 0) {
+    } else if (newPairs < states.length) {
       return ConversationProcessingStatus.PARTIAL;
     } else {
       return ConversationProcessingStatus.UNPROCESSED;
     }
   }
 
+  async batchMetadataUpdates<T>(work: () => Promise<T>): Promise<T> {
+    this.metadataBatchDepth++;
+    try {
+      return await work();
+    } finally {
+      this.metadataBatchDepth--;
+      if (this.metadataBatchDepth === 0 && this.metadataDirty) {
+        this.metadataDirty = false;
+        await this.saveConversationMetadata();
+      }
+    }
+  }
+
   private async saveConversationMetadata(): Promise<void> {
+    if (this.metadataBatchDepth > 0) {
+      this.metadataDirty = true;
+      return;
+    }
     this.metadataStore.lastUpdated = Date.now();
     const content = JSON.stringify(this.metadataStore, null, 2);
     
@@ -259,60 +492,69 @@ describe('Q&A Pair State Management', () => {
   });
 
   describe('getConversationProcessingStatus', () => {
+    type Message = { id: string; role: string; timestamp: number };
+    // Each turn is a user message id followed by its response id
+    const conversation = (turns: Array<[string, string]>): TestConversation => ({
+      id: 'conv1',
+      update_time: 1,
+      messages: turns.reduce((messages, [userId, assistantId]) => messages.concat([
+        { id: userId, role: 'user', timestamp: 1 },
+        { id: assistantId, role: 'assistant', timestamp: 1 }
+      ]), [] as Message[])
+    });
+
     test('should return UNPROCESSED for conversation with no metadata', () => {
-      const status = plugin.getConversationProcessingStatus('unknown_conv');
+      const status = plugin.getConversationProcessingStatus(conversation([['u1', 'a1']]));
       expect(status).toBe(ConversationProcessingStatus.UNPROCESSED);
     });
 
     test('should return PROCESSED when all pairs are processed', async () => {
-      const conv = 'conv1';
-      
-      await plugin.updateQAPairState('pair1', QAPairState.SAVED, conv, 'p1', 'r1');
-      await plugin.updateQAPairState('pair2', QAPairState.IGNORED, conv, 'p2', 'r2');
+      await plugin.updateQAPairState('conv1_u1_a1', QAPairState.SAVED, 'conv1', 'p1', 'r1');
+      await plugin.updateQAPairState('conv1_u2_a2', QAPairState.IGNORED, 'conv1', 'p2', 'r2');
       
-      const status = plugin.getConversationProcessingStatus(conv);
+      const status = plugin.getConversationProcessingStatus(conversation([['u1', 'a1'], ['u2', 'a2']]));
       expect(status).toBe(ConversationProcessingStatus.PROCESSED);
     });
 
     test('should return PARTIAL when some pairs are processed', async () => {
-      const conv = 'conv1';
-      
-      await plugin.updateQAPairState('pair1', QAPairState.SAVED, conv, 'p1', 'r1');
-      await plugin.updateQAPairState('pair2', QAPairState.NEW, conv, 'p2', 'r2');
+      await plugin.updateQAPairState('conv1_u1_a1', QAPairState.SAVED, 'conv1', 'p1', 'r1');
+      await plugin.updateQAPairState('conv1_u2_a2', QAPairState.NEW, 'conv1', 'p2', 'r2');
       
-      const status = plugin.getConversationProcessingStatus(conv);
+      const status = plugin.getConversationProcessingStatus(conversation([['u1', 'a1'], ['u2', 'a2']]));
       expect(status).toBe(ConversationProcessingStatus.PARTIAL);
     });
 
-    test('should handle totalAssistantMessages parameter correctly', async () => {
-      const conv = 'conv1';
+    test('should count pairs without metadata as new', async () => {
+      // 1 processed pair out of 3 responses
+      await plugin.updateQAPairState('conv1_u1_a1', QAPairState.SAVED, 'conv1', 'p1', 'r1');
       
-      // 1 processed pair out of 3 total messages
-      await plugin.updateQAPairState('pair1', QAPairState.SAVED, conv, 'p1', 'r1');
-      
-      const status = plugin.getConversationProcessingStatus(conv, 3);
+      const status = plugin.getConversationProcessingStatus(conversation([['u1', 'a1'], ['u2', 'a2'], ['u3', 'a3']]));
       expect(status).toBe(ConversationProcessingStatus.PARTIAL);
     });
 
-    test('should return PROCESSED when all messages are accounted for and processed', async () => {
-      const conv = 'conv1';
-      
-      await plugin.updateQAPairState('pair1', QAPairState.SAVED, conv, 'p1', 'r1');
-      await plugin.updateQAPairState('pair2', QAPairState.IGNORED, conv, 'p2', 'r2');
-      
-      const status = plugin.getConversationProcessingStatus(conv, 2);
-      expect(status).toBe(ConversationProcessingStatus.PROCESSED);
-    });
-
     test('should return UNPROCESSED when no pairs are processed', async () => {
-      const conv = 'conv1';
-      
-      await plugin.updateQAPairState('pair1', QAPairState.NEW, conv, 'p1', 'r1');
-      await plugin.updateQAPairState('pair2', QAPairState.NEW, conv, 'p2', 'r2');
+      await plugin.updateQAPairState('conv1_u1_a1', QAPairState.NEW, 'conv1', 'p1', 'r1');
+      await plugin.updateQAPairState('conv1_u2_a2', QAPairState.NEW, 'conv1', 'p2', 'r2');
       
-      const status = plugin.getConversationProcessingStatus(conv, 3);
+      const status = plugin.getConversationProcessingStatus(conversation([['u1', 'a1'], ['u2', 'a2'], ['u3', 'a3']]));
       expect(status).toBe(ConversationProcessingStatus.UNPROCESSED);
     });
+
+    test('should only count the pairs of the branch shown', async () => {
+      // Both branches share the first exchange and then diverge on a regenerated response
+      const branchA = conversation([['u1', 'a1'], ['u2', 'a2'], ['u3', 'a3']]);
+      const branchB = conversation([['u1', 'a1'], ['u2', 'a2-retry'], ['u3-retry', 'a3-retry']]);
+      await plugin.updateQAPairState('conv1_u1_a1', QAPairState.SAVED, 'conv1', 'p1', 'r1');
+      await plugin.updateQAPairState('conv1_u2_a2-retry', QAPairState.SAVED, 'conv1', 'p2', 'r2');
+      await plugin.updateQAPairState('conv1_u3-retry_a3-retry', QAPairState.IGNORED, 'conv1', 'p3', 'r3');
+
+      expect(plugin.getConversationProcessingStatus(branchB)).toBe(ConversationProcessingStatus.PROCESSED);
+      expect(plugin.getConversationProcessingStatus(branchA)).toBe(ConversationProcessingStatus.PARTIAL);
+
+      await plugin.updateQAPairState('conv1_u2_a2', QAPairState.IGNORED, 'conv1', 'p2', 'r2');
+      await plugin.updateQAPairState('conv1_u3_a3', QAPairState.IGNORED, 'conv1', 'p3', 'r3');
+      expect(plugin.getConversationProcessingStatus(branchA)).toBe(ConversationProcessingStatus.PROCESSED);
+    });
   });
 
   describe('Metadata Persistence', () => {
@@ -360,6 +602,251 @@ describe('Q&A Pair State Management', () => {
     });
   });
 
+  describe('batchMetadataUpdates', () => {
+    test('should write metadata once for a batch of updates', async () => {
+      await plugin.batchMetadataUpdates(async () => {
+        await plugin.updateQAPairState('pair1', QAPairState.IGNORED, 'conv1', 'p1', 'r1');
+        await plugin.updateQAPairState('pair2', QAPairState.IGNORED, 'conv1', 'p2', 'r2');
+        await plugin.updateQAPairState('pair3', QAPairState.SAVED, 'conv1', 'p3', 'r3');
+      });
+
+      expect(app.vault.create).toHaveBeenCalledTimes(1);
+      expect(app.vault.modify).not.toHaveBeenCalled();
+      expect(plugin.getQAPairState('pair3')).toBe(QAPairState.SAVED);
+    });
+
+    test('should defer the write until the outermost batch completes', async () => {
+      await plugin.batchMetadataUpdates(async () => {
+        await plugin.batchMetadataUpdates(async () => {
+          await plugin.updateQAPairState('pair1', QAPairState.SAVED, 'conv1', 'p1', 'r1');
+        });
+        expect(app.vault.create).not.toHaveBeenCalled();
+      });
+
+      expect(app.vault.create).toHaveBeenCalledTimes(1);
+    });
+
+    test('should skip the write when nothing changed', async () => {
+      await plugin.batchMetadataUpdates(async () => {});
+      expect(app.vault.create).not.toHaveBeenCalled();
+    });
+
+    test('should still write changes made before an error', async () => {
+      await expect(plugin.batchMetadataUpdates(async () => {
+        await plugin.updateQAPairState('pair1', QAPairState.IGNORED, 'conv1', 'p1', 'r1');
+        throw new Error('Bulk action failed');
+      })).rejects.toThrow('Bulk action failed');
+
+      expect(app.vault.create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('recordSeenConversations', () => {
+    type Message = { id: string; role: string; timestamp: number };
+    // Each response is [id, create time]; the conversation was last updated with its newest response
+    const conversation = (responses: Array<[string, number]>): TestConversation => ({
+      id: 'conv1',
+      update_time: Math.max(...responses.map(([, time]) => time)),
+      messages: responses.reduce((messages, [id, time]) => messages.concat([
+        { id: `u-${id}`, role: 'user', timestamp: time },
+        { id, role: 'assistant', timestamp: time }
+      ]), [] as Message[])
+    });
+
+    test('should not flag anything on the first import', async () => {
+      const updated = await plugin.recordSeenConversations([conversation([['a1', 1], ['a2', 1]])]);
+      expect(updated).toBe(0);
+      expect(plugin.getNewResponseIds('conv1')).toEqual([]);
+    });
+
+    test('should flag responses added since the previous import', async () => {
+      await plugin.recordSeenConversations([conversation([['a1', 1]])]);
+      const updated = await plugin.recordSeenConversations([conversation([['a1', 1], ['a2', 2], ['a3', 2]])]);
+
+      expect(updated).toBe(1);
+      expect(plugin.getNewResponseIds('conv1')).toEqual(['a2', 'a3']);
+      expect(plugin._getMetadataStore().seenConversations!['conv1']).toEqual({ updateTime: 2, newResponseIds: ['a2', 'a3'] });
+    });
+
+    test('should not flag the same responses again on a later import', async () => {
+      await plugin.recordSeenConversations([conversation([['a1', 1]])]);
+      await plugin.recordSeenConversations([conversation([['a1', 1], ['a2', 2]])]);
+      const updated = await plugin.recordSeenConversations([conversation([['a1', 1], ['a2', 2]])]);
+
+      expect(updated).toBe(0);
+      expect(plugin.getNewResponseIds('conv1')).toEqual(['a2']);
+    });
+
+    test('should collect responses from every branch', async () => {
+      await plugin.recordSeenConversations([conversation([['a1', 1]])]);
+      await plugin.recordSeenConversations([{
+        ...conversation([['a1', 1], ['a1-retry', 2]]),
+        branches: [
+          { messages: [{ id: 'u1', role: 'user', timestamp: 1 }, { id: 'a1', role: 'assistant', timestamp: 1 }] },
+          { messages: [{ id: 'u1', role: 'user', timestamp: 1 }, { id: 'a1-retry', role: 'assistant', timestamp: 2 }] }
+        ]
+      }]);
+
+      expect(plugin.getNewResponseIds('conv1')).toEqual(['a1-retry']);
+    });
+
+    test('should not flag older responses a partial export left out', async () => {
+      await plugin.recordSeenConversations([conversation([['a1', 1]])]);
+      const updated = await plugin.recordSeenConversations([conversation([['a1', 1], ['a0', 0.5], ['a2', 3]])]);
+
+      expect(updated).toBe(1);
+      expect(plugin.getNewResponseIds('conv1')).toEqual(['a2']);
+    });
+
+    test('should clear the flag once the pair is saved or ignored', async () => {
+      await plugin.recordSeenConversations([conversation([['a1', 1]])]);
+      await plugin.recordSeenConversations([conversation([['a1', 1], ['a2', 2], ['a3', 2]])]);
+
+      await plugin.updateQAPairState('conv1_u-a2_a2', QAPairState.SAVED, 'conv1', 'p', 'r');
+      await plugin.updateQAPairState('conv1_u-a3_a3', QAPairState.NEW, 'conv1', 'p', 'r');
+      expect(plugin.getNewResponseIds('conv1')).toEqual(['a3']);
+
+      await plugin.updateQAPairState('conv1_u-a3_a3', QAPairState.IGNORED, 'conv1', 'p', 'r');
+      expect(plugin.getNewResponseIds('conv1')).toEqual([]);
+    });
+  });
+
+  describe('Content hash deduplication', () => {
+    const longPrefix = 'x'.repeat(300);
+
+    test('should hash the full prompt and response', () => {
+      expect(hashQAPairContent('p', longPrefix + 'a')).not.toBe(hashQAPairContent('p', longPrefix + 'b'));
+      expect(hashQAPairContent(longPrefix + 'a', 'r')).not.toBe(hashQAPairContent(longPrefix + 'b', 'r'));
+      expect(hashQAPairContent('ab', 'c')).not.toBe(hashQAPairContent('a', 'bc'));
+      expect(hashQAPairContent('p', 'r')).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    test('should ignore whitespace and Unicode normalization differences', () => {
+      expect(hashQAPairContent('  What is\r\nthis? ', 'Caf\u00e9\n\n- item  ')).toBe(hashQAPairContent('What is this?', 'Cafe\u0301 - item'));
+    });
+
+    test('should find a saved pair with the same content under another id', async () => {
+      await plugin.updateQAPairState('conv1_u1_a1', QAPairState.SAVED, 'conv1', 'Question', 'Answer');
+
+      const duplicate = plugin.findSavedDuplicate({ pairId: 'conv2_u9_a9', userPrompt: 'Question ', response: 'Answer' });
+      expect(duplicate?.pairId).toBe('conv1_u1_a1');
+      expect(plugin.findSavedDuplicate({ pairId: 'conv1_u1_a1', userPrompt: 'Question', response: 'Answer' })).toBeNull();
+      expect(plugin.findSavedDuplicate({ pairId: 'conv2_u9_a9', userPrompt: 'Question', response: 'Other answer' })).toBeNull();
+    });
+
+    test('should only match saved pairs and follow state changes', async () => {
+      await plugin.updateQAPairState('conv1_u1_a1', QAPairState.IGNORED, 'conv1', 'Question', 'Answer');
+      const pair = { pairId: 'conv2_u9_a9', userPrompt: 'Question', response: 'Answer' };
+      expect(plugin.findSavedDuplicate(pair)).toBeNull();
+
+      await plugin.updateQAPairState('conv1_u1_a1', QAPairState.SAVED, 'conv1', 'Question', 'Answer');
+      expect(plugin.findSavedDuplicate(pair)?.pairId).toBe('conv1_u1_a1');
+
+      await plugin.updateQAPairState('conv1_u1_a1', QAPairState.NEW, 'conv1', 'Question', 'Answer');
+      expect(plugin.findSavedDuplicate(pair)).toBeNull();
+    });
+
+    test('should leave saved pairs with a hash from an older version out of matching until they are rehashed', async () => {
+      const store = plugin._getMetadataStore();
+      store.qaPairs['conv1_u1_a1'] = {
+        pairId: 'conv1_u1_a1', pairHash: '1x2y3z', conversationId: 'conv1', state: QAPairState.SAVED,
+        timestamp: 0, userPrompt: 'Question', responsePreview: 'Answer'
+      };
+      await plugin.updateQAPairState('conv1_u2_a2', QAPairState.SAVED, 'conv1', 'Other', 'Text');
+      const pair = { pairId: 'conv2_u9_a9', userPrompt: 'Question', response: 'Answer' };
+      expect(isFullContentHash(store.qaPairs['conv1_u1_a1'].pairHash)).toBe(false);
+      expect(plugin.findSavedDuplicate(pair)).toBeNull();
+
+      await plugin.updateQAPairState('conv1_u1_a1', QAPairState.SAVED, 'conv1', 'Question', 'Answer');
+      expect(plugin.findSavedDuplicate(pair)?.pairId).toBe('conv1_u1_a1');
+    });
+  });
+
+  describe('Saved note tracking', () => {
+    const saveNote = async (path: string, pairIds: string[]) => {
+      for (const pairId of pairIds) {
+        await plugin.updateQAPairState(pairId, QAPairState.SAVED, 'conv1', 'p', 'r');
+      }
+      await plugin.recordSavedNote({
+        path,
+        kind: pairIds.length === 1 ? 'response' : 'conversation',
+        conversationId: 'conv1',
+        pairIds,
+        title: 'T',
+        tags: '',
+        templateId: '',
+        contentHash: 'h',
+        savedAt: 0,
+        timestamp: 0
+      });
+    };
+    const notePaths = (pairId: string) => plugin._getMetadataStore().qaPairs[pairId].notePaths;
+
+    test('should link the note path to its pairs and keep it across state changes', async () => {
+      await saveNote('ChatGPT/Answer.md', ['pair1']);
+      await plugin.updateQAPairState('pair1', QAPairState.SAVED, 'conv1', 'p', 'r');
+
+      expect(notePaths('pair1')).toEqual(['ChatGPT/Answer.md']);
+    });
+
+    test('should follow renamed notes and folders', async () => {
+      await saveNote('ChatGPT/Answer.md', ['pair1']);
+      await saveNote('ChatGPT/Chat.md', ['pair1', 'pair2']);
+
+      await plugin.handleNoteRenamed('ChatGPT/Answer.md', 'ChatGPT/Renamed.md', false);
+      expect(notePaths('pair1')).toEqual(['ChatGPT/Renamed.md', 'ChatGPT/Chat.md']);
+
+      await plugin.handleNoteRenamed('ChatGPT', 'Archive/ChatGPT', true);
+      expect(notePaths('pair1')).toEqual(['Archive/ChatGPT/Renamed.md', 'Archive/ChatGPT/Chat.md']);
+      expect(Object.keys(plugin._getMetadataStore().savedNotes!).sort()).toEqual(['Archive/ChatGPT/Chat.md', 'Archive/ChatGPT/Renamed.md']);
+      expect(plugin._getMetadataStore().savedNotes!['Archive/ChatGPT/Chat.md'].path).toBe('Archive/ChatGPT/Chat.md');
+    });
+
+    test('should ignore renames of unrelated files', async () => {
+      await saveNote('ChatGPT/Answer.md', ['pair1']);
+      app.vault.modify.mockClear();
+
+      await plugin.handleNoteRenamed('ChatGPT/Answer.md.bak', 'Other.md', false);
+      await plugin.handleNoteRenamed('Chat', 'Talk', true);
+
+      expect(notePaths('pair1')).toEqual(['ChatGPT/Answer.md']);
+      expect(app.vault.modify).not.toHaveBeenCalled();
+    });
+
+    test('should keep pairs saved when their note is deleted by default', async () => {
+      await saveNote('ChatGPT/Answer.md', ['pair1']);
+      await plugin.handleNoteDeleted('ChatGPT/Answer.md', false);
+
+      expect(notePaths('pair1')).toEqual([]);
+      expect(plugin.getQAPairState('pair1')).toBe(QAPairState.SAVED);
+    });
+
+    test('should reset pairs to new once all their notes are deleted when enabled', async () => {
+      plugin.settings.revertDeletedNotes = true;
+      await saveNote('ChatGPT/Answer.md', ['pair1']);
+      await saveNote('ChatGPT/Chat.md', ['pair1', 'pair2']);
+
+      await plugin.handleNoteDeleted('ChatGPT/Chat.md', false);
+      expect(plugin.getQAPairState('pair1')).toBe(QAPairState.SAVED);
+      expect(plugin.getQAPairState('pair2')).toBe(QAPairState.NEW);
+
+      await plugin.handleNoteDeleted('ChatGPT', true);
+      expect(plugin.getQAPairState('pair1')).toBe(QAPairState.NEW);
+    });
+
+    test('should keep the content hash of reverted pairs and drop them from duplicate matching', async () => {
+      plugin.settings.revertDeletedNotes = true;
+      await saveNote('ChatGPT/Answer.md', ['pair1']);
+      const hash = plugin._getMetadataStore().qaPairs.pair1.pairHash;
+      expect(plugin.findSavedDuplicate({ pairId: 'pair2', userPrompt: 'p', response: 'r' })).not.toBeNull();
+
+      await plugin.handleNoteDeleted('ChatGPT/Answer.md', false);
+
+      expect(plugin._getMetadataStore().qaPairs.pair1).toMatchObject({ state: QAPairState.NEW, pairHash: hash, userPrompt: 'p' });
+      expect(plugin.findSavedDuplicate({ pairId: 'pair2', userPrompt: 'p', response: 'r' })).toBeNull();
+    });
+  });
+
   describe('Race Conditions and Edge Cases', () => {
     test('should handle rapid state updates correctly', async () => {
       const pairId = 'rapid_update_pair';
@@ -407,4 +894,51 @@ describe('Q&A Pair State Management', () => {
       expect(plugin.getQAPairState(pairId)).toBe(QAPairState.SAVED);
     });
   });
+
+  describe('migrateFoldedPairIds', () => {
+    // A DALL·E turn: the call (once a pair of its own) and the image answer are now one response
+    const conversation = (): TestConversation => ({
+      id: 'conv1',
+      update_time: 1,
+      messages: [
+        { id: 'u1', role: 'user', timestamp: 1 },
+        { id: 'a1', role: 'assistant', timestamp: 1, foldedPairIds: ['conv1_u1_call', 'conv1_call_a1'] }
+      ]
+    });
+    const recordNote = (path: string, pairIds: string[]) => plugin.recordSavedNote({
+      path, kind: 'response', conversationId: 'conv1', pairIds, title: 'T', tags: '', templateId: '', contentHash: 'h', savedAt: 0, timestamp: 0
+    });
+
+    test('should move the saved state and its note to the response that holds the call', async () => {
+      await plugin.updateQAPairState('conv1_u1_call', QAPairState.IGNORED, 'conv1', 'p', 'call');
+      await plugin.updateQAPairState('conv1_call_a1', QAPairState.SAVED, 'conv1', 'call', 'r');
+      await recordNote('ChatGPT/Lighthouse.md', ['conv1_call_a1']);
+
+      await plugin.migrateFoldedPairIds([conversation()]);
+
+      const metadata = plugin._getMetadataStore();
+      expect(Object.keys(metadata.qaPairs)).toEqual(['conv1_u1_a1']);
+      expect(metadata.qaPairs['conv1_u1_a1']).toMatchObject({ pairId: 'conv1_u1_a1', state: QAPairState.SAVED, notePaths: ['ChatGPT/Lighthouse.md'] });
+      expect(metadata.savedNotes!['ChatGPT/Lighthouse.md'].pairIds).toEqual(['conv1_u1_a1']);
+    });
+
+    test('should keep a state the response already has', async () => {
+      await plugin.updateQAPairState('conv1_u1_call', QAPairState.SAVED, 'conv1', 'p', 'call');
+      await plugin.updateQAPairState('conv1_u1_a1', QAPairState.IGNORED, 'conv1', 'p', 'r');
+
+      await plugin.migrateFoldedPairIds([conversation()]);
+
+      expect(plugin.getQAPairState('conv1_u1_a1')).toBe(QAPairState.IGNORED);
+      expect(plugin.getQAPairState('conv1_u1_call')).toBe(QAPairState.SAVED);
+    });
+
+    test('should leave conversations without folded calls alone', async () => {
+      await plugin.updateQAPairState('conv1_u1_a1', QAPairState.SAVED, 'conv1', 'p', 'r');
+      const plain: TestConversation = { id: 'conv1', update_time: 1, messages: [{ id: 'u1', role: 'user', timestamp: 1 }, { id: 'a1', role: 'assistant', timestamp: 1 }] };
+
+      await plugin.migrateFoldedPairIds([plain]);
+
+      expect(Object.keys(plugin._getMetadataStore().qaPairs)).toEqual(['conv1_u1_a1']);
+    });
+  });
 });
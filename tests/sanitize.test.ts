@@ -0,0 +1,132 @@
+import { describe, test, expect } from '@jest/globals';
+
+// Reproduce the escaping helpers the import modal uses before building DOM content
+// Indented code block: lines indented by four spaces or a tab, starting the text or following a blank line
+// that does not continue a list item (where the indentation is the item's own)
+const INDENTED_CODE_REGEX = /(?<=^|(?:^|\n)(?![ \t]|[-*+][ \t]|\d+[.)][ \t])[^\n]*\n[ \t]*\n)(?: {4}|\t)[^\n]*(?:\n(?: {4}|\t)[^\n]*|\n[ \t]*(?=\n(?: {4}|\t)))*/;
+const PROTECTED_MARKDOWN_REGEX = new RegExp(/(`{3,}|~{3,})[\s\S]*?(?:\1|$)|`[^`\n]*`|\$\$[\s\S]*?\$\$|\$[^\s$](?:[^$\n]*[^\s$])?\$/.source + '|' + INDENTED_CODE_REGEX.source, 'g');
+
+function escapeHtmlInMarkdown(markdown: string): string {
+  const escapeText = (text: string) => text
+    .replace(/<(?!(?:https?|mailto):[^\s<>]*>)/g, '&lt;')
+    .replace(/\]\(\s*(?:javascript|vbscript):(?:[^()]|\([^()]*\))*\)/gi, '](#)');
+  let output = '';
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  const regex = new RegExp(PROTECTED_MARKDOWN_REGEX.source, 'g');
+  while ((match = regex.exec(markdown)) !== null) {
+    output += escapeText(markdown.slice(lastIndex, match.index)) + match[0];
+    lastIndex = match.index + match[0].length;
+    if (match[0].length === 0) regex.lastIndex++;
+  }
+  return output + escapeText(markdown.slice(lastIndex));
+}
+
+function splitOnMatches(text: string, query: string): Array<{ text: string; match: boolean }> {
+  if (!query) return [{ text, match: false }];
+  const segments: Array<{ text: string; match: boolean }> = [];
+  const lowerText = text.toLowerCase();
+  const lowerQuery = query.toLowerCase();
+  let start = 0;
+  let index = lowerText.indexOf(lowerQuery);
+  while (index !== -1) {
+    if (index > start) segments.push({ text: text.slice(start, index), match: false });
+    segments.push({ text: text.slice(index, index + query.length), match: true });
+    start = index + query.length;
+    index = lowerText.indexOf(lowerQuery, start);
+  }
+  if (start < text.length) segments.push({ text: text.slice(start), match: false });
+  return segments;
+}
+
+describe('escapeHtmlInMarkdown', () => {
+  test('should neutralize HTML tags in prose', () => {
+    const hostile = 'Look: <img src=x onerror="alert(1)"> and <script>alert(2)</script>';
+    const escaped = escapeHtmlInMarkdown(hostile);
+    expect(escaped).toBe('Look: &lt;img src=x onerror="alert(1)"> and &lt;script>alert(2)&lt;/script>');
+    expect(escaped).not.toMatch(/<[a-z/]/i);
+  });
+
+  test('should neutralize HTML inside callouts and lists', () => {
+    const content = '> [!info]- Tool output\n> <iframe src="https://evil.example"></iframe>\n\n- <b onmouseover=alert(1)>item</b>';
+    expect(escapeHtmlInMarkdown(content)).not.toMatch(/<[a-z/]/i);
+  });
+
+  test('should leave code fences, inline code and math untouched', () => {
+    const content = [
+      'Use `<div>` for layout.',
+      '```html',
+      '<img src=x onerror=alert(1)>',
+      '```',
+      'When $a<b$ and $$x < y$$ hold, <b>this</b> is escaped.'
+    ].join('\n');
+    expect(escapeHtmlInMarkdown(content)).toBe([
+      'Use `<div>` for layout.',
+      '```html',
+      '<img src=x onerror=alert(1)>',
+      '```',
+      'When $a<b$ and $$x < y$$ hold, &lt;b>this&lt;/b> is escaped.'
+    ].join('\n'));
+  });
+
+  test('should leave indented code blocks untouched', () => {
+    const content = 'Markup:\n\n    <div class="card">\n\n      <img src="a.png">\n    </div>\n\nThen <b>this</b> is escaped.';
+    expect(escapeHtmlInMarkdown(content)).toBe(
+      'Markup:\n\n    <div class="card">\n\n      <img src="a.png">\n    </div>\n\nThen &lt;b>this&lt;/b> is escaped.'
+    );
+    expect(escapeHtmlInMarkdown('\t<i>tab indented</i>')).toBe('\t<i>tab indented</i>');
+  });
+
+  test('should escape indented text that is not a code block', () => {
+    // A list item's continuation and a paragraph's continuation line are not code
+    expect(escapeHtmlInMarkdown('- item\n\n    <b>more</b>')).toBe('- item\n\n    &lt;b>more&lt;/b>');
+    expect(escapeHtmlInMarkdown('1. item\n\n    <b>more</b>')).toBe('1. item\n\n    &lt;b>more&lt;/b>');
+    expect(escapeHtmlInMarkdown('Text\n    <b>lazy</b>')).toBe('Text\n    &lt;b>lazy&lt;/b>');
+  });
+
+  test('should treat an unterminated fence as code to the end', () => {
+    expect(escapeHtmlInMarkdown('<b>x</b>\n```\n<b>y</b>')).toBe('&lt;b>x&lt;/b>\n```\n<b>y</b>');
+  });
+
+  test('should keep autolinks and comparisons readable', () => {
+    expect(escapeHtmlInMarkdown('See <https://example.com/a?b=1> if 1 < 2'))
+      .toBe('See <https://example.com/a?b=1> if 1 &lt; 2');
+  });
+
+  test('should disable script links', () => {
+    expect(escapeHtmlInMarkdown('[click](javascript:alert(document.cookie)) [ok](https://example.com)'))
+      .toBe('[click](#) [ok](https://example.com)');
+    expect(escapeHtmlInMarkdown('[x]( JavaScript:void(0))')).toBe('[x](#)');
+  });
+});
+
+describe('splitOnMatches', () => {
+  test('should highlight case-insensitive matches', () => {
+    expect(splitOnMatches('Projects/AI/ai-notes', 'ai')).toEqual([
+      { text: 'Projects/', match: false },
+      { text: 'AI', match: true },
+      { text: '/', match: false },
+      { text: 'ai', match: true },
+      { text: '-notes', match: false }
+    ]);
+  });
+
+  test('should treat regex syntax in the filter literally', () => {
+    expect(splitOnMatches('Notes (old)', '(')).toEqual([
+      { text: 'Notes ', match: false },
+      { text: '(', match: true },
+      { text: 'old)', match: false }
+    ]);
+    expect(splitOnMatches('a.b', '.*')).toEqual([{ text: 'a.b', match: false }]);
+  });
+
+  test('should return markup-looking filters as plain text segments', () => {
+    const segments = splitOnMatches('<img src=x onerror=alert(1)>', '<img');
+    expect(segments[0]).toEqual({ text: '<img', match: true });
+    expect(segments.map(segment => segment.text).join('')).toBe('<img src=x onerror=alert(1)>');
+  });
+
+  test('should return the whole text when the query is empty', () => {
+    expect(splitOnMatches('Folder', '')).toEqual([{ text: 'Folder', match: false }]);
+  });
+});
@@ -0,0 +1,402 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { MockApp } from './mocks/obsidian';
+
+// Reproduce SaveConversationModal (a whole-conversation transcript note) from main.ts for testing
+enum QAPairState {
+  NEW = 'new',
+  IGNORED = 'ignored',
+  SAVED = 'saved'
+}
+
+interface TestMessage {
+  id: string;
+  role: string;
+  content: string;
+  timestamp: number;
+  model?: string;
+}
+
+interface TestConversation {
+  id: string;
+  title: string;
+  create_time: number;
+  update_time: number;
+  messages: TestMessage[];
+}
+
+interface TestPair {
+  pairId: string;
+  userMessage: TestMessage | null;
+  assistantMessage: TestMessage;
+}
+
+interface SavedNoteRecord {
+  path: string;
+  kind: 'response' | 'conversation';
+  conversationId: string;
+  pairIds: string[];
+  title: string;
+  tags: string;
+  templateId: string;
+  contentHash: string;
+  savedAt: number;
+  timestamp: number;
+}
+
+type TemplateVariables = { [name: string]: string | Date };
+
+const TEMPLATE_BLOCK_REGEX = /\{\{#(if|unless)\s+(\w+)\}\}\n?((?:(?!\{\{#(?:if|unless)\s)[\s\S])*?)\{\{\/\1\}\}\n?/;
+const TEMPLATE_VARIABLE_REGEX = /\{\{(\w+)(?::([^}]*))?\}\}/g;
+
+function formatTemplateDate(date: Date, format: string): string {
+  const pad = (value: number) => ('0' + value).slice(-2);
+  const tokens: { [token: string]: string } = {
+    YYYY: date.getFullYear().toString(),
+    YY: date.getFullYear().toString().slice(-2),
+    MM: pad(date.getMonth() + 1),
+    M: (date.getMonth() + 1).toString(),
+    DD: pad(date.getDate()),
+    D: date.getDate().toString(),
+    HH: pad(date.getHours()),
+    H: date.getHours().toString(),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds())
+  };
+  return format.replace(/\[([^\]]*)\]|YYYY|YY|MM|M|DD|D|HH|H|mm|ss/g, (token, literal?: string) =>
+    literal !== undefined ? literal : tokens[token]
+  );
+}
+
+function renderNoteTemplate(template: string, variables: TemplateVariables): string {
+  const isTruthy = (name: string) => {
+    const value = variables[name];
+    if (value instanceof Date) return !isNaN(value.getTime());
+    return value !== undefined && value.trim() !== '';
+  };
+
+  let output = template;
+  let match: RegExpExecArray | null;
+  while ((match = TEMPLATE_BLOCK_REGEX.exec(output)) !== null) {
+    const [block, kind, name, body] = match;
+    const elseMatch = body.match(/\{\{else\}\}\n?/);
+    const whenTrue = elseMatch ? body.slice(0, elseMatch.index) : body;
+    const whenFalse = elseMatch ? body.slice(elseMatch.index! + elseMatch[0].length) : '';
+    const condition = kind === 'if' ? isTruthy(name) : !isTruthy(name);
+    output = output.slice(0, match.index) + (condition ? whenTrue : whenFalse) + output.slice(match.index + block.length);
+  }
+
+  return output.replace(TEMPLATE_VARIABLE_REGEX, (placeholder, name: string, format?: string) => {
+    const value = variables[name];
+    if (value === undefined) return placeholder;
+    if (value instanceof Date) return formatTemplateDate(value, format || 'YYYY-MM-DD');
+    return value;
+  });
+}
+
+const NOTE_UPDATE_MARKER = '%% chatgpt-import: text below this line is kept when the note is updated %%';
+
+function buildNoteFileContent(generated: string, userContent: string = ''): string {
+  return `${generated.trimEnd()}\n\n${NOTE_UPDATE_MARKER}\n${userContent}`;
+}
+
+function hashContent(content: string): string {
+  let hash = 0;
+  for (let i = 0; i < content.length; i++) {
+    hash = ((hash << 5) - hash) + content.charCodeAt(i);
+    hash = hash & hash; // Convert to 32bit integer
+  }
+  return Math.abs(hash).toString(36);
+}
+
+function convertToMarkdown(content: string): string {
+  return content
+    .replace(/\*\*(.*?)\*\*/g, '**$1**')
+    .replace(/\*(.*?)\*/g, '*$1*')
+    .replace(/`([^`]+)`/g, '`$1`')
+    .replace(/```([\s\S]*?)```/g, '```$1```');
+}
+
+class TestPlugin {
+  settings = { includeUserPrompts: true, includeTimestamps: true };
+  states: { [pairId: string]: QAPairState } = {};
+  savedNotes: { [path: string]: SavedNoteRecord } = {};
+  notePaths: { [pairId: string]: string[] } = {};
+  failMetadata = false;
+
+  getQAPairs(conv: TestConversation): TestPair[] {
+    const pairs: TestPair[] = [];
+    conv.messages.forEach((msg, index) => {
+      if (msg.role !== 'assistant') return;
+      const userMessage = index > 0 ? conv.messages[index - 1] : null;
+      pairs.push({ pairId: `${conv.id}_${userMessage ? userMessage.id : 'no-user-msg'}_${msg.id}`, userMessage, assistantMessage: msg });
+    });
+    return pairs;
+  }
+
+  getQAPairState(pairId: string): QAPairState {
+    return this.states[pairId] || QAPairState.NEW;
+  }
+
+  async updateQAPairStates(pairs: TestPair[], state: QAPairState, conversationId: string): Promise<void> {
+    if (this.failMetadata) throw new Error('metadata locked');
+    pairs.forEach(pair => this.states[pair.pairId] = state);
+  }
+
+  async recordSavedNote(record: SavedNoteRecord): Promise<void> {
+    this.savedNotes[record.path] = record;
+    record.pairIds.forEach(pairId => this.notePaths[pairId] = (this.notePaths[pairId] || []).concat([record.path]));
+  }
+
+  // Images are covered by the attachment tests; plain text passes through
+  resolveAttachmentEmbeds(content: string): string {
+    return content;
+  }
+}
+
+class TestSaveConversationModal {
+  app: MockApp;
+  plugin: TestPlugin;
+  conversation: TestConversation;
+  pairs: TestPair[];
+  templateContent: string | null = null;
+  templateId = '';
+  renderTime = new Date(Date.UTC(2024, 4, 1, 12));
+
+  constructor(app: MockApp, plugin: TestPlugin, conversation: TestConversation, pairs?: TestPair[]) {
+    this.app = app;
+    this.plugin = plugin;
+    this.conversation = conversation;
+    this.pairs = pairs || plugin.getQAPairs(conversation);
+  }
+
+  getTemplateVariables(title: string, tags: string): TemplateVariables {
+    const tagArray = tags.split(',').map(t => t.trim()).filter(t => t);
+    const models: string[] = [];
+    this.pairs.forEach(pair => {
+      const model = pair.assistantMessage.model;
+      if (model && models.indexOf(model) === -1) models.push(model);
+    });
+    return {
+      title: title,
+      tags: tagArray.join(', '),
+      prompt: '',
+      response: '',
+      content: this.generateBody(),
+      conversation_title: this.conversation.title,
+      conversation_id: this.conversation.id,
+      model: models.join(', '),
+      date: new Date(this.conversation.create_time * 1000),
+      updated: new Date(this.conversation.update_time * 1000),
+      now: this.renderTime
+    };
+  }
+
+  generateFrontmatter(title: string, tags: string): string {
+    const tagArray = tags.split(',').map(t => t.trim()).filter(t => t);
+    const toDate = (seconds: number) => new Date(seconds * 1000).toISOString().split('T')[0];
+
+    let content = '';
+    content += '---\n';
+    content += `title: "${title}"\n`;
+    if (tagArray.length > 0) {
+      content += `tags: [${tagArray.map(t => `"${t}"`).join(', ')}]\n`;
+    }
+    if (this.plugin.settings.includeTimestamps) {
+      content += `created: ${toDate(this.conversation.create_time)}\n`;
+      content += `updated: ${toDate(this.conversation.update_time)}\n`;
+      content += `source: ChatGPT\n`;
+      content += `conversation: "${this.conversation.title}"\n`;
+    }
+    content += '---\n\n';
+    return content;
+  }
+
+  generateBody(): string {
+    let content = '';
+    this.pairs.forEach((pair, index) => {
+      content += `## Exchange ${index + 1}\n\n`;
+      if (this.plugin.settings.includeTimestamps && pair.assistantMessage.timestamp) {
+        content += `*${new Date(pair.assistantMessage.timestamp * 1000).toLocaleString()}*\n\n`;
+      }
+      if (this.plugin.settings.includeUserPrompts && pair.userMessage && pair.userMessage.role === 'user') {
+        content += '### User Prompt\n\n';
+        content += this.plugin.resolveAttachmentEmbeds(convertToMarkdown(pair.userMessage.content)) + '\n\n';
+      }
+      content += '### Response\n\n';
+      content += this.plugin.resolveAttachmentEmbeds(convertToMarkdown(pair.assistantMessage.content)) + '\n\n';
+    });
+    return content.trimEnd() + '\n';
+  }
+
+  generateNoteContent(title: string, tags: string): string {
+    if (this.templateContent !== null) {
+      return renderNoteTemplate(this.templateContent, this.getTemplateVariables(title, tags));
+    }
+    return this.generateFrontmatter(title, tags) + this.generateBody();
+  }
+
+  // SaveNoteModal.saveNote with the conversation's markSaved/getSavedPairIds; file names are covered by the filename tests
+  async saveNote(title: string, folder: string, tags: string): Promise<string> {
+    const generated = this.generateNoteContent(title, tags).trimEnd();
+    const path = folder ? `${folder}/${title}.md` : `${title}.md`;
+    await this.app.vault.create(path, buildNoteFileContent(generated));
+    try {
+      await this.plugin.updateQAPairStates(this.pairs, QAPairState.SAVED, this.conversation.id);
+      await this.plugin.recordSavedNote({
+        path,
+        kind: 'conversation',
+        conversationId: this.conversation.id,
+        pairIds: this.pairs.map(pair => pair.pairId),
+        title,
+        tags,
+        templateId: this.templateId,
+        contentHash: hashContent(generated),
+        savedAt: this.renderTime.getTime(),
+        timestamp: Date.now()
+      });
+    } catch (metadataError) {
+      // The note exists, so the save still counts
+    }
+    return path;
+  }
+}
+
+// Seconds for a UTC date at noon, so the calendar date is the same in every time zone
+const at = (day: number) => Date.UTC(2024, 0, day, 12) / 1000;
+
+const conversation: TestConversation = {
+  id: 'c1',
+  title: 'Postgres locks',
+  create_time: at(2),
+  update_time: at(9),
+  messages: [
+    { id: 'u1', role: 'user', content: 'What is an advisory lock?', timestamp: at(2) },
+    { id: 'a1', role: 'assistant', content: 'A lock the **application** defines.', timestamp: at(2), model: 'gpt-4o' },
+    { id: 'u2', role: 'user', content: 'How do I take one?', timestamp: at(9) },
+    { id: 'a2', role: 'assistant', content: 'Call `pg_advisory_lock`.', timestamp: at(9), model: 'o1' }
+  ]
+};
+
+describe('SaveConversationModal', () => {
+  let app: MockApp;
+  let plugin: TestPlugin;
+
+  beforeEach(() => {
+    app = new MockApp();
+    plugin = new TestPlugin();
+  });
+
+  describe('transcript', () => {
+    test('should write one heading per exchange with its prompt and response', () => {
+      plugin.settings.includeTimestamps = false;
+      const body = new TestSaveConversationModal(app, plugin, conversation).generateBody();
+
+      expect(body).toBe(
+        '## Exchange 1\n\n### User Prompt\n\nWhat is an advisory lock?\n\n### Response\n\nA lock the **application** defines.\n\n' +
+        '## Exchange 2\n\n### User Prompt\n\nHow do I take one?\n\n### Response\n\nCall `pg_advisory_lock`.\n'
+      );
+    });
+
+    test('should leave out prompts when includeUserPrompts is off', () => {
+      plugin.settings.includeUserPrompts = false;
+      plugin.settings.includeTimestamps = false;
+      const body = new TestSaveConversationModal(app, plugin, conversation).generateBody();
+
+      expect(body).not.toContain('### User Prompt');
+      expect(body).not.toContain('What is an advisory lock?');
+      expect(body.match(/^## Exchange \d+$/gm)).toEqual(['## Exchange 1', '## Exchange 2']);
+    });
+
+    test('should show the time of each response only when includeTimestamps is on', () => {
+      const withTimes = new TestSaveConversationModal(app, plugin, conversation).generateBody();
+      expect(withTimes).toContain(`## Exchange 2\n\n*${new Date(at(9) * 1000).toLocaleString()}*\n\n### User Prompt`);
+
+      plugin.settings.includeTimestamps = false;
+      expect(new TestSaveConversationModal(app, plugin, conversation).generateBody()).not.toMatch(/^\*.*\*$/m);
+    });
+
+    test('should number only the chosen pairs', () => {
+      plugin.settings.includeTimestamps = false;
+      const [, second] = plugin.getQAPairs(conversation);
+      const body = new TestSaveConversationModal(app, plugin, conversation, [second]).generateBody();
+
+      expect(body).toContain('## Exchange 1\n\n### User Prompt\n\nHow do I take one?');
+      expect(body).not.toContain('## Exchange 2');
+    });
+  });
+
+  describe('frontmatter', () => {
+    test('should record when the conversation was created and last updated', () => {
+      const frontmatter = new TestSaveConversationModal(app, plugin, conversation).generateFrontmatter('Locks', 'db, postgres');
+
+      expect(frontmatter).toBe(
+        '---\ntitle: "Locks"\ntags: ["db", "postgres"]\ncreated: 2024-01-02\nupdated: 2024-01-09\n' +
+        'source: ChatGPT\nconversation: "Postgres locks"\n---\n\n'
+      );
+    });
+
+    test('should keep only the title and tags when includeTimestamps is off', () => {
+      plugin.settings.includeTimestamps = false;
+      const frontmatter = new TestSaveConversationModal(app, plugin, conversation).generateFrontmatter('Locks', '');
+
+      expect(frontmatter).toBe('---\ntitle: "Locks"\n---\n\n');
+    });
+  });
+
+  describe('templates', () => {
+    test('should put the whole transcript in {{content}} and leave prompt and response empty', () => {
+      plugin.settings.includeTimestamps = false;
+      const modal = new TestSaveConversationModal(app, plugin, conversation);
+      modal.templateContent = '# {{title}}\nModels: {{model}}\n{{#if prompt}}Prompt: {{prompt}}\n{{/if}}\n{{content}}';
+
+      const note = modal.generateNoteContent('Locks', '');
+
+      expect(note).toBe(`# Locks\nModels: gpt-4o, o1\n${modal.generateBody()}`);
+    });
+
+    test('should date the note by the conversation', () => {
+      const modal = new TestSaveConversationModal(app, plugin, conversation);
+      modal.templateContent = '{{conversation_id}} {{date}} {{updated:DD.MM.YYYY}}';
+
+      expect(modal.generateNoteContent('Locks', '')).toBe('c1 2024-01-02 09.01.2024');
+    });
+  });
+
+  describe('saveNote', () => {
+    test('should mark every included pair as saved and record it against the note', async () => {
+      const modal = new TestSaveConversationModal(app, plugin, conversation);
+
+      const path = await modal.saveNote('Locks', 'ChatGPT', 'db');
+
+      expect(path).toBe('ChatGPT/Locks.md');
+      expect(app.vault.create).toHaveBeenCalledWith('ChatGPT/Locks.md', expect.stringContaining(NOTE_UPDATE_MARKER));
+      expect(plugin.states).toEqual({ c1_u1_a1: QAPairState.SAVED, c1_u2_a2: QAPairState.SAVED });
+      expect(plugin.savedNotes[path]).toMatchObject({ kind: 'conversation', conversationId: 'c1', pairIds: ['c1_u1_a1', 'c1_u2_a2'], title: 'Locks', tags: 'db' });
+      expect(plugin.notePaths).toEqual({ c1_u1_a1: [path], c1_u2_a2: [path] });
+    });
+
+    test('should leave pairs that were not chosen untouched', async () => {
+      const [first] = plugin.getQAPairs(conversation);
+      await new TestSaveConversationModal(app, plugin, conversation, [first]).saveNote('Locks', '', '');
+
+      expect(plugin.getQAPairState('c1_u1_a1')).toBe(QAPairState.SAVED);
+      expect(plugin.getQAPairState('c1_u2_a2')).toBe(QAPairState.NEW);
+      expect(plugin.savedNotes['Locks.md'].pairIds).toEqual(['c1_u1_a1']);
+    });
+
+    test('should hash the generated part so later updates can detect edits', async () => {
+      const modal = new TestSaveConversationModal(app, plugin, conversation);
+      const path = await modal.saveNote('Locks', '', '');
+
+      expect(plugin.savedNotes[path].contentHash).toBe(hashContent(modal.generateNoteContent('Locks', '').trimEnd()));
+    });
+
+    test('should keep the note when the metadata cannot be written', async () => {
+      plugin.failMetadata = true;
+
+      await expect(new TestSaveConversationModal(app, plugin, conversation).saveNote('Locks', '', '')).resolves.toBe('Locks.md');
+      expect(app.vault.create).toHaveBeenCalledTimes(1);
+      expect(plugin.savedNotes).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, test, expect } from '@jest/globals';
+
+// Reproduce the full-text search logic from main.ts for testing
+interface ExtractedMessage {
+  role: string;
+  content: string;
+  timestamp: number;
+  id: string;
+}
+
+interface ExtractedConversation {
+  title: string;
+  id: string;
+  create_time: number;
+  update_time: number;
+  messages: ExtractedMessage[];
+}
+
+interface SearchHit {
+  conversationIndex: number;
+  messageId: string | null;
+  pairNumber: number;
+  field: 'title' | 'prompt' | 'response';
+  score: number;
+  snippet: string;
+}
+
+// Excerpt of text around the first occurrence of the phrase (or else the earliest term)
+function makeSearchSnippet(text: string, terms: string[], phrase: string): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  let position = lower.indexOf(phrase);
+  if (position === -1) {
+    const positions = terms.map(term => lower.indexOf(term)).filter(index => index !== -1);
+    position = positions.length > 0 ? Math.min(...positions) : 0;
+  }
+  const start = Math.max(0, position - 60);
+  const end = Math.min(flat.length, position + 140);
+  return (start > 0 ? '…' : '') + flat.slice(start, end) + (end < flat.length ? '…' : '');
+}
+
+// Lowercased text of a conversation's title and pairs, so searching does not lowercase every message on each keystroke
+interface ConversationSearchText {
+  title: string;
+  pairs: Array<{ message: ExtractedMessage; pairNumber: number; promptText: string; prompt: string; response: string }>;
+}
+
+// Keyed by the messages array like the filter stats, so a branch switch re-indexes the conversation
+const conversationSearchTextCache = new WeakMap<ExtractedMessage[], ConversationSearchText>();
+
+function getConversationSearchText(conv: ExtractedConversation): ConversationSearchText {
+  const cached = conversationSearchTextCache.get(conv.messages);
+  if (cached) return cached;
+  
+  const searchText: ConversationSearchText = { title: (conv.title || '').toLowerCase(), pairs: [] };
+  conv.messages.forEach((msg, index) => {
+    if (msg.role !== 'assistant') return;
+    const previous = index > 0 ? conv.messages[index - 1] : null;
+    const promptText = previous && previous.role === 'user' ? previous.content : '';
+    searchText.pairs.push({
+      message: msg,
+      pairNumber: searchText.pairs.length + 1,
+      promptText,
+      prompt: promptText.toLowerCase(),
+      response: msg.content.toLowerCase()
+    });
+  });
+  conversationSearchTextCache.set(conv.messages, searchText);
+  return searchText;
+}
+
+// Rank titles, prompts and responses of every conversation against the query.
+// A pair matches when its prompt and response together contain every term; the prompt weighs more than the response.
+function searchConversations(conversations: ExtractedConversation[], query: string, limit: number): SearchHit[] {
+  const phrase = query.toLowerCase().replace(/\s+/g, ' ').trim();
+  const terms = phrase.split(' ').filter((term, index, all) => term && all.indexOf(term) === index);
+  if (terms.length === 0) return [];
+
+  const countOccurrences = (text: string, term: string) => {
+    let count = 0;
+    let index = text.indexOf(term);
+    while (index !== -1 && count < 5) {
+      count++;
+      index = text.indexOf(term, index + term.length);
+    }
+    return count;
+  };
+
+  const hits: Array<SearchHit & { updated: number }> = [];
+  conversations.forEach((conv, conversationIndex) => {
+    const searchText = getConversationSearchText(conv);
+    const title = searchText.title;
+    if (terms.every(term => title.includes(term))) {
+      hits.push({
+        conversationIndex,
+        messageId: null,
+        pairNumber: 0,
+        field: 'title',
+        score: 20 + (terms.length > 1 && title.includes(phrase) ? 10 : 0),
+        snippet: conv.title,
+        updated: conv.update_time
+      });
+    }
+
+    searchText.pairs.forEach(({ message: msg, pairNumber, promptText, prompt, response }) => {
+      if (!terms.every(term => prompt.includes(term) || response.includes(term))) return;
+
+      let score = 0;
+      terms.forEach(term => {
+        score += countOccurrences(prompt, term) * 3 + countOccurrences(response, term);
+        if (title.includes(term)) score += 2;
+      });
+      const phraseInPrompt = terms.length > 1 && prompt.includes(phrase);
+      const phraseInResponse = terms.length > 1 && response.includes(phrase);
+      if (phraseInPrompt || phraseInResponse) score += 10;
+
+      const inPrompt = phraseInPrompt || (!phraseInResponse && terms.every(term => prompt.includes(term)));
+      hits.push({
+        conversationIndex,
+        messageId: msg.id,
+        pairNumber,
+        field: inPrompt ? 'prompt' : 'response',
+        score,
+        snippet: makeSearchSnippet(inPrompt ? promptText : msg.content, terms, phrase),
+        updated: conv.update_time
+      });
+    });
+  });
+
+  hits.sort((a, b) => b.score - a.score || b.updated - a.updated);
+  return hits.slice(0, limit).map(({ updated, ...hit }) => hit);
+}
+
+
+const conversation = (id: string, title: string, updated: number, turns: Array<[string, string]>): ExtractedConversation => ({
+  title,
+  id,
+  create_time: updated - 100,
+  update_time: updated,
+  messages: turns.flatMap(([prompt, response], index) => [
+    { role: 'user', content: prompt, timestamp: updated, id: `${id}-u${index}` },
+    { role: 'assistant', content: response, timestamp: updated, id: `${id}-a${index}` }
+  ])
+});
+
+describe('searchConversations', () => {
+  const conversations = [
+    conversation('c1', 'Database questions', 1000, [
+      ['How do I tune autovacuum?', 'Adjust autovacuum_vacuum_scale_factor per table.'],
+      ['What are Postgres advisory locks?', 'Advisory locks are application-defined locks. Use pg_advisory_lock to take one.']
+    ]),
+    conversation('c2', 'Postgres advisory locks', 2000, [
+      ['Can you summarize?', 'Session-level locks are released on disconnect.']
+    ]),
+    conversation('c3', 'Cooking', 3000, [
+      ['Pasta recipe', 'Boil water. Locks and keys are unrelated to Postgres here, but advisory notes apply.']
+    ])
+  ];
+
+  test('should return nothing for an empty query', () => {
+    expect(searchConversations(conversations, '   ', 10)).toEqual([]);
+  });
+
+  test('should find pairs whose prompt and response contain every term', () => {
+    const hits = searchConversations(conversations, 'advisory locks', 10);
+    const pairHits = hits.filter(hit => hit.messageId !== null);
+    expect(pairHits.map(hit => hit.messageId)).toEqual(['c1-a1', 'c3-a0']);
+    expect(pairHits[0]).toMatchObject({ conversationIndex: 0, pairNumber: 2, field: 'prompt' });
+  });
+
+  test('should rank title matches and phrase matches above scattered terms', () => {
+    const hits = searchConversations(conversations, 'Postgres advisory locks', 10);
+    expect(hits[0]).toMatchObject({ conversationIndex: 1, field: 'title', messageId: null, snippet: 'Postgres advisory locks' });
+    expect(hits[1].messageId).toBe('c1-a1');
+    expect(hits[hits.length - 1].messageId).toBe('c3-a0');
+  });
+
+  test('should match case-insensitively and respect the limit', () => {
+    expect(searchConversations(conversations, 'AUTOVACUUM', 10)).toHaveLength(1);
+    expect(searchConversations(conversations, 'locks', 2)).toHaveLength(2);
+  });
+
+  test('should pick the response as the snippet field when only it matches', () => {
+    const [hit] = searchConversations(conversations, 'pg_advisory_lock', 10);
+    expect(hit.field).toBe('response');
+    expect(hit.snippet).toContain('pg_advisory_lock');
+  });
+
+  test('should lowercase a conversation once and re-index it after a branch switch', () => {
+    const conv = conversation('c4', 'Branches', 4000, [['First prompt', 'Original answer']]);
+    searchConversations([conv], 'original', 10);
+    const indexed = conversationSearchTextCache.get(conv.messages);
+    expect(indexed!.pairs[0].response).toBe('original answer');
+
+    searchConversations([conv], 'answer', 10);
+    expect(conversationSearchTextCache.get(conv.messages)).toBe(indexed);
+
+    // Switching branch replaces the messages array
+    conv.messages = [conv.messages[0], { role: 'assistant', content: 'Regenerated Answer', timestamp: 4000, id: 'c4-a0b' }];
+    expect(searchConversations([conv], 'regenerated', 10).map(hit => hit.messageId)).toEqual(['c4-a0b']);
+    expect(searchConversations([conv], 'original', 10)).toEqual([]);
+  });
+});
+
+describe('makeSearchSnippet', () => {
+  test('should center the excerpt on the match and mark truncation', () => {
+    const text = 'a'.repeat(200) + ' needle ' + 'b'.repeat(300);
+    const snippet = makeSearchSnippet(text, ['needle'], 'needle');
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('needle');
+    expect(snippet.length).toBeLessThan(210);
+  });
+
+  test('should collapse whitespace and keep short text whole', () => {
+    expect(makeSearchSnippet('Line one\n\n  line   two', ['two'], 'two')).toBe('Line one line two');
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, test, expect } from '@jest/globals';
+
+// Reproduce the ConversationStreamParser logic from main.ts for testing
+class TestConversationStreamParser {
+  private buffer = ''; // Text of the element that is still incomplete at the end of the last chunk
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private started = false; // Seen the opening '['
+  private finished = false; // Seen the closing ']'
+  private inElement = false;
+
+  write(chunk: string): any[] {
+    const conversations: any[] = [];
+    let elementStart = this.inElement ? 0 : -1;
+
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk.charCodeAt(i);
+
+      if (this.inElement && this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (ch === 92) { // backslash
+          this.escaped = true;
+        } else if (ch === 34) { // quote
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (!this.inElement) {
+        if (ch === 32 || ch === 9 || ch === 10 || ch === 13 || ch === 0xfeff) continue;
+        if (this.finished) {
+          throw new Error('Invalid ChatGPT export format: unexpected data after the conversation list');
+        }
+        if (!this.started) {
+          if (ch !== 91) { // [
+            throw new Error('Invalid ChatGPT export format: expected a list of conversations');
+          }
+          this.started = true;
+          continue;
+        }
+        if (ch === 44) continue; // comma between elements
+        if (ch === 93) { // ]
+          this.finished = true;
+          continue;
+        }
+        if (ch !== 123) { // {
+          throw new Error('Invalid ChatGPT export format: expected a conversation object');
+        }
+        this.inElement = true;
+        this.depth = 0;
+        elementStart = i;
+      }
+
+      if (ch === 34) {
+        this.inString = true;
+      } else if (ch === 123 || ch === 91) {
+        this.depth++;
+      } else if (ch === 125 || ch === 93) {
+        this.depth--;
+        if (this.depth === 0) {
+          const text = this.buffer + chunk.substring(elementStart, i + 1);
+          this.buffer = '';
+          this.inElement = false;
+          conversations.push(JSON.parse(text));
+        }
+      }
+    }
+
+    if (this.inElement) {
+      this.buffer += chunk.substring(elementStart);
+    }
+    return conversations;
+  }
+
+  // Verify that the whole array was consumed
+  end(): void {
+    if (!this.started || !this.finished || this.inElement) {
+      throw new Error('Invalid ChatGPT export format: file ended unexpectedly');
+    }
+  }
+}
+
+// Feed text to the parser in fixed-size chunks, collecting every parsed conversation
+function parseInChunks(text: string, chunkSize: number): any[] {
+  const parser = new TestConversationStreamParser();
+  const results: any[] = [];
+  for (let i = 0; i < text.length; i += chunkSize) {
+    results.push(...parser.write(text.substring(i, i + chunkSize)));
+  }
+  parser.end();
+  return results;
+}
+
+const sampleConversations = [
+  { title: 'First', id: 'c1', mapping: { a: { id: 'a', children: [] as string[] } } },
+  { title: 'Braces { and } in "quotes" and [brackets]', id: 'c2', mapping: {} },
+  { title: 'Escapes \\ \" \n and unicode – ✓', id: 'c3', mapping: { nested: { deep: [1, [2, [3]]] } } }
+];
+
+describe('ConversationStreamParser', () => {
+  test('should parse a whole export in one chunk', () => {
+    const text = JSON.stringify(sampleConversations);
+    expect(parseInChunks(text, text.length)).toEqual(sampleConversations);
+  });
+
+  test.each([1, 2, 7, 64])('should parse identically with %i-character chunks', (chunkSize) => {
+    const text = JSON.stringify(sampleConversations, null, 2);
+    expect(parseInChunks(text, chunkSize)).toEqual(sampleConversations);
+  });
+
+  test('should yield conversations as soon as each one is complete', () => {
+    const parser = new TestConversationStreamParser();
+    const first = JSON.stringify(sampleConversations[0]);
+
+    expect(parser.write('[' + first.substring(0, 10))).toHaveLength(0);
+    const batch = parser.write(first.substring(10) + ', {"title": "Sec');
+    expect(batch).toHaveLength(1);
+    expect(batch[0].id).toBe('c1');
+  });
+
+  test('should handle an empty export', () => {
+    expect(parseInChunks(' [ ] \n', 2)).toEqual([]);
+  });
+
+  test('should reject content that is not a list of conversations', () => {
+    expect(() => parseInChunks('{"title": "x"}', 4)).toThrow('expected a list of conversations');
+    expect(() => parseInChunks('[1, 2]', 4)).toThrow('expected a conversation object');
+  });
+
+  test('should reject a truncated export', () => {
+    const text = JSON.stringify(sampleConversations);
+    expect(() => parseInChunks(text.substring(0, text.length - 20), 16)).toThrow('file ended unexpectedly');
+  });
+
+  test('should surface malformed conversation objects as syntax errors', () => {
+    expect(() => parseInChunks('[{"title": "x",}]', 4)).toThrow(SyntaxError);
+  });
+});
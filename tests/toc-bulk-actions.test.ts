@@ -0,0 +1,234 @@
+import { jest, describe, test, expect, beforeEach } from '@jest/globals';
+import { MockApp } from './mocks/obsidian';
+
+// Reproduce the table of contents bulk actions from main.ts for testing
+enum QAPairState {
+  NEW = 'new',
+  IGNORED = 'ignored',
+  SAVED = 'saved'
+}
+
+interface TestPair {
+  pairId: string;
+  content: string;
+}
+
+interface TestConversation {
+  id: string;
+  title: string;
+  pairs: TestPair[];
+}
+
+// Vault path for a conversations export: "chatgpt-conversations-<date>.json", numbered when taken
+function getExportFilePath(folder: string, date: Date, exists: (path: string) => boolean): string {
+  const base = `${folder ? folder + '/' : ''}chatgpt-conversations-${date.toISOString().split('T')[0]}`;
+  let path = `${base}.json`;
+  for (let counter = 1; exists(path); counter++) {
+    path = `${base} (${counter}).json`;
+  }
+  return path;
+}
+
+class TestTocBulkActions {
+  app: MockApp;
+  settings = { defaultFolder: 'ChatGPT' };
+  states: { [pairId: string]: QAPairState } = {};
+  notices: string[] = [];
+  // Pair ids of each conversation note written, by conversation id
+  savedNotes: { [conversationId: string]: string[] } = {};
+  failingConversationIds = new Set<string>();
+  selectedConversationIds = new Set<string>();
+  displayCount = 0;
+
+  constructor(app: MockApp) {
+    this.app = app;
+  }
+
+  getQAPairState(pairId: string): QAPairState {
+    return this.states[pairId] || QAPairState.NEW;
+  }
+
+  async updateQAPairStates(pairs: TestPair[], state: QAPairState): Promise<void> {
+    pairs.forEach(pair => this.states[pair.pairId] = state);
+  }
+
+  // Stands in for SaveConversationModal.saveNote with a chosen subset of pairs
+  async saveConversationNote(conv: TestConversation, pairs: TestPair[]): Promise<void> {
+    if (this.failingConversationIds.has(conv.id)) throw new Error('disk full');
+    this.savedNotes[conv.id] = pairs.map(pair => pair.pairId);
+    await this.updateQAPairStates(pairs, QAPairState.SAVED);
+  }
+
+  async bulkSaveConversations(conversations: TestConversation[]): Promise<void> {
+    let saved = 0;
+    let skipped = 0;
+    let pairCount = 0;
+    const failed: string[] = [];
+
+    for (const conv of conversations) {
+      const pairs = conv.pairs.filter(pair => this.getQAPairState(pair.pairId) !== QAPairState.SAVED);
+      if (pairs.length === 0) {
+        skipped++;
+        continue;
+      }
+      try {
+        await this.saveConversationNote(conv, pairs);
+        saved++;
+        pairCount += pairs.length;
+      } catch (error) {
+        failed.push(conv.title);
+      }
+    }
+
+    let summary = `Saved ${saved} conversation note${saved === 1 ? '' : 's'} (${pairCount} Q&A pairs) to ${this.settings.defaultFolder || 'the vault root'}`;
+    if (skipped > 0) {
+      summary += `\nSkipped ${skipped} conversation${skipped === 1 ? '' : 's'} already saved`;
+    }
+    if (failed.length > 0) {
+      summary += `\nFailed: ${failed.join(', ')}`;
+    }
+    this.notices.push(summary);
+  }
+
+  async bulkSetConversationState(conversations: TestConversation[], state: QAPairState): Promise<void> {
+    let pairCount = 0;
+    for (const conv of conversations) {
+      await this.updateQAPairStates(conv.pairs, state);
+      pairCount += conv.pairs.length;
+    }
+    const verb = state === QAPairState.IGNORED ? 'marked as ignored' : 'reset to new status';
+    this.notices.push(`${pairCount} Q&A pairs in ${conversations.length} conversation${conversations.length === 1 ? '' : 's'} ${verb}.`);
+  }
+
+  async exportConversations(conversations: TestConversation[], date: Date): Promise<void> {
+    const folder = this.settings.defaultFolder.trim().replace(/\/+$/, '');
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+    const path = getExportFilePath(folder, date, candidate => !!this.app.vault.getAbstractFileByPath(candidate));
+    await this.app.vault.create(path, JSON.stringify(conversations, null, 2));
+    this.notices.push(`Exported ${conversations.length} conversation${conversations.length === 1 ? '' : 's'} to ${path}`);
+  }
+
+  async runBulkAction(conversations: TestConversation[], action: (conversations: TestConversation[]) => Promise<void>) {
+    try {
+      await action(conversations);
+      this.selectedConversationIds.clear();
+    } catch (error) {
+      this.notices.push("Bulk action failed: " + error.message);
+    } finally {
+      this.displayCount++;
+    }
+  }
+}
+
+const conversation = (id: string, pairCount: number): TestConversation => ({
+  id,
+  title: `Conversation ${id}`,
+  pairs: Array.from({ length: pairCount }, (_, i) => ({ pairId: `${id}_p${i + 1}`, content: `Answer ${i + 1}` }))
+});
+
+describe('Table of contents bulk actions', () => {
+  let app: MockApp;
+  let actions: TestTocBulkActions;
+
+  beforeEach(() => {
+    app = new MockApp();
+    actions = new TestTocBulkActions(app);
+  });
+
+  describe('bulkSaveConversations', () => {
+    test('should save only the pairs that are not saved yet', async () => {
+      const conv = conversation('c1', 3);
+      actions.states['c1_p2'] = QAPairState.SAVED;
+      actions.states['c1_p3'] = QAPairState.IGNORED;
+
+      await actions.bulkSaveConversations([conv]);
+
+      expect(actions.savedNotes.c1).toEqual(['c1_p1', 'c1_p3']);
+      expect(actions.notices).toEqual(['Saved 1 conversation note (2 Q&A pairs) to ChatGPT']);
+    });
+
+    test('should skip conversations that are already saved', async () => {
+      const done = conversation('c1', 2);
+      done.pairs.forEach(pair => actions.states[pair.pairId] = QAPairState.SAVED);
+
+      await actions.bulkSaveConversations([done, conversation('c2', 1)]);
+
+      expect(Object.keys(actions.savedNotes)).toEqual(['c2']);
+      expect(actions.notices[0]).toBe('Saved 1 conversation note (1 Q&A pairs) to ChatGPT\nSkipped 1 conversation already saved');
+    });
+
+    test('should report failed conversations and keep saving the rest', async () => {
+      actions.failingConversationIds.add('c1');
+
+      await actions.bulkSaveConversations([conversation('c1', 1), conversation('c2', 2)]);
+
+      expect(Object.keys(actions.savedNotes)).toEqual(['c2']);
+      expect(actions.getQAPairState('c1_p1')).toBe(QAPairState.NEW);
+      expect(actions.notices[0]).toContain('Failed: Conversation c1');
+    });
+  });
+
+  describe('bulkSetConversationState', () => {
+    test('should set every pair of every selected conversation', async () => {
+      await actions.bulkSetConversationState([conversation('c1', 2), conversation('c2', 1)], QAPairState.IGNORED);
+
+      expect(actions.states).toEqual({ c1_p1: 'ignored', c1_p2: 'ignored', c2_p1: 'ignored' });
+      expect(actions.notices).toEqual(['3 Q&A pairs in 2 conversations marked as ignored.']);
+    });
+
+    test('should reset pairs to new', async () => {
+      actions.states['c1_p1'] = QAPairState.SAVED;
+      await actions.bulkSetConversationState([conversation('c1', 1)], QAPairState.NEW);
+      expect(actions.getQAPairState('c1_p1')).toBe(QAPairState.NEW);
+    });
+  });
+
+  describe('exportConversations', () => {
+    const date = new Date('2024-05-01T12:00:00Z');
+
+    test('should write the export into the default folder of the vault', async () => {
+      await actions.exportConversations([conversation('c1', 1)], date);
+
+      expect(app.vault.createFolder).toHaveBeenCalledWith('ChatGPT');
+      expect(app.vault.create).toHaveBeenCalledWith('ChatGPT/chatgpt-conversations-2024-05-01.json', expect.any(String));
+      const written = JSON.parse(app.vault.create.mock.calls[0][1] as string);
+      expect(written[0].id).toBe('c1');
+    });
+
+    test('should number the file instead of overwriting an earlier export', async () => {
+      await actions.exportConversations([conversation('c1', 1)], date);
+      await actions.exportConversations([conversation('c2', 1)], date);
+
+      expect(app.vault.create.mock.calls.map(call => call[0])).toEqual([
+        'ChatGPT/chatgpt-conversations-2024-05-01.json',
+        'ChatGPT/chatgpt-conversations-2024-05-01 (1).json'
+      ]);
+    });
+
+    test('should write to the vault root without a default folder', () => {
+      expect(getExportFilePath('', date, () => false)).toBe('chatgpt-conversations-2024-05-01.json');
+    });
+  });
+
+  describe('runBulkAction', () => {
+    test('should show a notice and redraw when an action fails', async () => {
+      actions.selectedConversationIds.add('c1');
+      const failing = jest.fn(async () => { throw new Error('metadata locked'); });
+
+      await expect(actions.runBulkAction([conversation('c1', 1)], failing)).resolves.toBeUndefined();
+
+      expect(actions.notices).toEqual(['Bulk action failed: metadata locked']);
+      expect(actions.displayCount).toBe(1);
+      // The selection stays so the action can be retried
+      expect(actions.selectedConversationIds.has('c1')).toBe(true);
+    });
+
+    test('should clear the selection after a successful action', async () => {
+      actions.selectedConversationIds.add('c1');
+      await actions.runBulkAction([conversation('c1', 1)], conversations => actions.bulkSetConversationState(conversations, QAPairState.IGNORED));
+      expect(actions.selectedConversationIds.size).toBe(0);
+    });
+  });
+});
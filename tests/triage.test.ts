@@ -0,0 +1,605 @@
+import { describe, test, expect, beforeEach } from '@jest/globals';
+
+// Reproduce the triage cursor logic from main.ts for testing
+function stepTriageCursor(ids: string[], currentId: string | null, step: number): string | null {
+  if (ids.length === 0) return null;
+  const index = currentId ? ids.indexOf(currentId) : -1;
+  if (index === -1) return ids[0];
+  return ids[Math.min(Math.max(index + step, 0), ids.length - 1)];
+}
+
+interface TriageKeys {
+  save: string;
+  ignore: string;
+  undo: string;
+  nextPair: string;
+  previousPair: string;
+  nextConversation: string;
+  previousConversation: string;
+}
+
+const TRIAGE_KEY_LABELS: Array<[keyof TriageKeys, string]> = [
+  ['save', 'save'],
+  ['ignore', 'ignore'],
+  ['undo', 'undo'],
+  ['nextPair', 'next pair'],
+  ['previousPair', 'previous pair'],
+  ['nextConversation', 'next conversation'],
+  ['previousConversation', 'previous conversation']
+];
+
+function findTriageKeyAction(keys: TriageKeys, key: string): keyof TriageKeys | null {
+  const pressed = key.toLowerCase();
+  const match = TRIAGE_KEY_LABELS.find(([name]) => keys[name] !== '' && keys[name] === pressed);
+  return match ? match[0] : null;
+}
+
+function stepTriageConversation(order: number[], currentIndex: number, step: number, hasNewPairs: (index: number) => boolean): number | null {
+  const position = order.indexOf(currentIndex);
+  const start = position !== -1 ? position : (step > 0 ? -1 : order.length);
+  for (let i = start + step; i >= 0 && i < order.length; i += step) {
+    if (hasNewPairs(order[i])) return order[i];
+  }
+  return null;
+}
+
+enum QAPairState {
+  NEW = 'new',
+  IGNORED = 'ignored',
+  SAVED = 'saved'
+}
+
+interface TestMessage {
+  id: string;
+  role: string;
+}
+
+interface TestConversation {
+  id: string;
+  messages: TestMessage[];
+}
+
+interface TestPair {
+  pairId: string;
+  userMessage: TestMessage | null;
+  assistantMessage: TestMessage;
+}
+
+interface TestAction {
+  label: string;
+  source: string;
+  changes: Array<{ pairId: string; conversationId: string; before: QAPairState; after: QAPairState }>;
+  notes: string[];
+  undone: boolean;
+}
+
+// The plugin side of triage: pair states, notes written by quick save and the undo history
+class TestTriagePlugin {
+  states: { [pairId: string]: QAPairState } = {};
+  notes: string[] = [];
+  actionLog: TestAction[] = [];
+  failingPairIds = new Set<string>();
+  private pendingAction: TestAction | null = null;
+
+  getQAPairs(conv: TestConversation): TestPair[] {
+    const pairs: TestPair[] = [];
+    conv.messages.forEach((msg, index) => {
+      if (msg.role !== 'assistant') return;
+      const userMessage = index > 0 ? conv.messages[index - 1] : null;
+      pairs.push({ pairId: `${conv.id}_${userMessage ? userMessage.id : 'no-user-msg'}_${msg.id}`, userMessage, assistantMessage: msg });
+    });
+    return pairs;
+  }
+
+  getQAPairState(pairId: string): QAPairState {
+    return this.states[pairId] || QAPairState.NEW;
+  }
+
+  async recordPairAction<T>(label: string, source: string, work: () => Promise<T>): Promise<{ result: T; action: TestAction | null }> {
+    if (this.pendingAction) return { result: await work(), action: null };
+    const action: TestAction = { label, source, changes: [], notes: [], undone: false };
+    this.pendingAction = action;
+    let logged = false;
+    let result: T;
+    try {
+      result = await work();
+    } finally {
+      this.pendingAction = null;
+      if (action.changes.length > 0 || action.notes.length > 0) {
+        this.actionLog = this.actionLog.filter(entry => !entry.undone).concat([action]);
+        logged = true;
+      }
+    }
+    return { result, action: logged ? action : null };
+  }
+
+  findUndoAction(): TestAction | null {
+    return this.actionLog.filter(entry => !entry.undone).pop() || null;
+  }
+
+  // handleNoteRenamed: actions follow their notes
+  renameNote(oldPath: string, newPath: string) {
+    this.notes = this.notes.map(path => path === oldPath ? newPath : path);
+    this.actionLog.forEach(action => action.notes = action.notes.map(path => path === oldPath ? newPath : path));
+  }
+
+  private setState(pairId: string, conversationId: string, state: QAPairState) {
+    this.pendingAction!.changes.push({ pairId, conversationId, before: this.getQAPairState(pairId), after: state });
+    this.states[pairId] = state;
+  }
+
+  async updateQAPairStates(pairs: TestPair[], state: QAPairState, conversationId: string, source: string): Promise<void> {
+    await this.recordPairAction(`Ignore ${pairs.length} pairs`, source, async () => {
+      pairs.forEach(pair => this.setState(pair.pairId, conversationId, state));
+    });
+  }
+
+  // Like SaveNoteModal.saveNote, the note and state change are recorded as an action of their own when not nested
+  async savePairWithDefaults(conv: TestConversation, pair: TestPair): Promise<string> {
+    if (this.failingPairIds.has(pair.pairId)) throw new Error('Folder is read-only');
+    const path = `ChatGPT/${pair.assistantMessage.id}.md`;
+    this.notes.push(path);
+    await this.recordPairAction(`Save note "${path}"`, 'Save dialog', async () => {
+      this.pendingAction!.notes.push(path);
+      this.setState(pair.pairId, conv.id, QAPairState.SAVED);
+    });
+    return path;
+  }
+
+  async undoPairAction(): Promise<TestAction | null> {
+    const action = this.actionLog.filter(entry => !entry.undone).pop();
+    if (!action) return null;
+    this.notes = this.notes.filter(path => action.notes.indexOf(path) === -1);
+    action.changes.forEach(change => this.states[change.pairId] = change.before);
+    action.undone = true;
+    return action;
+  }
+}
+
+// The triage part of ConversationBrowser
+class TestTriageBrowser {
+  plugin: TestTriagePlugin;
+  conversations: TestConversation[];
+  currentConversationIndex = 0;
+  viewMode: 'toc' | 'conversation' = 'conversation';
+  triageMode = true;
+  triageMessageId: string | null = null;
+  private triageBusy = false;
+  showNewPairs = true;
+  showIgnoredPairs = false;
+  showSavedPairs = false;
+  notices: string[] = [];
+
+  constructor(plugin: TestTriagePlugin, conversations: TestConversation[]) {
+    this.plugin = plugin;
+    this.conversations = conversations;
+  }
+
+  private isVisible(pair: TestPair): boolean {
+    switch (this.plugin.getQAPairState(pair.pairId)) {
+      case QAPairState.IGNORED:
+        return this.showIgnoredPairs;
+      case QAPairState.SAVED:
+        return this.showSavedPairs;
+      default:
+        return this.showNewPairs;
+    }
+  }
+
+  private getTriagePairs(): { conv: TestConversation; pairs: TestPair[] } | null {
+    const conv = this.conversations[this.currentConversationIndex];
+    if (!this.triageMode || this.viewMode !== 'conversation' || !conv) return null;
+    const pairs = this.plugin.getQAPairs(conv).filter(pair =>
+      this.isVisible(pair) || pair.assistantMessage.id === this.triageMessageId);
+    return { conv, pairs };
+  }
+
+  private async runTriageAction(action: (conv: TestConversation, pair: TestPair) => Promise<void>) {
+    const triage = this.getTriagePairs();
+    if (!triage || this.triageBusy) return;
+    const ids = triage.pairs.map(pair => pair.assistantMessage.id);
+    const currentId = stepTriageCursor(ids, this.triageMessageId, 0);
+    const pair = triage.pairs.find(candidate => candidate.assistantMessage.id === currentId);
+    if (!pair) return;
+
+    this.triageBusy = true;
+    try {
+      await action(triage.conv, pair);
+      this.triageMessageId = stepTriageCursor(ids, currentId, 1);
+    } catch (error) {
+      this.notices.push("Triage action failed: " + error.message);
+    } finally {
+      this.triageBusy = false;
+    }
+  }
+
+  async triageSave() {
+    await this.runTriageAction(async (conv, pair) => {
+      if (this.plugin.getQAPairState(pair.pairId) === QAPairState.SAVED) return;
+      await this.quickSavePair(conv, pair, 'Triage');
+    });
+  }
+
+  getQuickSaveTarget(): { conv: TestConversation; pair: TestPair } | null {
+    const conv = this.conversations[this.currentConversationIndex];
+    if (this.viewMode !== 'conversation' || !conv) return null;
+    const pair = this.plugin.getQAPairs(conv).find(candidate => this.triageMode ?
+      candidate.assistantMessage.id === this.triageMessageId :
+      this.isVisible(candidate) && this.plugin.getQAPairState(candidate.pairId) === QAPairState.NEW);
+    return pair && this.plugin.getQAPairState(pair.pairId) !== QAPairState.SAVED ? { conv, pair } : null;
+  }
+
+  // quickSavePair; the notice's Open and Undo buttons are returned instead of shown
+  async quickSavePair(conv: TestConversation, pair: TestPair, source: string) {
+    const { result: notePath, action } = await this.plugin.recordPairAction('Quick save pair as note', source, () => this.plugin.savePairWithDefaults(conv, pair));
+    return {
+      notePath,
+      action,
+      openPath: () => action && action.notes.length > 0 ? action.notes[0] : notePath,
+      undo: async () => {
+        if (!action || this.plugin.findUndoAction() !== action) {
+          this.notices.push("Other changes were made after this save; undo them first (🕘 History shows the order)");
+          return;
+        }
+        await this.stepPairHistory();
+      }
+    };
+  }
+
+  // The conversation view's "Save each" for the selected pairs
+  async bulkSaveEach(conv: TestConversation, selectedPairs: TestPair[]): Promise<void> {
+    const pairs = selectedPairs.filter(pair => this.plugin.getQAPairState(pair.pairId) !== QAPairState.SAVED);
+    const skipped = selectedPairs.length - pairs.length;
+    let saved = 0;
+    let failed = 0;
+
+    if (pairs.length > 0) {
+      await this.plugin.recordPairAction(`Save ${pairs.length} pairs as notes`, 'Bulk actions', async () => {
+        for (const pair of pairs) {
+          try {
+            await this.plugin.savePairWithDefaults(conv, pair);
+            saved++;
+          } catch (error) {
+            failed++;
+          }
+        }
+      });
+    }
+
+    let summary = failed > 0 ? `Saved ${saved} of ${pairs.length} notes (${failed} failed)` : `Saved ${saved} notes`;
+    if (skipped > 0) {
+      summary += `\nSkipped ${skipped} pair${skipped === 1 ? '' : 's'} already saved`;
+    }
+    this.notices.push(summary);
+  }
+
+  async triageIgnore() {
+    await this.runTriageAction(async (conv, pair) => {
+      if (this.plugin.getQAPairState(pair.pairId) === QAPairState.IGNORED) return;
+      await this.plugin.updateQAPairStates([pair], QAPairState.IGNORED, conv.id, 'Triage');
+    });
+  }
+
+  async stepPairHistory() {
+    if (this.triageBusy) return;
+    const action = await this.plugin.undoPairAction();
+    const change = action ? action.changes[0] : null;
+    const index = change ? this.conversations.findIndex(conv => conv.id === change.conversationId) : -1;
+    if (change && index >= 0) {
+      const pair = this.plugin.getQAPairs(this.conversations[index]).find(candidate => candidate.pairId === change.pairId);
+      if (pair) {
+        this.currentConversationIndex = index;
+        this.viewMode = 'conversation';
+        this.triageMessageId = pair.assistantMessage.id;
+      }
+    }
+  }
+}
+
+describe('stepTriageCursor', () => {
+  const ids = ['a', 'b', 'c'];
+
+  test('should move forward and back through the pairs', () => {
+    expect(stepTriageCursor(ids, 'a', 1)).toBe('b');
+    expect(stepTriageCursor(ids, 'c', -1)).toBe('b');
+    expect(stepTriageCursor(ids, 'b', 0)).toBe('b');
+  });
+
+  test('should stay on the first and last pair instead of wrapping', () => {
+    expect(stepTriageCursor(ids, 'a', -1)).toBe('a');
+    expect(stepTriageCursor(ids, 'c', 1)).toBe('c');
+  });
+
+  test('should fall back to the first pair when the focused one was filtered out', () => {
+    // A pair saved while saved pairs are hidden disappears from the list
+    expect(stepTriageCursor(['a', 'c'], 'b', 0)).toBe('a');
+    expect(stepTriageCursor(ids, null, 1)).toBe('a');
+  });
+
+  test('should have no focus when no pairs are left', () => {
+    expect(stepTriageCursor([], 'a', 1)).toBeNull();
+  });
+});
+
+describe('findTriageKeyAction', () => {
+  const defaults: TriageKeys = { save: 's', ignore: 'i', undo: 'u', nextPair: 'j', previousPair: 'k', nextConversation: 'n', previousConversation: 'p' };
+
+  test('should map the default keys regardless of case', () => {
+    expect(findTriageKeyAction(defaults, 's')).toBe('save');
+    expect(findTriageKeyAction(defaults, 'J')).toBe('nextPair');
+    expect(findTriageKeyAction(defaults, 'x')).toBeNull();
+  });
+
+  test('should use rebound keys and leave the old ones alone', () => {
+    const keys = { ...defaults, save: 'a' };
+    expect(findTriageKeyAction(keys, 'a')).toBe('save');
+    expect(findTriageKeyAction(keys, 's')).toBeNull();
+  });
+
+  test('should ignore keys that are turned off', () => {
+    const keys = { ...defaults, undo: '' };
+    expect(findTriageKeyAction(keys, 'u')).toBeNull();
+    expect(findTriageKeyAction(keys, '')).toBeNull();
+  });
+});
+
+describe('stepTriageConversation', () => {
+  // Conversations 0-5 listed sorted and filtered by the table of contents; 1 and 4 are hidden
+  const order = [5, 2, 0, 3];
+  const withNewPairs = new Set([5, 2, 3, 1]);
+  const hasNewPairs = (index: number) => withNewPairs.has(index);
+
+  test('should follow the listed order instead of the export order', () => {
+    expect(stepTriageConversation(order, 5, 1, hasNewPairs)).toBe(2);
+    expect(stepTriageConversation(order, 2, -1, hasNewPairs)).toBe(5);
+  });
+
+  test('should skip conversations without new pairs', () => {
+    expect(stepTriageConversation(order, 2, 1, hasNewPairs)).toBe(3);
+    expect(stepTriageConversation(order, 3, -1, hasNewPairs)).toBe(2);
+  });
+
+  test('should stop at either end of the list', () => {
+    expect(stepTriageConversation(order, 3, 1, hasNewPairs)).toBeNull();
+    expect(stepTriageConversation(order, 5, -1, hasNewPairs)).toBeNull();
+    expect(stepTriageConversation([], 0, 1, hasNewPairs)).toBeNull();
+  });
+
+  test('should never land on a hidden conversation and start from the edge when the current one is hidden', () => {
+    expect(stepTriageConversation(order, 4, 1, hasNewPairs)).toBe(5);
+    expect(stepTriageConversation(order, 4, -1, hasNewPairs)).toBe(3);
+    expect(stepTriageConversation(order, 0, 1, index => index === 1)).toBeNull();
+  });
+});
+
+describe('Triage actions', () => {
+  let plugin: TestTriagePlugin;
+  let browser: TestTriageBrowser;
+  const conversation: TestConversation = {
+    id: 'c1',
+    messages: ['1', '2', '3'].reduce((messages, n) => messages.concat([{ id: `u${n}`, role: 'user' }, { id: `a${n}`, role: 'assistant' }]), [] as TestMessage[])
+  };
+
+  beforeEach(() => {
+    plugin = new TestTriagePlugin();
+    browser = new TestTriageBrowser(plugin, [conversation]);
+  });
+
+  test('should save the pair in focus as a note and move on to the next pair', async () => {
+    await browser.triageSave();
+
+    expect(plugin.getQAPairState('c1_u1_a1')).toBe(QAPairState.SAVED);
+    expect(plugin.notes).toEqual(['ChatGPT/a1.md']);
+    expect(plugin.actionLog.map(action => [action.label, action.source])).toEqual([['Quick save pair as note', 'Triage']]);
+    expect(browser.triageMessageId).toBe('a2');
+
+    await browser.triageSave();
+    expect(plugin.notes).toEqual(['ChatGPT/a1.md', 'ChatGPT/a2.md']);
+    expect(browser.triageMessageId).toBe('a3');
+  });
+
+  test('should skip a pair that is already saved and move on without writing another note', async () => {
+    browser.showSavedPairs = true;
+    plugin.states['c1_u1_a1'] = QAPairState.SAVED;
+
+    await browser.triageSave();
+
+    expect(plugin.notes).toEqual([]);
+    expect(plugin.actionLog).toEqual([]);
+    expect(browser.triageMessageId).toBe('a2');
+  });
+
+  test('should ignore the pair in focus and move on', async () => {
+    browser.triageMessageId = 'a2';
+    await browser.triageIgnore();
+
+    expect(plugin.getQAPairState('c1_u2_a2')).toBe(QAPairState.IGNORED);
+    expect(plugin.getQAPairState('c1_u1_a1')).toBe(QAPairState.NEW);
+    expect(browser.triageMessageId).toBe('a3');
+  });
+
+  test('should not log anything for a pair that is already ignored', async () => {
+    browser.showIgnoredPairs = true;
+    plugin.states['c1_u1_a1'] = QAPairState.IGNORED;
+
+    await browser.triageIgnore();
+
+    expect(plugin.actionLog).toEqual([]);
+    expect(browser.triageMessageId).toBe('a2');
+  });
+
+  test('should undo the last triage action and focus the pair it changed', async () => {
+    await browser.triageSave();
+    await browser.triageIgnore();
+    expect(browser.triageMessageId).toBe('a3');
+
+    await browser.stepPairHistory();
+    expect(plugin.getQAPairState('c1_u2_a2')).toBe(QAPairState.NEW);
+    expect(browser.triageMessageId).toBe('a2');
+
+    await browser.stepPairHistory();
+    expect(plugin.getQAPairState('c1_u1_a1')).toBe(QAPairState.NEW);
+    expect(plugin.notes).toEqual([]);
+    expect(browser.triageMessageId).toBe('a1');
+  });
+
+  test('should keep the focus on a pair whose save failed', async () => {
+    plugin.failingPairIds.add('c1_u1_a1');
+
+    await browser.triageSave();
+
+    expect(browser.notices).toEqual(['Triage action failed: Folder is read-only']);
+    expect(plugin.getQAPairState('c1_u1_a1')).toBe(QAPairState.NEW);
+    expect(browser.triageMessageId).toBeNull();
+  });
+
+  test('should do nothing outside triage mode', async () => {
+    browser.triageMode = false;
+    await browser.triageSave();
+    await browser.triageIgnore();
+    expect(plugin.states).toEqual({});
+  });
+});
+
+describe('Quick save', () => {
+  let plugin: TestTriagePlugin;
+  let browser: TestTriageBrowser;
+  const conversation: TestConversation = {
+    id: 'c1',
+    messages: ['1', '2'].reduce((messages, n) => messages.concat([{ id: `u${n}`, role: 'user' }, { id: `a${n}`, role: 'assistant' }]), [] as TestMessage[])
+  };
+
+  // The plugin's "Quick save Q&A pair with defaults" command
+  async function runQuickSaveCommand(checking: boolean): Promise<boolean> {
+    const target = browser.getQuickSaveTarget();
+    if (!target) return false;
+    if (!checking) {
+      if (browser.triageMode) {
+        await browser.triageSave();
+      } else {
+        await browser.quickSavePair(target.conv, target.pair, 'Command');
+      }
+    }
+    return true;
+  }
+
+  beforeEach(() => {
+    plugin = new TestTriagePlugin();
+    browser = new TestTriageBrowser(plugin, [conversation]);
+    browser.triageMode = false;
+  });
+
+  test('should log the button save as one action and offer it to the notice', async () => {
+    const [pair] = plugin.getQAPairs(conversation);
+    const saved = await browser.quickSavePair(conversation, pair, 'Quick save');
+
+    expect(saved.notePath).toBe('ChatGPT/a1.md');
+    expect(plugin.actionLog).toHaveLength(1);
+    expect(saved.action).toBe(plugin.actionLog[0]);
+    expect(saved.action).toMatchObject({ label: 'Quick save pair as note', source: 'Quick save', notes: ['ChatGPT/a1.md'] });
+  });
+
+  test('should open the note where it was moved to', async () => {
+    const [pair] = plugin.getQAPairs(conversation);
+    const saved = await browser.quickSavePair(conversation, pair, 'Quick save');
+    plugin.renameNote('ChatGPT/a1.md', 'Archive/a1.md');
+    expect(saved.openPath()).toBe('Archive/a1.md');
+  });
+
+  test('should undo the save from the notice', async () => {
+    const [pair] = plugin.getQAPairs(conversation);
+    const saved = await browser.quickSavePair(conversation, pair, 'Quick save');
+
+    await saved.undo();
+
+    expect(plugin.getQAPairState(pair.pairId)).toBe(QAPairState.NEW);
+    expect(plugin.notes).toEqual([]);
+  });
+
+  test('should not undo from the notice once later changes were made', async () => {
+    const [first, second] = plugin.getQAPairs(conversation);
+    const saved = await browser.quickSavePair(conversation, first, 'Quick save');
+    await plugin.updateQAPairStates([second], QAPairState.IGNORED, 'c1', 'Importer');
+
+    await saved.undo();
+
+    expect(browser.notices[0]).toContain('undo them first');
+    expect(plugin.getQAPairState(first.pairId)).toBe(QAPairState.SAVED);
+  });
+
+  test('should save the first new pair shown from the command', async () => {
+    plugin.states['c1_u1_a1'] = QAPairState.IGNORED;
+
+    expect(await runQuickSaveCommand(true)).toBe(true);
+    expect(plugin.notes).toEqual([]);
+
+    await runQuickSaveCommand(false);
+    expect(plugin.notes).toEqual(['ChatGPT/a2.md']);
+    expect(plugin.actionLog.map(action => action.source)).toEqual(['Command']);
+    expect(await runQuickSaveCommand(true)).toBe(false);
+  });
+
+  test('should save the pair in triage focus from the command and move on', async () => {
+    browser.triageMode = true;
+    browser.triageMessageId = 'a2';
+
+    await runQuickSaveCommand(false);
+
+    expect(plugin.notes).toEqual(['ChatGPT/a2.md']);
+    expect(plugin.actionLog.map(action => action.source)).toEqual(['Triage']);
+    expect(browser.triageMessageId).toBe('a2');
+    // The focused pair is saved now, so the command is unavailable until the cursor moves
+    expect(await runQuickSaveCommand(true)).toBe(false);
+  });
+
+  test('should not be available outside a conversation', async () => {
+    browser.viewMode = 'toc';
+    expect(await runQuickSaveCommand(true)).toBe(false);
+  });
+});
+
+describe('Save each', () => {
+  let plugin: TestTriagePlugin;
+  let browser: TestTriageBrowser;
+  const conversation: TestConversation = {
+    id: 'c1',
+    messages: ['1', '2', '3'].reduce((messages, n) => messages.concat([{ id: `u${n}`, role: 'user' }, { id: `a${n}`, role: 'assistant' }]), [] as TestMessage[])
+  };
+
+  beforeEach(() => {
+    plugin = new TestTriagePlugin();
+    browser = new TestTriageBrowser(plugin, [conversation]);
+  });
+
+  test('should not save pairs again that are already saved', async () => {
+    // "Select all" with saved pairs shown
+    plugin.states['c1_u2_a2'] = QAPairState.SAVED;
+
+    await browser.bulkSaveEach(conversation, plugin.getQAPairs(conversation));
+
+    expect(plugin.notes).toEqual(['ChatGPT/a1.md', 'ChatGPT/a3.md']);
+    expect(plugin.actionLog).toHaveLength(1);
+    expect(plugin.actionLog[0].label).toBe('Save 2 pairs as notes');
+    expect(plugin.actionLog[0].changes.map(change => change.pairId)).toEqual(['c1_u1_a1', 'c1_u3_a3']);
+    expect(browser.notices).toEqual(['Saved 2 notes\nSkipped 1 pair already saved']);
+  });
+
+  test('should log nothing when every selected pair is saved', async () => {
+    const pairs = plugin.getQAPairs(conversation).slice(0, 2);
+    pairs.forEach(pair => plugin.states[pair.pairId] = QAPairState.SAVED);
+
+    await browser.bulkSaveEach(conversation, pairs);
+
+    expect(plugin.notes).toEqual([]);
+    expect(plugin.actionLog).toEqual([]);
+    expect(browser.notices).toEqual(['Saved 0 notes\nSkipped 2 pairs already saved']);
+  });
+
+  test('should report failed pairs', async () => {
+    plugin.failingPairIds.add('c1_u1_a1');
+
+    await browser.bulkSaveEach(conversation, plugin.getQAPairs(conversation));
+
+    expect(browser.notices).toEqual(['Saved 2 of 3 notes (1 failed)']);
+  });
+});